@@ -20,4 +20,24 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // The core library runs in the app, in workers and in Node: browser-only
+    // APIs belong in src/browser.
+    files: ['src/core/**/*.ts'],
+    rules: {
+      'no-restricted-globals': ['error',
+        ...['window', 'document', 'navigator', 'location', 'localStorage', 'sessionStorage', 'indexedDB',
+          'Image', 'FileReader', 'DOMParser', 'Path2D', 'FontFace'].map(name => ({
+          name,
+          message: 'src/core must stay DOM-free; use an adapter in src/browser.',
+        })),
+      ],
+    },
+  },
+  {
+    files: ['src/cli/**/*.ts', 'tests/**/*.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ])
@@ -1,61 +1,47 @@
 
-import { useState, useEffect } from 'react';
-import { Cookie, Wand2, Undo2, Redo2, Upload, Pencil, Type, Shapes, Heart, Star, Circle, FolderOpen, Save } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Cookie, Wand2, Undo2, Redo2, Upload, Pencil, Type, Shapes, Heart, Star, Circle, FolderOpen, Save, History, Share2, ListTree, Boxes } from 'lucide-react';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { Dropzone } from './components/Dropzone';
 import { StartScreen, type AppMode } from './components/StartScreen';
-import { Controls } from './components/Controls';
+import { Controls, type ExportFormat, type VectorFormat } from './components/Controls';
 import { Viewer3D } from './components/Viewer3D';
 import { TextInput } from './components/TextInput';
 import { ContourEditor, type ContourRole } from './components/ContourEditor';
 import { ImageProcessor } from './components/ImageProcessor';
-import { prepareImageForTrace, loadImage, type ProcessOptions, simplifyContour, smoothContour } from './core/image-processing'; // V45: Import prepare
-import { generateGeometry, exportToSTL, type CutterPart, type CutterSettings } from './core/geometry-generator';
-import { applyTransformToContour } from './core/transform-utils';
-import { generateCircle, generateHeart, generateStar, generateRectangle } from './core/shape-templates';
+import {
+  optimizeTracedContours, tracedRoles, fitContourCurves, DEFAULT_CURVE_FIT, DEFAULT_SETTINGS, exportToSTL, applyTransformToContour, generateCircle,
+  generateHeart, generateStar, generateRectangle, checkManufacturability, checkMeshReport, exportTo3MF, DEFAULT_PART_COLORS,
+  printKitName, splitPrintKit, exportToOBJ, exportToDXF, exportToSVG, createProjectFile,
+  parseProjectFile, ProjectValidationError, buildShareUrl, decodeSharePayload, readShareFragment,
+  serializeDesign, deserializeDesign, flattenContour, expandCompound, remapCompounds, indexById,
+  resolveItemFlags, syncItems, buildGenerationInput, type ProcessOptions, type CutterPart, type CutterSettings,
+  type GenerationStage, type ManufacturabilityIssue, type ProjectFile, type HistoryMeta, type NodeType,
+  type DesignState, type CompoundShape, type ContourItem, type DesignGroup
+} from './core';
+import { prepareImageForTrace, loadImage, readDataUrl, parseSvg, exportToGLB, type ProjectData, type ProjectVersion } from './browser';
 import { FloatingPanel } from './components/FloatingPanel'; // V44
 import TraceWorker from './workers/trace.worker?worker'; // V45: Worker Import
-// import GeometryWorker from './core/geometry.worker?worker'; // Reverted
+import { useGeometryWorker } from './hooks/useGeometryWorker'; // V49: Geometry Worker
+import { ExportReport } from './components/ExportReport';
+import { useProjectLibrary } from './hooks/useProjectLibrary'; // V59
+import { ProjectVersionsPanel } from './components/ProjectVersionsPanel';
+import { SharedProjectViewer } from './components/SharedProjectViewer';
+import { BatchPanel } from './components/BatchPanel'; // V68
 import * as THREE from 'three';
+import manifoldWasmUrl from 'manifold-3d/manifold.wasm?url'; // V51: Watertight export
 
-const DEFAULT_SETTINGS: CutterSettings = {
-  size: 90,
-  cutterHeight: 20,
-  cutterThickness: 0.8,
-  baseHeight: 3,
-  baseThickness: 5,
-  mirror: false,
-  withBase: true,
-  markerHeight: 14,
-  markerThickness: 0.8,
-  generationMode: 'single',
-  stampTolerance: 0.5,
-  handleHeight: 15,
-  handleThickness: 5,
-  automaticBridges: false,
-  solidBase: false,
-  bladeProfile: 'standard',
-  stampGrid: false,
-  outputType: 'cutter',
-  keychainHoleDiameter: 4,
-  keychainShape: 'silhouette',
-  keychainBasePadding: 4,
-  keychainHoleOffset: { x: 0, y: 0 },
-  keychainBevelEnabled: false,
-  keychainBevelSize: 0.5
+const GENERATION_STAGE_LABELS: Record<GenerationStage, string> = {
+  voids: 'Restando huecos',
+  bridges: 'Calculando puentes',
+  walls: 'Generando paredes',
+  bases: 'Generando bases'
 };
 
-import { useHistory } from './hooks/useHistory';
+import { useDesignHistory } from './hooks/useDesignHistory'; // V62: Patch-based history
+import { HistoryPanel } from './components/HistoryPanel';
 
-import { interpolateContour, sampleBezierPath, type NodeType } from './core/curve-utils';
-
-interface DesignState {
-  contours: THREE.Vector2[][];
-  roles: ContourRole[];
-  nodeTypes?: NodeType[][];
-  handles?: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][]; // V43: Bezier Handles
-}
 
 function App() {
   // Persistence: Load initial settings from localStorage if available
@@ -73,30 +59,74 @@ function App() {
     redo: redoDesign,
     canUndo: canUndoDesign,
     canRedo: canRedoDesign,
-    reset: resetHistory
-  } = useHistory<DesignState | null>(null);
+    reset: resetHistory,
+    jumpTo: jumpToHistory,
+    entries: historyEntries,
+    position: historyPosition
+  } = useDesignHistory(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   // Derived state
   const contours = designState?.contours || null;
   const contourRoles = designState?.roles || [];
   const nodeTypes = designState?.nodeTypes || []; // New
   const contourHandles = designState?.handles || []; // V43
+  const compounds = designState?.compounds; // V65
+  const contourItems = designState?.items; // V66
+  const designGroups = designState?.groups;
+  const hiddenMask = useMemo(
+    () => contours ? resolveItemFlags(contourItems, designGroups, contours.length).hidden.map(h => h ? '1' : '0').join('') : '',
+    [contours, contourItems, designGroups]
+  );
 
   // Helper to update design
   const updateDesign = (
     newContours: THREE.Vector2[][],
     newRoles?: ContourRole[],
     newNodeTypes?: NodeType[][],
-    newHandles?: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][]
+    newHandles?: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][],
+    meta?: HistoryMeta, // V62: History label
+    newItems?: ContourItem[]
   ) => {
     const finalRoles = newRoles || newContours.map((_, i) => contourRoles[i] || 'auto');
     const finalNodeTypes = newNodeTypes || newContours.map((c, i) => nodeTypes[i] || new Array(c.length).fill('corner'));
     const finalHandles = newHandles || newContours.map((c, i) => contourHandles[i] || new Array(c.length).fill(null));
-
-    setDesignState({ contours: newContours, roles: finalRoles, nodeTypes: finalNodeTypes, handles: finalHandles });
+    const finalItems = newItems || syncItems(contourItems, contours, newContours); // V66: IDs follow their contours
+    latestItems.current = finalItems; // The editor selects the new contours right after this call
+
+    setDesignState({
+      contours: newContours,
+      roles: finalRoles,
+      nodeTypes: finalNodeTypes,
+      handles: finalHandles,
+      compounds: remapCompounds(compounds, contours, newContours), // V65: Operands follow their contours
+      items: finalItems,
+      groups: designGroups
+    }, meta);
     setIsDirty(true); // V48: Mark as dirty on change
   };
 
+  // V65: Compound shapes change without touching the contours
+  const handleCompoundsChange = (newCompounds: CompoundShape[], meta?: HistoryMeta) => {
+    if (!designState) return;
+    setDesignState({ ...designState, compounds: newCompounds.length > 0 ? newCompounds : undefined }, meta);
+    setIsDirty(true);
+  };
+
+  // V66: Names, groups, lock and visibility (the contours stay untouched)
+  const handleLayersChange = (items: ContourItem[], groups: DesignGroup[], meta?: HistoryMeta) => {
+    if (!designState) return;
+    setDesignState({ ...designState, items, groups: groups.length > 0 ? groups : undefined }, meta);
+    setIsDirty(true);
+  };
+
+  const handleExpandCompound = (id: string) => {
+    if (!designState) return;
+    setDesignState(expandCompound(designState, id, i => flattenContour(designState, i)), { label: 'Expandir forma compuesta' });
+    setSelectedIndices(new Set());
+    setIsDirty(true);
+  };
+
   // V48: Persistence State
   const [projectName, setProjectName] = useState<string | null>(null);
   const [isDirty, setIsDirty] = useState(false);
@@ -113,23 +143,22 @@ function App() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [isDirty]);
 
-  const handleSaveProject = () => {
-    // Serialize
-    const projectData = {
-      version: "1.0",
-      timestamp: Date.now(),
-      name: projectName || "Mi Proyecto",
-      settings: settings,
-      data: {
-        contours: contours?.map(c => c.map(p => ({ x: p.x, y: p.y }))) || [],
-        roles: contourRoles,
-        nodeTypes: nodeTypes,
-        handles: contourHandles,
-        imageDims: imageDims
-      }
-    };
+  // V60: Versioned schema (reference image and view state embedded)
+  const buildProjectFile = (name: string) => createProjectFile({
+    name,
+    mode: appMode || 'cutter',
+    settings,
+    design: serializeDesign(designState || { contours: [], roles: [] }),
+    imageDims,
+    referenceImage: referenceImage || undefined,
+    view: {
+      viewer: { baseColor: viewerSettings.baseColor, outerColor: viewerSettings.outerColor, innerColor: viewerSettings.innerColor },
+      hiddenPartIds: Array.from(hiddenPartIds),
+      show3DPreview
+    }
+  });
 
-    const blob = new Blob([JSON.stringify(projectData, null, 2)], { type: "application/json" });
+  const handleSaveProject = () => {
     let finalName = projectName;
     if (!finalName) {
       finalName = prompt("Nombre del proyecto:", "proyecto-cookie-cutter");
@@ -137,6 +166,7 @@ function App() {
       setProjectName(finalName);
     }
 
+    const blob = new Blob([JSON.stringify(buildProjectFile(finalName), null, 2)], { type: "application/json" });
     saveAs(blob, `${finalName}.ccg`);
     setIsDirty(false);
   };
@@ -149,34 +179,30 @@ function App() {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const json = JSON.parse(e.target?.result as string);
-        if (!json.version || !json.data) throw new Error("Archivo de proyecto inválido");
-
-        // Restore State
-        setSettings(json.settings);
-        setProjectName(json.name);
-
-        const loadedContours = json.data.contours.map((c: any[]) => c.map((p: any) => new THREE.Vector2(p.x, p.y)));
-        const loadedRoles = json.data.roles;
-        const loadedNodeTypes = json.data.nodeTypes;
-        // Handles need rehydration (vector2)
-        const loadedHandles = json.data.handles?.map((hc: any[]) => hc.map((h: any) => h ? { in: new THREE.Vector2(h.in.x, h.in.y), out: new THREE.Vector2(h.out.x, h.out.y) } : null));
-
-        setImageDims(json.data.imageDims);
-        resetAppDesign({
-          contours: loadedContours,
-          roles: loadedRoles,
-          nodeTypes: loadedNodeTypes,
-          handles: loadedHandles
+        // V60: Migrates older files and validates every field before touching the state
+        const project = parseProjectFile(e.target?.result as string, DEFAULT_SETTINGS);
+
+        library.closeProject(); // An opened file starts its own library project
+        setProjectName(project.name);
+        applyProjectData({
+          mode: project.mode,
+          design: project.design,
+          settings: project.settings,
+          imageDims: project.imageDims,
+          referenceImage: project.referenceImage ?? null
         });
 
-        setIsDirty(false);
-        setAppMode('cutter'); // Default switch to editor mode
-        setIsNodeEditorMode(true);
+        const view = project.view;
+        if (view?.viewer) setViewerSettings((prev: typeof viewerSettings) => ({ ...prev, ...view.viewer }));
+        if (view?.hiddenPartIds) setHiddenPartIds(new Set(view.hiddenPartIds));
+        if (view?.show3DPreview !== undefined) setShow3DPreview(view.show3DPreview);
 
+        setIsDirty(false);
       } catch (err) {
         console.error(err);
-        alert("Error al cargar proyecto: Archivo corrupto o versión incompatible.");
+        alert(err instanceof ProjectValidationError
+          ? `Error al cargar proyecto: ${err.message}`
+          : "Error al cargar proyecto: Archivo corrupto o versión incompatible.");
       }
     };
     reader.readAsText(file);
@@ -213,27 +239,56 @@ function App() {
     }
   };
 
-  const [geometryParts, setGeometryParts] = useState<CutterPart[]>([]);
+  // V66: Parts refer to contours by ID; the index is resolved against the current design
+  const [generatedParts, setGeometryParts] = useState<CutterPart[]>([]);
+  const geometryParts = useMemo(() => {
+    const indices = indexById(contourItems);
+    return generatedParts.map(p => ({
+      ...p,
+      contourIndex: p.contourId === undefined ? -1 : indices.get(p.contourId) ?? -1,
+      sourceIndices: p.sourceIds.flatMap(id => indices.has(id) ? [indices.get(id) as number] : []) // V67
+    }));
+  }, [generatedParts, contourItems]);
+
+  // V52: Manufacturability report (shown before export when there are issues,
+  // and after a unioned STL export whose mesh did not come out closed)
+  const [exportReport, setExportReport] = useState<{ issues: ManufacturabilityIssue[], format: ExportFormat, exported?: boolean } | null>(null);
+  const [activeIssueId, setActiveIssueId] = useState<string | null>(null);
+  const [flaggedPartIds, setFlaggedPartIds] = useState<Set<string>>(new Set());
+  const closeExportReport = () => {
+    setExportReport(null);
+    setActiveIssueId(null);
+    setFlaggedPartIds(new Set());
+  };
 
-  // Initialize Geometry Worker
-  /* Reverted Worker Initialization */
+  // V49: Geometry Worker (stale jobs are dropped inside the hook)
+  const { generate: generateGeometryAsync, cancel: cancelGeometry, progress: geometryProgress } = useGeometryWorker(
+    parts => {
+      setGeometryParts(parts);
+      closeExportReport(); // V52: The issues refer to the previous parts
+    },
+    () => setError("Error al generar la geometría 3D.")
+  );
 
   // V34: Lifted Selection State for 3D Sync
-  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
-
-  // Reset selection when contours change length or are reset (optional safety)
+  // V66: Stored as contour IDs, so it survives deletions and reordering;
+  // components still see indices into the current design.
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const latestItems = useRef<ContourItem[] | undefined>(undefined);
   useEffect(() => {
-    // If contours are removed, filter selection?
-    if (!contours) setSelectedIndices(new Set());
-    else {
-      // Keep only valid indices
-      const maxIdx = contours.length - 1;
-      const valid = Array.from(selectedIndices).filter(i => i <= maxIdx);
-      if (valid.length !== selectedIndices.size) {
-        setSelectedIndices(new Set(valid));
-      }
-    }
-  }, [contours?.length]);
+    latestItems.current = contourItems;
+  }, [contourItems]);
+
+  const selectedIndices = useMemo(() => {
+    const indices = new Set<number>();
+    contourItems?.forEach((item, i) => { if (selectedIds.has(item.id)) indices.add(i); });
+    return indices;
+  }, [selectedIds, contourItems]);
+
+  const setSelectedIndices = (indices: Set<number>) => {
+    const items = latestItems.current;
+    setSelectedIds(new Set(Array.from(indices).flatMap(i => items?.[i] ? [items[i].id] : [])));
+  };
 
   // V36: 3D Manipulation Handlers
   const handleDeleteParts = (indices: Set<number>) => {
@@ -242,7 +297,7 @@ function App() {
     const newRoles = contourRoles.filter((_, i) => !indices.has(i));
     const newNodeTypes = nodeTypes.filter((_, i) => !indices.has(i));
 
-    updateDesign(newContours, newRoles, newNodeTypes);
+    updateDesign(newContours, newRoles, newNodeTypes, undefined, { label: `Eliminar ${indices.size} pieza${indices.size === 1 ? '' : 's'} (3D)` });
     setSelectedIndices(new Set()); // Clear selection
   };
 
@@ -263,8 +318,8 @@ function App() {
     // NewPoint = Matrix * (Point - Center).
 
     // Find the center of the part being transformed
-    // We look in geometryParts for any part that has this contourIndex
-    const part = geometryParts.find(p => p.contourIndex === index);
+    // We look in geometryParts for any part that comes from this contour
+    const part = geometryParts.find(p => p.contourId !== undefined && p.contourId === contourItems?.[index]?.id);
     const center = part?.center || new THREE.Vector2(0, 0);
 
     const newContour = applyTransformToContour(contour, matrix, center);
@@ -274,7 +329,7 @@ function App() {
 
     // Update design - this will trigger regeneration
     // We might want to debounce this if it's realtime dragging, but usually onMouseUp
-    updateDesign(newContours);
+    updateDesign(newContours, undefined, undefined, undefined, { label: 'Transformar pieza (3D)', mergeKey: `3d-transform:${index}` });
   };
   // Input Mode
   const [inputMode, setInputMode] = useState<'upload' | 'text' | 'designer' | 'templates'>('upload');
@@ -292,12 +347,7 @@ function App() {
   // Persistence: Save/Load Viewer Settings
   const [viewerSettings, setViewerSettings] = useState(() => {
     const saved = localStorage.getItem('cookie_cutter_viewer_settings');
-    const parsed = saved ? JSON.parse(saved) : {
-      baseColor: '#ff6347',
-      outerColor: '#3b82f6',
-      innerColor: '#10b981',
-      autoRotate: false
-    };
+    const parsed = saved ? JSON.parse(saved) : { ...DEFAULT_PART_COLORS, autoRotate: false };
     return { ...parsed, autoRotate: false }; // Always start with auto-rotate off
   });
 
@@ -311,6 +361,171 @@ function App() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(true);
   const [isInputCollapsed, setIsInputCollapsed] = useState(false);
 
+  // V59: Local Project Library (autosave, versions, snapshots)
+  const library = useProjectLibrary();
+  const [showVersions, setShowVersions] = useState(false);
+  const [showBatch, setShowBatch] = useState(false); // V68
+  const [sharedProject, setSharedProject] = useState<ProjectFile | null>(null); // V61: Share link being viewed
+  const lastAutosaved = useRef<string | null>(null);
+
+  const collectProjectData = (): ProjectData | null => {
+    if (!appMode || sharedProject || !designState || designState.contours.length === 0) return null;
+    return {
+      mode: appMode,
+      design: serializeDesign(designState),
+      settings,
+      imageDims,
+      referenceImage
+    };
+  };
+
+  const libraryName = () => projectName || `Proyecto ${new Date().toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}`;
+
+  // The debounced autosave reads the latest project, name and library through
+  // a ref, and only serializes once the edits settle
+  const autosaveRef = useRef(() => {});
+  useEffect(() => {
+    autosaveRef.current = () => {
+      const data = collectProjectData();
+      if (!data) return;
+      const json = JSON.stringify(data);
+      if (json === lastAutosaved.current) return;
+      library.saveToLibrary(data, 'autosave', libraryName()).then(version => {
+        if (version) lastAutosaved.current = json;
+      });
+    };
+  });
+
+  useEffect(() => {
+    const timer = setTimeout(() => autosaveRef.current(), 1500);
+    return () => clearTimeout(timer);
+  }, [designState, settings, imageDims, referenceImage, appMode, sharedProject]);
+
+  const applyProjectData = (data: ProjectData) => {
+    setSettings({ ...DEFAULT_SETTINGS, ...data.settings });
+    setAppMode(data.mode);
+    setImageDims(data.imageDims);
+    resetAppDesign(deserializeDesign(data.design));
+    setReferenceImage(data.referenceImage);
+    setHiddenPartIds(new Set());
+    setProcessingImg(null);
+    setIsNodeEditorMode(true);
+  };
+
+  const handleOpenLibraryProject = async (id: string) => {
+    try {
+      const data = await library.openProject(id);
+      if (!data) throw new Error('Proyecto vacío');
+      lastAutosaved.current = JSON.stringify(data); // Opening is not a change
+      setProjectName(library.projects.find(p => p.id === id)?.name || null);
+      applyProjectData(data);
+      setIsDirty(false);
+    } catch (err) {
+      console.error(err);
+      alert('No se pudo abrir el proyecto de la biblioteca.');
+    }
+  };
+
+  const handleStartNew = (mode: AppMode) => {
+    library.closeProject(); // First autosave creates a new project
+    switchMode(mode);
+  };
+
+  const handleCreateSnapshot = (label: string) => {
+    const data = collectProjectData();
+    if (!data) return;
+    library.saveToLibrary(data, 'snapshot', libraryName(), label).then(version => {
+      if (version) lastAutosaved.current = JSON.stringify(data);
+    });
+  };
+
+  const handleRestoreVersion = (version: ProjectVersion) => {
+    if (!confirm(`¿Restaurar la versión del ${new Date(version.createdAt).toLocaleString('es-ES')}? El estado actual seguirá en el historial.`)) return;
+    applyProjectData(version.data); // The next autosave records the restore as the newest version
+    setIsDirty(true);
+  };
+
+  const handleRenameLibraryProject = (name: string) => {
+    library.renameProject(name);
+    setProjectName(name);
+  };
+
+  // V61: Share Links (read-only viewer while `sharedProject` is set)
+  // The hashchange listener is added once; it loads through the latest applyProjectData
+  const applyProjectDataRef = useRef(applyProjectData);
+  useEffect(() => {
+    applyProjectDataRef.current = applyProjectData;
+  });
+
+  useEffect(() => {
+    const openShareLink = () => {
+      const payload = readShareFragment(window.location.hash);
+      if (!payload) return;
+      decodeSharePayload(payload, DEFAULT_SETTINGS)
+        .then(project => {
+          setSharedProject(project);
+          applyProjectDataRef.current({ ...project, referenceImage: null });
+          if (project.view?.viewer) setViewerSettings((prev: typeof viewerSettings) => ({ ...prev, ...project.view?.viewer }));
+        })
+        .catch(err => {
+          console.error(err);
+          alert(`No se pudo abrir el enlace compartido: ${err.message}`);
+        });
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
+
+  const clearShareFragment = () => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const handleShareLink = async () => {
+    try {
+      const url = await buildShareUrl(buildProjectFile(projectName || 'Diseño compartido'), window.location.href);
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(referenceImage
+          ? 'Enlace copiado al portapapeles (la imagen de referencia no se incluye).'
+          : 'Enlace copiado al portapapeles.');
+      } catch {
+        prompt('Copia el enlace para compartir:', url);
+      }
+    } catch (err) {
+      console.error(err);
+      alert('No se pudo crear el enlace para compartir.');
+    }
+  };
+
+  const handleDuplicateShared = () => {
+    if (!sharedProject) return;
+    const name = `${sharedProject.name} (copia)`;
+    const data = {
+      mode: sharedProject.mode,
+      design: sharedProject.design,
+      settings: sharedProject.settings,
+      imageDims: sharedProject.imageDims,
+      referenceImage: null
+    };
+    library.closeProject();
+    library.saveToLibrary(data, 'snapshot', name, 'Copia del enlace compartido').then(version => {
+      if (version) lastAutosaved.current = JSON.stringify(data);
+    });
+    setProjectName(name);
+    setSharedProject(null);
+    clearShareFragment();
+  };
+
+  const handleCloseShared = () => {
+    setSharedProject(null);
+    clearShareFragment();
+    resetAppDesign(null);
+    setImageDims(null);
+    setAppMode(null);
+    library.refreshProjects();
+  };
+
   // Handlers required by UI
   const handleViewerChange = (key: string, value: any) => {
     setViewerSettings((prev: any) => ({ ...prev, [key]: value }));
@@ -323,8 +538,16 @@ function App() {
   };
 
   // V12: Handle loading Reference Image
+  // V60: Kept as a data URL so project files and library versions embed it
   const handleReferenceLoaded = async (file: File) => {
-    const url = URL.createObjectURL(file);
+    let url: string;
+    try {
+      url = await readDataUrl(file);
+    } catch (err) {
+      console.error(err);
+      setError("No se pudo leer la imagen de referencia.");
+      return;
+    }
     setReferenceImage(url);
 
     // Get image dims for the editor using the existing loader
@@ -381,7 +604,7 @@ function App() {
   // ...
 
   // V45: Smart Trace - Web Worker Implementation
-  const runTrace = (img: HTMLImageElement, options: ProcessOptions) => {
+  const runTrace = (img: HTMLImageElement, options: ProcessOptions, curveTolerance: number = DEFAULT_CURVE_FIT.tolerance) => {
     setIsProcessing(true);
     setError(null);
     setHiddenPartIds(new Set());
@@ -409,21 +632,13 @@ function App() {
           setIsProcessing(false);
         } else {
           // 3. Rehydrate & Optimize
-          const contours: THREE.Vector2[][] = result.contours.map((c: any[]) =>
-            c.map((p: any) => new THREE.Vector2(p.x, p.y))
-          );
-
-          const optimized = contours.map(c => {
-            // Initial noise reduction
-            let pts = simplifyContour(c, 1.5);
-            // Smoothing
-            pts = smoothContour(pts, 3);
-            // Final point reduction
-            pts = simplifyContour(pts, 0.5);
-            return pts;
-          });
-
-          resetAppDesign(optimized);
+          // V72: ...or fit editable Bezier nodes (a tolerance of 0 keeps the polyline)
+          const roles = tracedRoles(result);
+          const traced = curveTolerance > 0
+            ? fitContourCurves(result.contours, { ...DEFAULT_CURVE_FIT, tolerance: curveTolerance }, roles)
+            : { contours: optimizeTracedContours(result.contours), roles };
+
+          resetAppDesign(traced);
           setImageDims({ width: result.width, height: result.height });
           setProcessingImg(null); // Exit processing mode
           setIsNodeEditorMode(true); // Go to editor
@@ -447,7 +662,38 @@ function App() {
     }
   };
 
+  // V55: Vector files keep their curves as editable nodes instead of being traced
+  const handleSvgLoaded = async (file: File) => {
+    try {
+      const { width, height, ...design } = parseSvg(await file.text());
+      setImageDims({ width, height });
+      resetAppDesign(design);
+      setHiddenPartIds(new Set());
+      setInputMode('upload');
+      setIsNodeEditorMode(true);
+      setProcessingImg(null);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo importar el SVG.");
+    }
+  };
+
+  // V68: A batch item opened for fine-tuning replaces the current design
+  const handleOpenBatchItem = (design: DesignState, width: number, height: number) => {
+    setImageDims({ width, height });
+    resetAppDesign(design);
+    setHiddenPartIds(new Set());
+    setReferenceImage(null);
+    setIsNodeEditorMode(true);
+    setProcessingImg(null);
+    setShowBatch(false);
+  };
+
   const handleImageLoaded = async (file: File) => {
+    if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+      await handleSvgLoaded(file);
+      return;
+    }
     try {
       const img = await loadImage(file);
       // V16: Go to Processor
@@ -468,84 +714,64 @@ function App() {
   // ...
 
   useEffect(() => {
-    if (!contours || !imageDims) return;
-
-    // Interpolate curves if needed
-    const smoothContours = contours.map((c, i) => {
-      const types = nodeTypes[i] || new Array(c.length).fill('corner');
-      const handles = contourHandles[i];
-      let finalContour = c;
-
-      const hasHandles = handles && handles.some(h => h !== null);
-
-      if (hasHandles) {
-        // V43: Professional Bezier Sampling for 3D
-        const bezierNodes = c.map((p, pI) => ({
-          pos: p,
-          handleIn: handles[pI]?.in || new THREE.Vector2(0, 0),
-          handleOut: handles[pI]?.out || new THREE.Vector2(0, 0),
-          type: types[pI] === 'smooth' ? 'smooth' : 'corner' as any
-        }));
-        // Use higher tolerance/quality for 3D? Standard 1px is fine for now.
-        finalContour = sampleBezierPath(bezierNodes, true, 1);
-      } else if (types.some(t => t === 'smooth')) {
-        finalContour = interpolateContour(c, types, true, 8);
-      }
+    if (!contours || !imageDims) {
+      cancelGeometry();
+      return;
+    }
 
-      // V42: Editor is now Y-Down (Screen), 3D is Y-Up.
-      // We must Flip Y to ensure model is not upside down.
-      // We assume X is correct (Left is Left).
-      return finalContour.map(p => new THREE.Vector2(p.x, -p.y));
-    });
+    // V42: Editor is Y-Down (Screen), 3D is Y-Up; curves are sampled and compounds evaluated there.
+    // V66: Hidden contours (or hidden groups) are left out of the model.
+    // Renaming or locking does not regenerate: only the hidden mask is a dependency.
+    const design = { contours, roles: contourRoles, nodeTypes, handles: contourHandles, compounds, items: latestItems.current };
+    const input = buildGenerationInput(design, hiddenMask.split('').map(h => h === '1')); // V68
 
-    // Reverted to Synchronous Generation
-    const parts = generateGeometry(smoothContours, contourRoles, imageDims.width, imageDims.height, settings);
-    setGeometryParts(parts);
+    // V49: Generation runs in the worker, the result arrives through setGeometryParts
+    generateGeometryAsync(input.contours, input.roles, imageDims.width, imageDims.height, settings, input.sources);
 
-  }, [contours, contourRoles, imageDims, settings, nodeTypes, contourHandles]);
+  }, [contours, contourRoles, imageDims, settings, nodeTypes, contourHandles, compounds, hiddenMask, generateGeometryAsync, cancelGeometry]);
 
 
-  const handleExport = async (isZip = false) => {
+  // V51: Optionally union each body into one watertight solid (manifold WASM loads on first use)
+  // A union that is not closed still exports, along with the issue to report
+  const toSTL = async (parts: CutterPart[], hidden: Set<string>, file?: string): Promise<{ blob: Blob, issue?: ManufacturabilityIssue | null }> => {
+    if (!settings.manifoldExport) return { blob: exportToSTL(parts, hidden) };
+    const { exportToManifoldSTL } = await import('./core/manifold-union');
+    const { blob, report } = await exportToManifoldSTL(parts, hidden, () => manifoldWasmUrl);
+    return { blob, issue: checkMeshReport(report, file) };
+  };
+
+  const handleExport = async (format: ExportFormat = 'stl') => {
     if (geometryParts.length === 0) return;
 
     try {
-      if (isZip) {
-        const zip = new JSZip();
+      const baseName = settings.outputType === 'keychain' ? 'llavero' : 'cortador';
+      const meshIssues: ManufacturabilityIssue[] = [];
 
-        if (settings.outputType === 'cutter') {
-          // --- CUTTER MODE SPLIT ---
-          // 1. Cutter (Blade ONLY)
-          const cutterParts = geometryParts.filter(p => !hiddenPartIds.has(p.id) && p.type === 'outer');
-          // 2. Marker (Inner Details + Base + Handle)
-          const markerParts = geometryParts.filter(p => !hiddenPartIds.has(p.id) && (p.type === 'inner' || p.type === 'base' || p.type === 'handle'));
-
-          if (cutterParts.length > 0) {
-            zip.file("cortador.stl", exportToSTL(cutterParts, new Set()));
-          }
-          if (markerParts.length > 0) {
-            zip.file("marcador.stl", exportToSTL(markerParts, new Set()));
-          }
-          saveAs(await zip.generateAsync({ type: "blob" }), "cortador-kit.zip");
+      if (format === '3mf') {
+        // V53: One aligned multi-part object, colored like the viewer
+        saveAs(await exportTo3MF(geometryParts, viewerSettings, hiddenPartIds), `${baseName}.3mf`);
 
-        } else {
-          // --- KEYCHAIN MODE SPLIT ---
-          // 1. Base (Backing)
-          const baseParts = geometryParts.filter(p => !hiddenPartIds.has(p.id) && p.type === 'base');
-          // 2. Relief (Details)
-          const reliefParts = geometryParts.filter(p => !hiddenPartIds.has(p.id) && p.type !== 'base');
-
-          if (baseParts.length > 0) {
-            zip.file("base.stl", exportToSTL(baseParts, new Set()));
-          }
-          if (reliefParts.length > 0) {
-            zip.file("relieve.stl", exportToSTL(reliefParts, new Set()));
-          }
-          saveAs(await zip.generateAsync({ type: "blob" }), "llavero-multicolor.zip");
+      } else if (format === 'obj') {
+        // V54: OBJ + MTL need to travel together
+        saveAs(await exportToOBJ(geometryParts, viewerSettings, hiddenPartIds, baseName), `${baseName}-obj.zip`);
+
+      } else if (format === 'glb') {
+        saveAs(await exportToGLB(geometryParts, viewerSettings, hiddenPartIds), `${baseName}.glb`);
+
+      } else if (format === 'zip') {
+        // V69: Cutter = blade + marker, keychain = base + relief
+        const zip = new JSZip();
+        for (const file of splitPrintKit(geometryParts, settings.outputType, hiddenPartIds)) {
+          const { blob, issue } = await toSTL(file.parts, new Set(), `${file.name}.stl`);
+          if (issue) meshIssues.push(issue);
+          zip.file(`${file.name}.stl`, blob);
         }
+        saveAs(await zip.generateAsync({ type: "blob" }), `${printKitName(settings.outputType)}.zip`);
 
       } else {
         // Standard Single STL
-        const blob = exportToSTL(geometryParts, hiddenPartIds);
+        const { blob, issue } = await toSTL(geometryParts, hiddenPartIds);
+        if (issue) meshIssues.push(issue);
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -553,14 +779,81 @@ function App() {
         a.click();
         URL.revokeObjectURL(url);
       }
+
+      if (meshIssues.length > 0) setExportReport({ issues: meshIssues, format, exported: true });
     } catch (err) {
       console.error(err);
       alert("Error al exportar: " + (err instanceof Error ? err.message : "Desconocido"));
     }
   };
 
+  // V56: The 2D design itself, in mm (no manufacturability check: nothing is printed)
+  const handleExportVector = (format: VectorFormat) => {
+    if (!contours || contours.length === 0 || !imageDims) return;
+    const design = { contours, roles: contourRoles, nodeTypes, handles: contourHandles, compounds };
+    const hidden = hiddenMask.split('').map(h => h === '1'); // V68
+    const baseName = settings.outputType === 'keychain' ? 'llavero' : 'cortador';
+
+    if (format === 'svg') {
+      const svg = exportToSVG(design, imageDims.width, imageDims.height, settings.size, hidden);
+      saveAs(new Blob([svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+    } else {
+      const dxf = exportToDXF(design, imageDims.width, imageDims.height, settings.size, hidden);
+      saveAs(new Blob([dxf], { type: 'application/dxf' }), `${baseName}.dxf`);
+    }
+  };
+
+  // V52: Check the visible parts first; only export straight away when nothing is flagged
+  const requestExport = (format: ExportFormat = 'stl') => {
+    if (geometryParts.length === 0) return;
+
+    // Checked on the generator's input (sampled curves, evaluated compounds, no hidden
+    // layers) and its own parts; issues point back at design contours for selection
+    let issues: ManufacturabilityIssue[] = [];
+    if (contours && imageDims) {
+      const design = { contours, roles: contourRoles, nodeTypes, handles: contourHandles, compounds, items: latestItems.current };
+      const input = buildGenerationInput(design, hiddenMask.split('').map(h => h === '1'));
+      const visibleParts = generatedParts.filter(p => !hiddenPartIds.has(p.id));
+      issues = checkManufacturability(visibleParts, input.contours, input.roles, imageDims.width, imageDims.height, settings, input.origins);
+    }
+
+    if (issues.length === 0) {
+      handleExport(format);
+      return;
+    }
+    setExportReport({ issues, format });
+  };
+
+  const handleSelectIssue = (issue: ManufacturabilityIssue) => {
+    setActiveIssueId(issue.id);
+    if (issue.contourIndex >= 0) setSelectedIndices(new Set([issue.contourIndex]));
+    setFlaggedPartIds(new Set(issue.partId ? [issue.partId] : []));
+  };
+
+  if (sharedProject && designState && imageDims) {
+    return (
+      <SharedProjectViewer
+        name={sharedProject.name}
+        design={designState}
+        imageDims={imageDims}
+        parts={geometryParts}
+        colors={viewerSettings}
+        isGenerating={geometryProgress !== null}
+        onDuplicate={handleDuplicateShared}
+        onClose={handleCloseShared}
+      />
+    );
+  }
+
   if (!appMode) {
-    return <StartScreen onSelectMode={switchMode} />;
+    return (
+      <StartScreen
+        onSelectMode={handleStartNew}
+        projects={library.projects}
+        onOpenProject={handleOpenLibraryProject}
+        onDeleteProject={library.deleteProject}
+      />
+    );
   }
 
   return (
@@ -622,6 +915,28 @@ function App() {
               >
                 <Save className="w-4 h-4" />
               </button>
+              <button
+                onClick={() => setShowVersions(!showVersions)}
+                className={`p-1.5 hover:text-white hover:bg-white/10 rounded transition-colors ${showVersions ? 'text-white bg-white/10' : 'text-stone-400'}`}
+                title={library.lastSavedAt ? `Versiones (autoguardado ${new Date(library.lastSavedAt).toLocaleTimeString('es-ES')})` : 'Versiones'}
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleShareLink}
+                disabled={!contours || contours.length === 0}
+                className="p-1.5 text-stone-400 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Compartir enlace de solo lectura"
+              >
+                <Share2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowBatch(true)}
+                className="p-1.5 text-stone-400 hover:text-white hover:bg-white/10 rounded transition-colors"
+                title="Generación por lotes"
+              >
+                <Boxes className="w-4 h-4" />
+              </button>
             </div>
 
             <button
@@ -638,6 +953,30 @@ function App() {
         </div>
       </header >
 
+      {showBatch && (
+        <BatchPanel
+          settings={settings}
+          colors={viewerSettings}
+          toSTL={(parts, file) => toSTL(parts, new Set(), file)}
+          onOpenItem={handleOpenBatchItem}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+
+      {showVersions && (
+        <ProjectVersionsPanel
+          key={library.activeProject?.id || 'none'}
+          project={library.activeProject}
+          versions={library.versions}
+          lastSavedAt={library.lastSavedAt}
+          error={library.error}
+          onRename={handleRenameLibraryProject}
+          onSnapshot={handleCreateSnapshot}
+          onRestore={handleRestoreVersion}
+          onClose={() => setShowVersions(false)}
+        />
+      )}
+
       <main className="flex-1 flex flex-row overflow-hidden relative">
         {/* Left Column: Canvas & Input */}
         <div className="flex-1 flex flex-col min-w-0 bg-[#0a0a0a] relative">
@@ -682,6 +1021,24 @@ function App() {
                   >
                     <Redo2 className="w-4 h-4" />
                   </button>
+                  <div className="w-px bg-white/10 my-1" />
+                  <div className="relative">
+                    <button
+                      onClick={() => setShowHistory(!showHistory)}
+                      className={`p-1.5 transition-colors ${showHistory ? 'text-white' : 'text-gray-300 hover:text-white'}`}
+                      title="Historial de cambios"
+                    >
+                      <ListTree className="w-4 h-4" />
+                    </button>
+                    {showHistory && (
+                      <HistoryPanel
+                        entries={historyEntries}
+                        position={historyPosition}
+                        onJump={jumpToHistory}
+                        onClose={() => setShowHistory(false)}
+                      />
+                    )}
+                  </div>
                 </div>
               )}
             </div>
@@ -690,11 +1047,7 @@ function App() {
               <>
                 <Viewer3D
                   parts={geometryParts}
-                  colors={{
-                    baseColor: '#ffffff',
-                    outerColor: '#ef4444',
-                    innerColor: '#3b82f6'
-                  }}
+                  colors={viewerSettings}
                   autoRotate={false}
                   isEditMode={false}
                   selectedIndices={selectedIndices}
@@ -705,6 +1058,7 @@ function App() {
                   onDeleteParts={handleDeleteParts}
                   onUndo={canUndoDesign ? undoDesign : undefined}
                   onRedo={canRedoDesign ? redoDesign : undefined}
+                  highlightedPartIds={flaggedPartIds}
                 />
                 {isEditMode && (
                   <div className="absolute top-4 left-4 bg-red-500/20 text-red-100 border border-red-500/30 px-3 py-1.5 rounded-full text-sm font-medium backdrop-blur-md flex items-center gap-2 animate-pulse pointer-events-none">
@@ -727,11 +1081,17 @@ function App() {
                     referenceImage={referenceImage}
                     selectedIndices={selectedIndices}
                     onSelectionChange={setSelectedIndices}
-                    onChange={(newC, newR, newT, newH) => {
-                      updateDesign(newC, newR, newT, newH);
+                    onChange={(newC, newR, newT, newH, meta, newItems) => {
+                      updateDesign(newC, newR, newT, newH, meta, newItems);
                     }}
                     onUndo={canUndoDesign ? undoDesign : undefined}
                     onRedo={canRedoDesign ? redoDesign : undefined}
+                    compounds={compounds} // V65
+                    onCompoundsChange={handleCompoundsChange}
+                    onExpandCompound={handleExpandCompound}
+                    items={contourItems} // V66
+                    groups={designGroups}
+                    onLayersChange={handleLayersChange}
                   />
 
                   {/* V44: 3D Preview Toggle */}
@@ -754,11 +1114,7 @@ function App() {
                     <FloatingPanel title="Vista Previa 3D" onClose={() => setShow3DPreview(false)} initialSize={{ w: 400, h: 400 }}>
                       <Viewer3D
                         parts={geometryParts}
-                        colors={{
-                          baseColor: '#ffffff',
-                          outerColor: '#ef4444',
-                          innerColor: '#3b82f6'
-                        }}
+                        colors={viewerSettings}
                         autoRotate={false} // V44: Default to static per request
                         isEditMode={false}
                         selectedIndices={selectedIndices} // V44: Sync Selection Highlighting
@@ -768,6 +1124,7 @@ function App() {
                         isPreview={true} // V44: Hide toolbar, show controls
                         onUndo={canUndoDesign ? undoDesign : undefined}
                         onRedo={canRedoDesign ? redoDesign : undefined}
+                        highlightedPartIds={flaggedPartIds}
                       />
                     </FloatingPanel>
                   )}
@@ -782,9 +1139,33 @@ function App() {
               </div>
             )}
 
-            {/* V47: Geometry Generation Indicator */}
-            {/* V47: Geometry Generation Indicator - Reverted */}
-            {/* isGeneratingGeometry block removed */}
+            {/* V52: Manufacturability Report */}
+            {exportReport && (
+              <ExportReport
+                issues={exportReport.issues}
+                activeIssueId={activeIssueId}
+                onSelectIssue={handleSelectIssue}
+                onExportAnyway={exportReport.exported ? undefined : () => {
+                  const { format } = exportReport;
+                  closeExportReport();
+                  handleExport(format);
+                }}
+                onClose={closeExportReport}
+              />
+            )}
+
+            {/* V47/V49: Geometry Generation Indicator */}
+            {geometryProgress && (
+              <div className="absolute bottom-4 left-4 z-20 bg-black/60 border border-white/10 backdrop-blur-md rounded-lg px-3 py-2 w-48 pointer-events-none">
+                <div className="flex justify-between text-[10px] text-stone-300 mb-1">
+                  <span>{GENERATION_STAGE_LABELS[geometryProgress.stage]}</span>
+                  <span className="font-mono">{Math.round(geometryProgress.progress * 100)}%</span>
+                </div>
+                <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${geometryProgress.progress * 100}%` }} />
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Error Message */}
@@ -854,7 +1235,7 @@ function App() {
                 <div className="h-[600px] mt-4 bg-gray-900 rounded-xl overflow-hidden border border-white/10 shadow-2xl">
                   <ImageProcessor
                     imageSrc={processingImg.src}
-                    onConfirm={(options) => runTrace(processingImg.element, options)}
+                    onConfirm={(options, curveTolerance) => runTrace(processingImg.element, options, curveTolerance)}
                     onCancel={() => setProcessingImg(null)}
                   />
                 </div>
@@ -963,7 +1344,8 @@ function App() {
                 <Controls
                   settings={settings}
                   onChange={setSettings}
-                  onExport={handleExport}
+                  onExport={requestExport}
+                  onExportVector={handleExportVector}
                   disabled={geometryParts.length === 0}
                   viewerSettings={viewerSettings}
                   onViewerChange={handleViewerChange}
@@ -0,0 +1,213 @@
+import { loadFont, type Font } from '../core';
+import { openDatabase, withStore } from './idb';
+
+// V58: Font Registry
+// One list of fonts for every text tool. Curated fonts ship with the app
+// (latin WOFF files from @fontsource, no network needed); fonts uploaded by the
+// user are kept in IndexedDB. Every entry is registered as a FontFace so the
+// pickers can preview it and the raster fallback can draw it.
+
+export type FontVariant = '400-normal' | '400-italic' | '700-normal' | '700-italic';
+
+export interface FontEntry {
+    id: string;
+    name: string;
+    family: string; // CSS font-family value
+    category: string;
+    files: Partial<Record<FontVariant, string>>; // Bundled: asset URL per variant
+    font?: Font; // Uploaded: parsed outlines
+    data?: ArrayBuffer; // Uploaded: original file, for the FontFace
+    uploaded?: boolean;
+}
+
+// Resolved at build time: only the variants the text tools use
+const BUNDLED_FILES = import.meta.glob<string>('/node_modules/@fontsource/*/files/*-latin-{400,700}-{normal,italic}.woff', {
+    eager: true,
+    query: '?url',
+    import: 'default'
+});
+
+const CURATED_FONTS: { name: string, fallback: string, category: string }[] = [
+    // Scripts (Great for Names)
+    { name: 'Pacifico', fallback: 'cursive', category: 'Script' },
+    { name: 'Lobster', fallback: 'cursive', category: 'Script' },
+    { name: 'Dancing Script', fallback: 'cursive', category: 'Script' },
+    { name: 'Great Vibes', fallback: 'cursive', category: 'Script' },
+    { name: 'Satisfy', fallback: 'cursive', category: 'Script' },
+    { name: 'Cookie', fallback: 'cursive', category: 'Script' },
+    { name: 'Sacramento', fallback: 'cursive', category: 'Script' },
+
+    // Rounded / Friendly (Great for Kids)
+    { name: 'Fredoka', fallback: 'sans-serif', category: 'Rounded' },
+    { name: 'Varela Round', fallback: 'sans-serif', category: 'Rounded' },
+    { name: 'Sniglet', fallback: 'system-ui', category: 'Rounded' },
+    { name: 'Chewy', fallback: 'system-ui', category: 'Fun' },
+
+    // Bold / Display (Easy to Cut)
+    { name: 'Bangers', fallback: 'system-ui', category: 'Display' },
+    { name: 'Luckiest Guy', fallback: 'cursive', category: 'Display' },
+    { name: 'Carter One', fallback: 'system-ui', category: 'Display' },
+    { name: 'Oswald', fallback: 'sans-serif', category: 'Sans' },
+    { name: 'Anton', fallback: 'sans-serif', category: 'Sans' },
+    { name: 'Black Ops One', fallback: 'system-ui', category: 'Display' },
+
+    // Classic
+    { name: 'Roboto', fallback: 'sans-serif', category: 'Sans' },
+    { name: 'Montserrat', fallback: 'sans-serif', category: 'Sans' },
+    { name: 'Playfair Display', fallback: 'serif', category: 'Serif' },
+    { name: 'Abril Fatface', fallback: 'serif', category: 'Serif' },
+    { name: 'Righteous', fallback: 'cursive', category: 'Modern' },
+    { name: 'Orbitron', fallback: 'sans-serif', category: 'Modern' },
+];
+
+const slug = (name: string) => name.toLowerCase().replace(/\s+/g, '-');
+
+export const BUNDLED_FONTS: FontEntry[] = CURATED_FONTS.map(({ name, fallback, category }) => {
+    const id = slug(name);
+    const files: FontEntry['files'] = {};
+    Object.entries(BUNDLED_FILES).forEach(([path, url]) => {
+        const match = path.match(/\/@fontsource\/([^/]+)\/files\/.*-latin-(\d+-(?:normal|italic))\.woff$/);
+        if (match && match[1] === id) files[match[2] as FontVariant] = url;
+    });
+    return { id, name, family: `'${name}', ${fallback}`, category, files };
+});
+
+// --- Outlines ---
+
+const SYNTHETIC_ITALIC_SKEW = 0.2; // ~11°, similar to the browser's faux italic
+
+const fontFileCache = new Map<string, Promise<Font | null>>();
+
+const fetchFontFile = (url: string): Promise<Font | null> => {
+    let pending = fontFileCache.get(url);
+    if (!pending) {
+        pending = fetch(url)
+            .then(res => res.ok ? res.arrayBuffer() : Promise.reject(new Error(`HTTP ${res.status}`)))
+            .then(loadFont)
+            .catch(() => null);
+        fontFileCache.set(url, pending);
+    }
+    return pending;
+};
+
+/**
+ * Finds outlines for the requested variant. Missing italics are slanted;
+ * anything else unavailable returns null (callers fall back to tracing).
+ */
+export const resolveOutlineFont = async (entry: FontEntry, bold: boolean, italic: boolean): Promise<{ font: Font, skew: number } | null> => {
+    if (entry.font) {
+        const weight = entry.font.tables.os2?.usWeightClass || 400;
+        if (bold && weight < 600) return null;
+        return { font: entry.font, skew: italic ? SYNTHETIC_ITALIC_SKEW : 0 };
+    }
+
+    const weight = bold ? 700 : 400;
+    const exact = entry.files[`${weight}-${italic ? 'italic' : 'normal'}`];
+    if (exact) {
+        const font = await fetchFontFile(exact);
+        if (font) return { font, skew: 0 };
+    }
+    const upright = italic ? entry.files[`${weight}-normal`] : undefined;
+    const font = upright ? await fetchFontFile(upright) : null;
+    return font ? { font, skew: SYNTHETIC_ITALIC_SKEW } : null;
+};
+
+// --- Previews (CSS) ---
+
+const registeredFaces = new Set<string>();
+
+const cssFamily = (entry: FontEntry) => entry.family.split(',')[0].replace(/'/g, '').trim();
+
+/**
+ * Adds the entry's faces to `document.fonts` (once). They stay unloaded until
+ * something renders with them, so registering the whole list is cheap.
+ */
+export const registerFontFaces = (entry: FontEntry) => {
+    if (registeredFaces.has(entry.id)) return;
+    registeredFaces.add(entry.id);
+
+    const family = cssFamily(entry);
+    if (entry.data) {
+        document.fonts.add(new FontFace(family, entry.data));
+        return;
+    }
+    Object.entries(entry.files).forEach(([variant, url]) => {
+        const [weight, style] = variant.split('-');
+        document.fonts.add(new FontFace(family, `url(${url})`, { weight, style }));
+    });
+};
+
+/**
+ * Loads the face a canvas is about to draw with. Rejects with a user-facing
+ * message when it can't be loaded (the canvas would silently use a fallback).
+ */
+export const loadFontFace = async (entry: FontEntry, weight: number, italic: boolean): Promise<void> => {
+    registerFontFaces(entry);
+    const faces = await document.fonts.load(`${italic ? 'italic' : 'normal'} ${weight} 100px '${cssFamily(entry)}'`).catch(() => []);
+    if (faces.length === 0) throw new Error(`No se pudo cargar la fuente ${entry.name}.`);
+};
+
+// --- Uploaded fonts (IndexedDB) ---
+
+const DB_NAME = 'ccg-fonts';
+const DB_VERSION = 1;
+const STORE = 'fonts';
+
+interface StoredFont {
+    id: string;
+    name: string;
+    data: ArrayBuffer;
+    createdAt: number;
+}
+
+const openFontDatabase = () => openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (oldVersion < 1) db.createObjectStore(STORE, { keyPath: 'id' });
+});
+
+const toEntry = (stored: StoredFont): FontEntry => ({
+    id: stored.id,
+    name: stored.name,
+    family: `'ccg-${stored.id}'`,
+    category: 'Subida',
+    files: {},
+    font: loadFont(stored.data),
+    data: stored.data,
+    uploaded: true
+});
+
+export const listUploadedFonts = async (): Promise<FontEntry[]> => {
+    const db = await openFontDatabase();
+    const stored = (await withStore(db, STORE, 'readonly', store => store.getAll() as IDBRequest<StoredFont[]>)) || [];
+    return stored
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .flatMap(s => {
+            try {
+                return [toEntry(s)];
+            } catch {
+                return []; // Corrupt entry: skip it rather than break the picker
+            }
+        });
+};
+
+/**
+ * Validates and stores a TTF/OTF/WOFF file. Throws a user-facing message
+ * when the file can't be parsed.
+ */
+export const saveUploadedFont = async (file: File): Promise<FontEntry> => {
+    const data = await file.arrayBuffer();
+    const font = loadFont(data); // Throws before anything is stored
+    const stored: StoredFont = {
+        id: crypto.randomUUID(),
+        name: font.names.fullName?.en || file.name.replace(/\.[^.]+$/, ''),
+        data,
+        createdAt: Date.now()
+    };
+    const db = await openFontDatabase();
+    await withStore(db, STORE, 'readwrite', store => store.put(stored));
+    return toEntry(stored);
+};
+
+export const deleteUploadedFont = async (id: string): Promise<void> => {
+    const db = await openFontDatabase();
+    await withStore(db, STORE, 'readwrite', store => store.delete(id));
+};
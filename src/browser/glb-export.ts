@@ -0,0 +1,11 @@
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { buildExportScene, type CutterPart, type PartColors } from '../core';
+
+// V54: Binary glTF of the colored export scene. three's GLTFExporter packs
+// the binary chunk through FileReader, so this can't run in Node.
+
+export const exportToGLB = async (parts: CutterPart[], colors: PartColors, hiddenIds?: Set<string>): Promise<Blob> => {
+    const scene = buildExportScene(parts, colors, hiddenIds);
+    const result = await new GLTFExporter().parseAsync(scene, { binary: true });
+    return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' });
+};
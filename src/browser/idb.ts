@@ -0,0 +1,61 @@
+// V58: Minimal promise wrapper over IndexedDB (no dependency).
+// Each feature owns its own database, so upgrades never interfere.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Resolves once the transaction has committed.
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Transacción cancelada.'));
+    });
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens (and caches) a database. `upgrade` receives the old version so
+ * stores can be created incrementally.
+ */
+export const openDatabase = (name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void): Promise<IDBDatabase> => {
+    let pending = connections.get(name);
+    if (!pending) {
+        pending = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('El almacenamiento local no está disponible en este navegador.'));
+                return;
+            }
+            const request = indexedDB.open(name, version);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('La base de datos local está bloqueada por otra pestaña.'));
+        });
+        // Don't keep a failed connection around
+        pending.catch(() => connections.delete(name));
+        connections.set(name, pending);
+    }
+    return pending;
+};
+
+/**
+ * Runs `fn` inside a transaction and resolves once it has committed.
+ */
+export const withStore = async <T>(
+    db: IDBDatabase,
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    const result = request ? requestToPromise(request) : Promise.resolve(undefined);
+    await transactionDone(tx);
+    return result;
+};
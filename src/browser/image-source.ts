@@ -0,0 +1,73 @@
+import { analyzeRaster, processImageData, traceSize, type ProcessOptions, type TracePreset, type TraceResult } from '../core';
+
+// V70: Browser Image Adapter
+// Decoding and resampling with the browser's own image pipeline (FileReader,
+// <img>, 2D canvas). Everything after the pixels are read is the core tracer.
+
+/**
+ * The file as a data URL. Unlike a blob: URL it outlives the page, so it can
+ * be embedded in project files and library versions.
+ */
+export const readDataUrl = (file: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = (e) => resolve(e.target?.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(file);
+    });
+};
+
+export const loadImage = (file: File): Promise<HTMLImageElement> => {
+    return readDataUrl(file).then(url => new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = url;
+    }));
+};
+
+// Helper to prepare image data (Main Thread Only)
+export const prepareImageForTrace = (image: HTMLImageElement, options: ProcessOptions) => {
+    const { highRes, blur } = options;
+    const { width, height } = traceSize(image.width, image.height, highRes);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not get 2d context');
+
+    // Apply Filtering (Blur)
+    if (blur > 0) {
+        ctx.filter = `blur(${blur}px)`;
+    }
+    ctx.drawImage(image, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+
+    return {
+        imageData,
+        meta: { originalWidth: image.width, originalHeight: image.height }
+    };
+}
+
+export const processImage = (
+    image: HTMLImageElement,
+    options: ProcessOptions
+): TraceResult => {
+    // Synchronous fallback (uses prepare + process)
+    const { imageData, meta } = prepareImageForTrace(image, options);
+    return processImageData(imageData, options, meta);
+};
+
+export const analyzeImage = (image: HTMLImageElement): TracePreset => {
+    // Draw small sample to canvas
+    const sampleSize = 64;
+    const canvas = document.createElement('canvas');
+    canvas.width = sampleSize;
+    canvas.height = sampleSize;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return { type: 'logo', blur: 0, threshold: 128, adaptive: false, morphology: false }; // Fallback
+
+    ctx.drawImage(image, 0, 0, sampleSize, sampleSize);
+    return analyzeRaster(ctx.getImageData(0, 0, sampleSize, sampleSize));
+};
@@ -0,0 +1,18 @@
+// V70: Browser Adapters
+// The parts of the app that need a browser main thread (canvas, <img>,
+// DOMParser, FontFace, IndexedDB, FileReader), built on the DOM-free core in
+// src/core.
+
+export { readDataUrl, loadImage, prepareImageForTrace, processImage, analyzeImage } from './image-source';
+export { parseSvg } from './svg-file';
+export { exportToGLB } from './glb-export';
+export {
+    BUNDLED_FONTS, resolveOutlineFont, registerFontFaces, loadFontFace, listUploadedFonts, saveUploadedFont,
+    deleteUploadedFont
+} from './font-registry';
+export type { FontVariant, FontEntry } from './font-registry';
+export {
+    MAX_AUTOSAVES, renderThumbnail, listProjects, getProject, createProject, renameProject, deleteProject,
+    listVersions, getLatestVersion, saveVersion
+} from './project-store';
+export type { ProjectData, ProjectRecord, VersionKind, ProjectVersion } from './project-store';
@@ -0,0 +1,204 @@
+import * as THREE from 'three';
+import { sampleBezierPath, type CutterSettings, type DesignState, type ProjectMode, type SerializedDesign } from '../core';
+import { openDatabase, requestToPromise, transactionDone, withStore } from './idb';
+
+// V59: Local Project Library
+// Projects live in IndexedDB. Every project keeps a list of versions: rolling
+// autosaves (capped) and named snapshots (kept until the project is deleted).
+// Each version is a full copy, so any of them can be restored on its own.
+
+export interface ProjectData {
+    mode: ProjectMode;
+    design: SerializedDesign;
+    settings: CutterSettings;
+    imageDims: { width: number; height: number } | null;
+    referenceImage: string | null; // Data URL (the bytes themselves, so it survives a reload)
+}
+
+export interface ProjectRecord {
+    id: string;
+    name: string;
+    mode: ProjectMode;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: string | null; // PNG data URL
+}
+
+export type VersionKind = 'autosave' | 'snapshot';
+
+export interface ProjectVersion {
+    id: string;
+    projectId: string;
+    createdAt: number;
+    kind: VersionKind;
+    label?: string;
+    data: ProjectData;
+}
+
+const DB_NAME = 'ccg-projects';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const VERSIONS = 'versions';
+
+export const MAX_AUTOSAVES = 20;
+
+const openProjectDatabase = () => openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+    if (oldVersion < 1) {
+        db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        const versions = db.createObjectStore(VERSIONS, { keyPath: 'id' });
+        versions.createIndex('projectId', 'projectId');
+    }
+});
+
+// --- Thumbnails ---
+
+const THUMB_WIDTH = 160;
+const THUMB_HEIGHT = 120;
+
+/**
+ * Draws the contours (filled, holes cut out) into a small PNG.
+ */
+export const renderThumbnail = (design: DesignState): string | null => {
+    if (design.contours.length === 0) return null;
+
+    const polygons = design.contours.map((c, i) => {
+        const handles = design.handles?.[i];
+        if (!handles || !handles.some(h => h)) return c;
+        return sampleBezierPath(c.map((pos, j) => ({
+            pos,
+            handleIn: handles[j]?.in || new THREE.Vector2(),
+            handleOut: handles[j]?.out || new THREE.Vector2(),
+            type: 'corner' as const
+        })));
+    });
+
+    const box = new THREE.Box2();
+    polygons.forEach(p => p.forEach(v => box.expandByPoint(v)));
+    const size = box.getSize(new THREE.Vector2());
+    if (size.x <= 0 || size.y <= 0) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMB_WIDTH;
+    canvas.height = THUMB_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const padding = 10;
+    const scale = Math.min((THUMB_WIDTH - padding * 2) / size.x, (THUMB_HEIGHT - padding * 2) / size.y);
+    ctx.translate(THUMB_WIDTH / 2, THUMB_HEIGHT / 2);
+    ctx.scale(scale, scale);
+    ctx.translate(-(box.min.x + size.x / 2), -(box.min.y + size.y / 2));
+
+    const path = new Path2D();
+    polygons.forEach(poly => {
+        poly.forEach((p, i) => i === 0 ? path.moveTo(p.x, p.y) : path.lineTo(p.x, p.y));
+        path.closePath();
+    });
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.35)';
+    ctx.fill(path, 'evenodd');
+    ctx.lineWidth = 1.5 / scale;
+    ctx.strokeStyle = '#60a5fa';
+    ctx.stroke(path);
+
+    return canvas.toDataURL('image/png');
+};
+
+// --- Projects ---
+
+export const listProjects = async (): Promise<ProjectRecord[]> => {
+    const db = await openProjectDatabase();
+    const projects = (await withStore(db, PROJECTS, 'readonly', store => store.getAll() as IDBRequest<ProjectRecord[]>)) || [];
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<ProjectRecord | undefined> => {
+    const db = await openProjectDatabase();
+    return withStore(db, PROJECTS, 'readonly', store => store.get(id) as IDBRequest<ProjectRecord | undefined>);
+};
+
+export const createProject = async (name: string, mode: ProjectMode): Promise<ProjectRecord> => {
+    const now = Date.now();
+    const project: ProjectRecord = { id: crypto.randomUUID(), name, mode, createdAt: now, updatedAt: now, thumbnail: null };
+    const db = await openProjectDatabase();
+    await withStore(db, PROJECTS, 'readwrite', store => store.put(project));
+    return project;
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const db = await openProjectDatabase();
+    const tx = db.transaction(PROJECTS, 'readwrite');
+    const store = tx.objectStore(PROJECTS);
+    const project = await requestToPromise(store.get(id) as IDBRequest<ProjectRecord | undefined>);
+    if (project) store.put({ ...project, name });
+    await transactionDone(tx);
+};
+
+/**
+ * Deletes the project and all of its versions.
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+    const db = await openProjectDatabase();
+    const tx = db.transaction([PROJECTS, VERSIONS], 'readwrite');
+    tx.objectStore(PROJECTS).delete(id);
+    const versions = tx.objectStore(VERSIONS);
+    const keys = await requestToPromise(versions.index('projectId').getAllKeys(id));
+    keys.forEach(key => versions.delete(key));
+    await transactionDone(tx);
+};
+
+// --- Versions ---
+
+// Versions saved before the reference image was embedded hold a blob: URL,
+// which died with the page that made it
+const withLiveReference = (version: ProjectVersion): ProjectVersion =>
+    version.data.referenceImage && !version.data.referenceImage.startsWith('data:')
+        ? { ...version, data: { ...version.data, referenceImage: null } }
+        : version;
+
+/**
+ * Newest first.
+ */
+export const listVersions = async (projectId: string): Promise<ProjectVersion[]> => {
+    const db = await openProjectDatabase();
+    const versions = (await withStore(db, VERSIONS, 'readonly', store => store.index('projectId').getAll(projectId) as IDBRequest<ProjectVersion[]>)) || [];
+    return versions.map(withLiveReference).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getLatestVersion = async (projectId: string): Promise<ProjectVersion | undefined> =>
+    (await listVersions(projectId))[0];
+
+/**
+ * Stores a version, refreshes the project's thumbnail and date, and drops the
+ * oldest autosaves beyond MAX_AUTOSAVES (snapshots are never pruned).
+ */
+export const saveVersion = async (
+    projectId: string,
+    data: ProjectData,
+    design: DesignState,
+    kind: VersionKind,
+    label?: string
+): Promise<ProjectVersion> => {
+    const version: ProjectVersion = { id: crypto.randomUUID(), projectId, createdAt: Date.now(), kind, label, data };
+    const thumbnail = renderThumbnail(design);
+
+    const db = await openProjectDatabase();
+    const tx = db.transaction([PROJECTS, VERSIONS], 'readwrite');
+    const projects = tx.objectStore(PROJECTS);
+    const versions = tx.objectStore(VERSIONS);
+
+    versions.put(version);
+    const project = await requestToPromise(projects.get(projectId) as IDBRequest<ProjectRecord | undefined>);
+    if (project) projects.put({ ...project, mode: data.mode, updatedAt: version.createdAt, thumbnail: thumbnail ?? project.thumbnail });
+
+    if (kind === 'autosave') {
+        const existing = await requestToPromise(versions.index('projectId').getAll(projectId) as IDBRequest<ProjectVersion[]>);
+        existing
+            .filter(v => v.kind === 'autosave')
+            .sort((a, b) => b.createdAt - a.createdAt)
+            .slice(MAX_AUTOSAVES)
+            .forEach(v => versions.delete(v.id));
+    }
+
+    await transactionDone(tx);
+    return version;
+};
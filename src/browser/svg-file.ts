@@ -0,0 +1,15 @@
+import { importSvgElement, type SvgImportResult } from '../core';
+
+// V70: SVG text is parsed with the browser's DOMParser; the conversion to
+// contours is the core importer.
+
+/**
+ * Parses an SVG document into editor contours (pixels, Y down) with Bezier handles.
+ */
+export const parseSvg = (svgText: string): SvgImportResult => {
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    if (!doc.documentElement || doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('El archivo no es un SVG válido.');
+    }
+    return importSvgElement(doc.documentElement);
+};
@@ -0,0 +1,29 @@
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import type { RasterImage } from '../core';
+
+// V69: PNG / JPEG decoding without the DOM (pure JS decoders)
+
+const isPng = (bytes: Uint8Array) =>
+    bytes.length > 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array) =>
+    bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+const toClamped = (bytes: Uint8Array) => new Uint8ClampedArray(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * Decodes a PNG or JPEG file into RGBA pixels. The format comes from the
+ * file signature, not the extension.
+ */
+export const decodeImage = (bytes: Buffer): RasterImage => {
+    if (isPng(bytes)) {
+        const png = PNG.sync.read(bytes);
+        return { width: png.width, height: png.height, data: toClamped(png.data) };
+    }
+    if (isJpeg(bytes)) {
+        const image = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+        return { width: image.width, height: image.height, data: toClamped(image.data) };
+    }
+    throw new Error('formato de imagen no soportado (usa PNG o JPEG)');
+};
@@ -0,0 +1,303 @@
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import JSZip from 'jszip';
+import {
+    DEFAULT_SETTINGS, exportToSTL, generateGeometry, optimizeTracedContours, processImageData, tracedRoles,
+    prepareRasterForTrace, parseProjectFile, validateSettings, ProjectValidationError, deserializeDesign,
+    resolveItemFlags, withItems, buildGenerationInput, checkManufacturability, exportTo3MF,
+    DEFAULT_PART_COLORS, printKitName, splitPrintKit, checkMeshReport, type CutterPart, type CutterSettings,
+    type ManufacturabilityIssue, type ProcessOptions, type DesignState, type PartColors
+} from '../core';
+import { decodeImage } from './decode-image';
+
+// V69: Headless CLI
+// Turns images (PNG/JPEG, traced like Magic Trace) and .ccg projects into
+// STL, 3MF or print-kit zips with the same core the app uses. Settings come
+// from the project, a JSON preset and flags, in that order.
+
+const EXIT_ERROR = 1; // Bad usage, unreadable file, failed export
+const EXIT_INVALID = 2; // Invalid project, settings or input; manufacturability errors (and warnings with --strict)
+
+type OutputFormat = 'stl' | '3mf' | 'zip';
+
+class CliError extends Error {
+    code: number;
+
+    constructor(message: string, code: number) {
+        super(message);
+        this.name = 'CliError';
+        this.code = code;
+    }
+}
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+// Every CutterSettings field is also a flag: cutterHeight -> --cutter-height <valor>
+const SETTING_FLAGS = Object.keys(DEFAULT_SETTINGS).map(key => ({ key, flag: kebab(key) }));
+
+const DEFAULT_TRACE: ProcessOptions = {
+    blur: 2,
+    threshold: 128,
+    invert: false,
+    mode: 'luminance',
+    highRes: false,
+    adaptive: false,
+    morphology: false
+};
+
+const HELP = `Uso: cookie-cutter <entrada...> [opciones]
+
+Entradas: imágenes PNG/JPEG (se trazan) o proyectos .ccg.
+
+Salida:
+  -o, --out-dir <dir>      Carpeta de salida (por defecto, la actual)
+  -f, --format <formato>   stl | 3mf | zip (cortador + marcador, base + relieve). Por defecto stl
+      --strict             Falla también con avisos de la comprobación de fabricación
+  -q, --quiet              Sólo errores
+
+Ajustes (proyecto < preset < opciones):
+  -p, --preset <archivo>   JSON con ajustes (o un .ccg, se usan sus ajustes)
+${SETTING_FLAGS.map(({ flag }) => `      --${flag} <valor>`).join('\n')}
+
+Trazado (sólo imágenes):
+      --threshold <0-255>  --blur <px>  --mode luminance|edges
+      --invert  --adaptive  --morphology  --high-res
+
+Código de salida: 0 correcto, 1 error, 2 validación fallida (ajustes, proyecto o errores de fabricación).`;
+
+const coerce = (raw: string, fallback: unknown): unknown => {
+    if (typeof fallback === 'number') return raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    if (typeof fallback === 'boolean') {
+        if (['true', '1', 'si', 'sí'].includes(raw.toLowerCase())) return true;
+        if (['false', '0', 'no'].includes(raw.toLowerCase())) return false;
+        return raw;
+    }
+    if (typeof fallback === 'object' && fallback !== null) {
+        try {
+            return JSON.parse(raw);
+        } catch {
+            return raw; // Reported by the validation with its path
+        }
+    }
+    return raw;
+};
+
+const readPreset = async (path: string): Promise<Record<string, unknown>> => {
+    let json: unknown;
+    try {
+        json = JSON.parse(await readFile(path, 'utf8'));
+    } catch (err) {
+        throw new CliError(`preset ${path}: ${err instanceof Error ? err.message : 'no se pudo leer'}`, EXIT_INVALID);
+    }
+    // A whole project works as a preset too
+    const settings = typeof json === 'object' && json !== null && 'settings' in json ? (json as { settings: unknown }).settings : json;
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+        throw new CliError(`preset ${path}: se esperaba un objeto con ajustes`, EXIT_INVALID);
+    }
+    return settings as Record<string, unknown>;
+};
+
+interface LoadedInput {
+    design: DesignState;
+    width: number;
+    height: number;
+    settings: CutterSettings; // From the project, before preset and flags
+    colors: PartColors;
+}
+
+const loadInput = async (path: string, trace: ProcessOptions): Promise<LoadedInput> => {
+    const bytes = await readFile(path);
+    const ext = extname(path).toLowerCase();
+
+    if (ext === '.ccg' || ext === '.json') {
+        const project = parseProjectFile(bytes.toString('utf8'), DEFAULT_SETTINGS);
+        if (!project.imageDims || project.design.contours.length === 0) {
+            throw new CliError(`${path}: el proyecto no tiene formas`, EXIT_INVALID);
+        }
+        return {
+            design: deserializeDesign(project.design),
+            ...project.imageDims,
+            settings: project.settings,
+            colors: project.view?.viewer ?? DEFAULT_PART_COLORS
+        };
+    }
+
+    const { imageData, meta } = prepareRasterForTrace(decodeImage(bytes), trace);
+    const result = processImageData(imageData, trace, meta);
+    if (result.contours.length === 0) {
+        throw new CliError(`${path}: no se detectaron formas (prueba otro --threshold o --invert)`, EXIT_INVALID);
+    }
+    const contours = optimizeTracedContours(result.contours);
+    return {
+        design: { contours, roles: tracedRoles(result) },
+        width: result.width,
+        height: result.height,
+        settings: DEFAULT_SETTINGS,
+        colors: DEFAULT_PART_COLORS
+    };
+};
+
+// The issue is set when the manifold union did not come out closed
+const toSTL = async (parts: CutterPart[], settings: CutterSettings, file?: string): Promise<{ blob: Blob, issue?: ManufacturabilityIssue | null }> => {
+    if (!settings.manifoldExport) return { blob: exportToSTL(parts) };
+    const { exportToManifoldSTL } = await import('../core/manifold-union');
+    const { blob, report } = await exportToManifoldSTL(parts, new Set()); // Node finds manifold.wasm next to the module
+    return { blob, issue: checkMeshReport(report, file) };
+};
+
+const writeBlob = async (path: string, blob: Blob) => {
+    await writeFile(path, Buffer.from(await blob.arrayBuffer()));
+};
+
+const parseCliArgs = (argv: string[]) => parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+        'out-dir': { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f', default: 'stl' },
+        preset: { type: 'string', short: 'p' },
+        strict: { type: 'boolean' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+        threshold: { type: 'string' },
+        blur: { type: 'string' },
+        mode: { type: 'string' },
+        invert: { type: 'boolean' },
+        adaptive: { type: 'boolean' },
+        morphology: { type: 'boolean' },
+        'high-res': { type: 'boolean' },
+        ...Object.fromEntries(SETTING_FLAGS.map(({ flag }) => [flag, { type: 'string' as const }]))
+    }
+});
+
+const run = async (argv: string[]): Promise<number> => {
+    let args: ReturnType<typeof parseCliArgs>;
+    try {
+        args = parseCliArgs(argv);
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : err);
+        console.error('Usa --help para ver las opciones.');
+        return EXIT_ERROR;
+    }
+    const { values, positionals } = args;
+    if (values.help || positionals.length === 0) {
+        console.log(HELP);
+        return values.help ? 0 : EXIT_ERROR;
+    }
+
+    const log = (message: string) => { if (!values.quiet) console.log(message); };
+    const format = values.format as OutputFormat;
+    if (!['stl', '3mf', 'zip'].includes(format)) {
+        console.error(`Formato desconocido "${format}" (usa stl, 3mf o zip)`);
+        return EXIT_ERROR;
+    }
+
+    const trace: ProcessOptions = {
+        ...DEFAULT_TRACE,
+        threshold: values.threshold !== undefined ? Number(values.threshold) : DEFAULT_TRACE.threshold,
+        blur: values.blur !== undefined ? Number(values.blur) : DEFAULT_TRACE.blur,
+        mode: values.mode === 'edges' ? 'edges' : 'luminance', // Checked below
+        invert: !!values.invert,
+        adaptive: !!values.adaptive,
+        morphology: !!values.morphology,
+        highRes: !!values['high-res']
+    };
+    if (!Number.isFinite(trace.threshold) || !Number.isFinite(trace.blur)) {
+        console.error('--threshold y --blur deben ser números');
+        return EXIT_ERROR;
+    }
+    if (values.mode !== undefined && values.mode !== 'luminance' && values.mode !== 'edges') {
+        console.error(`Modo de trazado desconocido "${values.mode}" (usa luminance o edges)`);
+        return EXIT_ERROR;
+    }
+
+    const overrides: Record<string, unknown> = {};
+    try {
+        if (values.preset) Object.assign(overrides, await readPreset(values.preset));
+        SETTING_FLAGS.forEach(({ key, flag }) => {
+            const raw = (values as Record<string, unknown>)[flag];
+            if (typeof raw === 'string') overrides[key] = coerce(raw, DEFAULT_SETTINGS[key as keyof CutterSettings]);
+        });
+        validateSettings(overrides, DEFAULT_SETTINGS); // Fail before any work
+    } catch (err) {
+        console.error(err instanceof Error ? err.message : err);
+        return EXIT_INVALID;
+    }
+
+    const outDir = values['out-dir'] ?? '.';
+    await mkdir(outDir, { recursive: true });
+
+    let exitCode = 0;
+    for (const path of positionals) {
+        try {
+            const input = await loadInput(path, trace);
+            const settings = validateSettings({ ...input.settings, ...overrides }, DEFAULT_SETTINGS);
+
+            // Hidden layers stay out, as in the app
+            const design = withItems(input.design);
+            const { hidden } = resolveItemFlags(design.items, design.groups, design.contours.length);
+            const generation = buildGenerationInput(design, hidden);
+            const parts = generateGeometry(generation.contours, generation.roles, input.width, input.height, settings, undefined, generation.sources);
+            if (parts.length === 0) throw new CliError(`${path}: no se generó ninguna pieza`, EXIT_INVALID);
+
+            // Checked on what was generated (sampled curves, evaluated compounds, no
+            // hidden layers); issues point at design contours, like the app's report.
+            // Errors (empty parts, loose markers...) stop the export; --strict stops on warnings too
+            const issues = checkManufacturability(
+                parts, generation.contours, generation.roles, input.width, input.height, settings, generation.origins
+            );
+            const blocking = (severity: string) => severity === 'error' || !!values.strict;
+            const report = (issue: ManufacturabilityIssue) => {
+                const line = `  ${issue.severity === 'error' ? 'error' : 'aviso'}: ${issue.message}`;
+                if (blocking(issue.severity)) console.error(line);
+                else log(line);
+            };
+            issues.forEach(report);
+            // Unioned STLs are checked once built, before anything is written
+            const checkMesh = (issue?: ManufacturabilityIssue | null) => {
+                if (!issue) return;
+                report(issue);
+                if (blocking(issue.severity)) throw new CliError(`${path}: la malla unida no es un sólido cerrado`, EXIT_INVALID);
+            };
+            if (issues.some(i => blocking(i.severity))) {
+                throw new CliError(`${path}: no pasa la comprobación de fabricación`, EXIT_INVALID);
+            }
+
+            const name = basename(path, extname(path));
+            let target: string;
+            if (format === 'stl') {
+                target = join(outDir, `${name}.stl`);
+                const { blob, issue } = await toSTL(parts, settings);
+                checkMesh(issue);
+                await writeBlob(target, blob);
+            } else if (format === '3mf') {
+                target = join(outDir, `${name}.3mf`);
+                await writeBlob(target, await exportTo3MF(parts, input.colors));
+            } else {
+                // JSZip only reads Blobs in the browser
+                const zip = new JSZip();
+                for (const file of splitPrintKit(parts, settings.outputType)) {
+                    const { blob, issue } = await toSTL(file.parts, settings, `${file.name}.stl`);
+                    checkMesh(issue);
+                    zip.file(`${file.name}.stl`, await blob.arrayBuffer());
+                }
+                target = join(outDir, `${name}-${printKitName(settings.outputType)}.zip`);
+                await writeFile(target, await zip.generateAsync({ type: 'uint8array' }));
+            }
+            log(`${path} -> ${target} (${parts.length} piezas)`);
+        } catch (err) {
+            const code = err instanceof CliError ? err.code : err instanceof ProjectValidationError ? EXIT_INVALID : EXIT_ERROR;
+            console.error(err instanceof ProjectValidationError ? `${path}: ${err.message}` : err instanceof Error ? err.message : err);
+            exitCode = Math.max(exitCode, code);
+        }
+    }
+    return exitCode;
+};
+
+run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, err => {
+    console.error(err);
+    process.exitCode = EXIT_ERROR;
+});
@@ -0,0 +1,432 @@
+import { useState, useMemo } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { X, Upload, Type, Trash2, RefreshCw, Download, Loader2, AlertTriangle, Check, Pencil, Boxes } from 'lucide-react';
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { Slider } from './ui/Slider';
+import { FontPicker } from './FontPicker';
+import { Viewer3D } from './Viewer3D';
+import { useFontRegistry } from '../hooks/useFontRegistry';
+import { useBatchProcessor, DEFAULT_BATCH_TRACE, type BatchItem, type BatchStatus } from '../hooks/useBatchProcessor';
+import {
+    buildBatchSummary, parseNameList, partsSize, uniqueFileNames, flattenContour, exportTo3MF,
+    type BatchSummaryRow, type DesignState, type CutterPart, type CutterSettings, type PartColors,
+    type ProcessOptions, type ManufacturabilityIssue
+} from '../core';
+import { BUNDLED_FONTS, type FontEntry } from '../browser';
+
+interface BatchPanelProps {
+    settings: CutterSettings; // The preset every item starts from
+    colors: PartColors;
+    toSTL: (parts: CutterPart[], file: string) => Promise<{ blob: Blob, issue?: ManufacturabilityIssue | null }>;
+    onOpenItem: (design: DesignState, width: number, height: number) => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+    pending: 'En cola',
+    tracing: 'Trazando',
+    generating: 'Generando',
+    ready: 'Listo',
+    error: 'Error'
+};
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+    pending: 'text-zinc-400 bg-zinc-800',
+    tracing: 'text-blue-300 bg-blue-500/10',
+    generating: 'text-purple-300 bg-purple-500/10',
+    ready: 'text-green-300 bg-green-500/10',
+    error: 'text-red-300 bg-red-500/10'
+};
+
+const EMPTY_SET = new Set<never>();
+const noop = () => { };
+
+const designPath = (design: DesignState) =>
+    design.contours.map((_, i) => {
+        const points = flattenContour(design, i);
+        return points.map((p, j) => `${j === 0 ? 'M' : 'L'}${p.x.toFixed(1)} ${p.y.toFixed(1)}`).join('') + 'Z';
+    }).join('');
+
+function ItemThumbnail({ item }: { item: BatchItem }) {
+    const path = useMemo(() => item.design ? designPath(item.design) : null, [item.design]);
+    if (path && item.width && item.height) {
+        return (
+            <svg viewBox={`0 0 ${item.width} ${item.height}`} className="w-full h-full">
+                <path d={path} fill="#e4e4e7" fillRule="evenodd" />
+            </svg>
+        );
+    }
+    if (item.source.kind === 'image') return <img src={item.source.preview} className="w-full h-full object-contain opacity-60" />;
+    return <span className="text-[10px] text-zinc-500 px-1 text-center break-all">{item.source.text}</span>;
+}
+
+// V68: Batch generation. Images or a list of names go through the same trace
+// and generation pipeline with one preset; every item can be reviewed and
+// re-tuned before the zip (one model per item plus a summary sheet) is made.
+export function BatchPanel({ settings, colors, toSTL, onOpenItem, onClose }: BatchPanelProps) {
+    const batch = useBatchProcessor(settings);
+    const { fonts, addFonts, removeFont, error: registryError } = useFontRegistry();
+
+    const [tab, setTab] = useState<'images' | 'names'>('images');
+    const [trace, setTrace] = useState<ProcessOptions>(DEFAULT_BATCH_TRACE);
+    const [autoTrace, setAutoTrace] = useState(true);
+    const [nameList, setNameList] = useState('');
+    const [font, setFont] = useState<FontEntry>(BUNDLED_FONTS[0]);
+    const [bold, setBold] = useState(false);
+    const [italic, setItalic] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+
+    const selected = batch.items.find(item => item.id === selectedId) || null;
+    const names = useMemo(() => parseNameList(nameList), [nameList]);
+    const readyCount = batch.items.filter(item => item.status === 'ready').length;
+
+    const { getRootProps, getInputProps, isDragActive } = useDropzone({
+        onDrop: (files) => { if (files.length > 0) batch.addImages(files, trace, autoTrace); },
+        accept: { 'image/*': ['.png', '.jpg', '.jpeg', '.svg', '.webp'] },
+        multiple: true
+    });
+
+    const handleAddNames = () => {
+        if (names.length === 0) return;
+        batch.addNames(names, { font, bold, italic });
+        setNameList('');
+    };
+
+    const handleExport = async (format: 'stl' | '3mf') => {
+        setIsExporting(true);
+        try {
+            const zip = new JSZip();
+            const fileNames = uniqueFileNames(batch.items.map(item => item.name));
+            const rows: BatchSummaryRow[] = [];
+            for (const [k, item] of batch.items.entries()) {
+                const parts = item.status === 'ready' ? item.parts : undefined;
+                const file = parts ? `${fileNames[k]}.${format}` : '';
+                let meshIssue: ManufacturabilityIssue | null | undefined;
+                if (parts && format === '3mf') {
+                    zip.file(file, await exportTo3MF(parts, colors));
+                } else if (parts) {
+                    const stl = await toSTL(parts, file);
+                    zip.file(file, stl.blob);
+                    meshIssue = stl.issue;
+                }
+                rows.push({
+                    file,
+                    source: item.source.kind === 'image' ? item.source.file.name : item.source.text,
+                    status: STATUS_LABELS[item.status],
+                    contours: item.design?.contours.length ?? 0,
+                    parts: parts?.length ?? 0,
+                    size: parts ? partsSize(parts) : undefined,
+                    error: item.error ?? meshIssue?.message // The summary also lists unclosed unioned meshes
+                });
+            }
+            zip.file('resumen.csv', buildBatchSummary(rows));
+            const kind = settings.outputType === 'keychain' ? 'llaveros' : 'cortadores';
+            saveAs(await zip.generateAsync({ type: 'blob' }), `lote-${kind}.zip`);
+        } catch (err) {
+            console.error(err);
+            alert('Error al exportar: ' + (err instanceof Error ? err.message : 'Desconocido'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-zinc-950 text-white flex flex-col">
+            <div className="h-[50px] shrink-0 border-b border-white/5 px-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <Boxes className="w-4 h-4 text-blue-400" />
+                    <h2 className="text-sm font-bold">Generación por lotes</h2>
+                    <span className="text-[10px] text-zinc-500">
+                        {settings.outputType === 'keychain' ? 'Llavero' : 'Cortador'} · {settings.size} mm · ajustes actuales
+                    </span>
+                </div>
+                <div className="flex items-center gap-2">
+                    {batch.isRunning && <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />}
+                    <button
+                        onClick={batch.regenerateAll}
+                        disabled={batch.items.length === 0}
+                        className="text-xs px-3 py-1.5 rounded bg-white/5 hover:bg-white/10 text-zinc-300 flex items-center gap-2 disabled:opacity-30"
+                        title="Volver a generar todo con los ajustes actuales"
+                    >
+                        <RefreshCw className="w-3 h-3" /> Regenerar todo
+                    </button>
+                    {(['stl', '3mf'] as const).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => handleExport(format)}
+                            disabled={readyCount === 0 || isExporting}
+                            className="text-xs px-3 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white font-medium flex items-center gap-2 disabled:opacity-30"
+                        >
+                            <Download className="w-3 h-3" /> ZIP ({format.toUpperCase()})
+                        </button>
+                    ))}
+                    <button onClick={onClose} className="p-1.5 rounded hover:bg-white/10 text-zinc-400 hover:text-white" title="Cerrar">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex min-h-0">
+                {/* Inputs */}
+                <div className="w-80 shrink-0 border-r border-white/5 p-4 space-y-4 overflow-y-auto custom-scrollbar">
+                    <div className="bg-black/20 p-0.5 rounded-lg flex gap-1">
+                        <button
+                            onClick={() => setTab('images')}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-medium flex items-center justify-center gap-2 ${tab === 'images' ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                        >
+                            <Upload className="w-3 h-3" /> Imágenes
+                        </button>
+                        <button
+                            onClick={() => setTab('names')}
+                            className={`flex-1 py-1.5 rounded-md text-xs font-medium flex items-center justify-center gap-2 ${tab === 'names' ? 'bg-green-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                        >
+                            <Type className="w-3 h-3" /> Nombres
+                        </button>
+                    </div>
+
+                    {tab === 'images' ? (
+                        <>
+                            <div
+                                {...getRootProps()}
+                                className={`h-32 border-2 border-dashed rounded-xl flex flex-col items-center justify-center text-center cursor-pointer text-xs transition-colors
+                                    ${isDragActive ? 'border-blue-500 bg-blue-500/10' : 'border-zinc-700 hover:border-zinc-500 text-zinc-400'}`}
+                            >
+                                <input {...getInputProps()} />
+                                <Upload className="w-5 h-5 mb-2" />
+                                {isDragActive ? 'Suelta las imágenes aquí' : 'Arrastra varias imágenes o una carpeta'}
+                            </div>
+                            <label className="flex items-center gap-2 text-xs text-zinc-300">
+                                <input type="checkbox" checked={autoTrace} onChange={(e) => setAutoTrace(e.target.checked)} />
+                                Ajuste automático por imagen
+                            </label>
+                            <Slider label="Umbral" value={trace.threshold} min={0} max={255} onChange={(threshold) => setTrace({ ...trace, threshold })} />
+                            <Slider label="Desenfoque" value={trace.blur} min={0} max={10} unit="px" onChange={(blur) => setTrace({ ...trace, blur })} />
+                            <label className="flex items-center gap-2 text-xs text-zinc-300">
+                                <input type="checkbox" checked={trace.invert} onChange={(e) => setTrace({ ...trace, invert: e.target.checked })} />
+                                Invertir colores
+                            </label>
+                        </>
+                    ) : (
+                        <>
+                            <textarea
+                                value={nameList}
+                                onChange={(e) => setNameList(e.target.value)}
+                                rows={6}
+                                placeholder={'Un nombre por línea, o CSV:\nnombre;archivo\nLucía;lucia\n"Feliz\nCumple";cumple'}
+                                className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs text-white font-mono focus:outline-none focus:border-green-500"
+                            />
+                            <FontPicker
+                                fonts={fonts}
+                                selectedId={font.id}
+                                onSelect={setFont}
+                                onUpload={async (files) => {
+                                    const added = await addFonts(files);
+                                    if (added.length > 0) setFont(added[added.length - 1]);
+                                }}
+                                onRemove={async (id) => {
+                                    await removeFont(id);
+                                    if (font.id === id) setFont(BUNDLED_FONTS[0]);
+                                }}
+                                previewText={names[0]?.text}
+                            />
+                            {registryError && <div className="text-xs text-red-400">{registryError}</div>}
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setBold(!bold)}
+                                    className={`flex-1 py-1.5 rounded text-xs font-bold ${bold ? 'bg-white text-black' : 'bg-white/5 text-zinc-400'}`}
+                                >
+                                    Negrita
+                                </button>
+                                <button
+                                    onClick={() => setItalic(!italic)}
+                                    className={`flex-1 py-1.5 rounded text-xs italic ${italic ? 'bg-white text-black' : 'bg-white/5 text-zinc-400'}`}
+                                >
+                                    Cursiva
+                                </button>
+                            </div>
+                            <button
+                                onClick={handleAddNames}
+                                disabled={names.length === 0}
+                                className="w-full py-2 rounded-lg bg-green-600 hover:bg-green-500 text-white text-xs font-bold disabled:opacity-30"
+                            >
+                                Añadir {names.length} {names.length === 1 ? 'nombre' : 'nombres'}
+                            </button>
+                        </>
+                    )}
+                </div>
+
+                {/* Items */}
+                <div className="flex-1 min-w-0 p-4 overflow-y-auto custom-scrollbar">
+                    {batch.items.length === 0 ? (
+                        <div className="h-full flex items-center justify-center text-sm text-zinc-600">
+                            Añade imágenes o nombres para empezar
+                        </div>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between mb-3 text-xs text-zinc-500">
+                                <span>{readyCount} de {batch.items.length} listos</span>
+                                <button onClick={() => { batch.clear(); setSelectedId(null); }} className="hover:text-white">Vaciar lista</button>
+                            </div>
+                            <div className="grid grid-cols-[repeat(auto-fill,minmax(150px,1fr))] gap-3">
+                                {batch.items.map(item => (
+                                    <div
+                                        key={item.id}
+                                        onClick={() => setSelectedId(item.id)}
+                                        className={`rounded-xl border p-2 cursor-pointer transition-colors ${item.id === selectedId ? 'border-blue-500 bg-blue-500/5' : 'border-zinc-800 bg-zinc-900 hover:border-zinc-600'}`}
+                                    >
+                                        <div className="aspect-square rounded-lg bg-black/40 flex items-center justify-center overflow-hidden mb-2 p-2">
+                                            <ItemThumbnail item={item} />
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <span className="flex-1 truncate text-xs text-zinc-200" title={item.name}>{item.name}</span>
+                                            <button
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    batch.removeItem(item.id);
+                                                    if (selectedId === item.id) setSelectedId(null);
+                                                }}
+                                                className="p-0.5 text-zinc-600 hover:text-red-400"
+                                                title="Quitar"
+                                            >
+                                                <Trash2 className="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                        <div className={`mt-1 inline-flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${STATUS_STYLES[item.status]}`} title={item.error}>
+                                            {item.status === 'ready' ? <Check className="w-3 h-3" /> : item.status === 'error' ? <AlertTriangle className="w-3 h-3" /> : item.status !== 'pending' && <Loader2 className="w-3 h-3 animate-spin" />}
+                                            {STATUS_LABELS[item.status]}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                {/* Review & re-tune */}
+                {selected && (
+                    <BatchItemReview
+                        key={`${selected.id}-${selected.revision}`}
+                        item={selected}
+                        presetSize={settings.size}
+                        colors={colors}
+                        onRetune={(patch) => batch.retuneItem(selected.id, patch)}
+                        onOpen={() => {
+                            if (selected.design && selected.width && selected.height) onOpenItem(selected.design, selected.width, selected.height);
+                        }}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface BatchItemReviewProps {
+    item: BatchItem;
+    presetSize: number;
+    colors: PartColors;
+    onRetune: (patch: { trace?: ProcessOptions, size?: number, text?: string, name?: string }) => void;
+    onOpen: () => void;
+}
+
+// Draft values start from the item; the key in the parent resets them when the item changes
+function BatchItemReview({ item, presetSize, colors, onRetune, onOpen }: BatchItemReviewProps) {
+    const [name, setName] = useState(item.name);
+    const [trace, setTrace] = useState(item.trace);
+    const [text, setText] = useState(item.source.kind === 'text' ? item.source.text : '');
+    const [size, setSize] = useState(item.size ?? presetSize);
+
+    const traceChanged = item.source.kind === 'image' && (trace.threshold !== item.trace.threshold || trace.blur !== item.trace.blur || trace.invert !== item.trace.invert);
+    const textChanged = item.source.kind === 'text' && text.trim() !== '' && text !== item.source.text;
+    const sizeChanged = size !== (item.size ?? presetSize);
+
+    const handleApply = () => {
+        onRetune({
+            name: name.trim() || item.name,
+            trace: traceChanged ? trace : undefined,
+            text: textChanged ? text : undefined,
+            ...(sizeChanged ? { size: size === presetSize ? undefined : size } : {})
+        });
+    };
+
+    return (
+        <div className="w-96 shrink-0 border-l border-white/5 flex flex-col min-h-0">
+            <div className="h-72 shrink-0 bg-black/40 relative">
+                {item.parts && item.parts.length > 0 ? (
+                    <Viewer3D
+                        parts={item.parts}
+                        colors={colors}
+                        autoRotate={false}
+                        isEditMode={false}
+                        hiddenPartIds={EMPTY_SET}
+                        onTogglePart={noop}
+                        selectedIndices={EMPTY_SET}
+                        onSelectionChange={noop}
+                        isPreview={true}
+                    />
+                ) : (
+                    <div className="h-full flex items-center justify-center text-xs text-zinc-500 px-6 text-center">
+                        {item.status === 'error' ? item.error : STATUS_LABELS[item.status]}
+                    </div>
+                )}
+            </div>
+            <div className="flex-1 p-4 space-y-4 overflow-y-auto custom-scrollbar">
+                <div>
+                    <label className="text-xs text-zinc-400 block mb-1">Nombre del archivo</label>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:outline-none focus:border-blue-500"
+                    />
+                </div>
+                {item.source.kind === 'text' ? (
+                    <div>
+                        <label className="text-xs text-zinc-400 block mb-1">Texto</label>
+                        <textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            rows={2}
+                            className="w-full bg-black/40 border border-white/10 rounded px-2 py-1.5 text-sm text-white font-bold focus:outline-none focus:border-green-500"
+                        />
+                    </div>
+                ) : (
+                    <>
+                        <Slider label="Umbral" value={trace.threshold} min={0} max={255} onChange={(threshold) => setTrace({ ...trace, threshold })} />
+                        <Slider label="Desenfoque" value={trace.blur} min={0} max={10} unit="px" onChange={(blur) => setTrace({ ...trace, blur })} />
+                        <label className="flex items-center gap-2 text-xs text-zinc-300">
+                            <input type="checkbox" checked={trace.invert} onChange={(e) => setTrace({ ...trace, invert: e.target.checked })} />
+                            Invertir colores
+                        </label>
+                    </>
+                )}
+                <Slider label="Tamaño" value={size} min={20} max={200} unit="mm" onChange={setSize} />
+                {item.parts && (
+                    <div className="text-[10px] text-zinc-500 font-mono">
+                        {(() => {
+                            const s = partsSize(item.parts);
+                            return `${s.x.toFixed(1)} × ${s.y.toFixed(1)} × ${s.z.toFixed(1)} mm · ${item.parts.length} piezas`;
+                        })()}
+                    </div>
+                )}
+                <div className="flex gap-2">
+                    <button
+                        onClick={handleApply}
+                        disabled={!traceChanged && !textChanged && !sizeChanged && name === item.name}
+                        className="flex-1 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold disabled:opacity-30"
+                    >
+                        Aplicar
+                    </button>
+                    <button
+                        onClick={onOpen}
+                        disabled={!item.design}
+                        className="py-2 px-3 rounded-lg bg-white/5 hover:bg-white/10 text-zinc-300 text-xs flex items-center gap-2 disabled:opacity-30"
+                        title="Cargar este diseño en el editor"
+                    >
+                        <Pencil className="w-3 h-3" /> Abrir en el editor
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
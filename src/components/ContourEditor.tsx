@@ -1,13 +1,28 @@
-import { useState, useRef, useEffect, type MouseEvent as ReactMouseEvent } from 'react';
+import { useState, useRef, useEffect, useMemo, type MouseEvent as ReactMouseEvent } from 'react';
 import * as THREE from 'three';
-import { MousePointer2, PenTool, Circle as CircleIcon, Square as SquareIcon, Brush, X, Wand2, Magnet, Edit, Heart, Star, Move, FileMinus, FlipHorizontal, FlipVertical, Keyboard, Type } from 'lucide-react';
-import { generateCircle, generateHeart, generateStar, generateRectangle } from '../core/shape-templates';
-import { snapPoint, interpolateContour, sampleBezierPath, type NodeType } from '../core/curve-utils';
+import { MousePointer2, PenTool, Circle as CircleIcon, Square as SquareIcon, Brush, X, Wand2, Magnet, Edit, Heart, Star, Move, FileMinus, FlipHorizontal, FlipVertical, Keyboard, Type, SquaresUnite, SquaresSubtract, SquaresIntersect, SquaresExclude, Layers, Layers2, Ungroup } from 'lucide-react';
+import {
+    generateCircle, generateHeart, generateStar, generateRectangle, snapPoint, interpolateContour,
+    sampleBezierPath, simplifyContour as simplifyContourFn, optimizeTracedContours, fitContourCurves, flattenContour, booleanReduce, flattenPolygons,
+    polygonsToContours, resolveItemFlags, createItemId, type NodeType, type TracePresetType, type ContourRole,
+    type DesignState, type HistoryMeta, type BooleanOperation, type PolygonWithHoles, type CompoundShape,
+    type ContourItem, type DesignGroup, DEFAULT_CURVE_FIT
+} from '../core';
+import { analyzeImage, processImage } from '../browser';
 
-import { simplifyContour as simplifyContourFn, analyzeImage, type TracePresetType } from '../core/image-processing';
 import { TextToolPanel } from './TextToolPanel';
+import { LayersPanel } from './LayersPanel';
 
-export type ContourRole = 'cut' | 'stamp' | 'auto' | 'base' | 'void';
+export type { ContourRole };
+
+const BOOLEAN_LABELS: Record<BooleanOperation, string> = {
+    union: 'Unión booleana',
+    diff: 'Diferencia booleana',
+    intersection: 'Intersección booleana',
+    xor: 'Exclusión booleana (XOR)'
+};
+
+const pointKey = (p: THREE.Vector2) => `${p.x.toFixed(4)},${p.y.toFixed(4)}`;
 
 // V54: Robust getBBox Helper (Explicit Definition)
 const getRobustBBox = (points: THREE.Vector2[]): THREE.Box2 => {
@@ -25,7 +40,9 @@ interface ContourEditorProps {
         newContours: THREE.Vector2[][],
         newRoles: ContourRole[],
         newNodeTypes: NodeType[][],
-        newHandles: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][]
+        newHandles: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][],
+        meta?: HistoryMeta, // V62: Label for the undo history
+        newItems?: ContourItem[] // V66: When contours move, the layer items that go with them
     ) => void;
     referenceImage?: string | null;
     roles?: ContourRole[];
@@ -36,6 +53,15 @@ interface ContourEditorProps {
     // V34: Lifted Selection
     selectedIndices: Set<number>;
     onSelectionChange: (indices: Set<number>) => void;
+    readOnly?: boolean; // V61: Shared link viewer (pan & zoom only)
+    // V65: Compound shapes (live boolean groups)
+    compounds?: CompoundShape[];
+    onCompoundsChange?: (compounds: CompoundShape[], meta?: HistoryMeta) => void;
+    onExpandCompound?: (id: string) => void;
+    // V66: Layers (stable IDs, groups, lock and visibility)
+    items?: ContourItem[];
+    groups?: DesignGroup[];
+    onLayersChange?: (items: ContourItem[], groups: DesignGroup[], meta?: HistoryMeta) => void;
 }
 
 
@@ -158,7 +184,14 @@ export function ContourEditor({
     onUndo,
     onRedo,
     selectedIndices,
-    onSelectionChange
+    onSelectionChange,
+    readOnly = false,
+    compounds = [],
+    onCompoundsChange,
+    onExpandCompound,
+    items = [],
+    groups = [],
+    onLayersChange
 }: ContourEditorProps) {
     // Local state
     const [localContours, setLocalContours] = useState<THREE.Vector2[][]>(contours);
@@ -168,6 +201,10 @@ export function ContourEditor({
     // V43: Control Handles for Beziers
     const [localHandles, setLocalHandles] = useState<({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][]>(handles);
 
+    // V66: Hidden contours are not drawn; hidden or locked ones cannot be picked
+    const [showLayers, setShowLayers] = useState(false);
+    const { hidden: hiddenContours, locked: lockedContours } = resolveItemFlags(items, groups, localContours.length);
+
     // V49: Snapping State
     const [snapEnabled, setSnapEnabled] = useState(false);
     const gridSize = 10; // Pixels
@@ -251,6 +288,8 @@ export function ContourEditor({
         adaptive: false,
         morphology: false
     });
+    // V72: Max distance (px) of the fitted curves from the traced outline; 0 keeps the polyline
+    const [curveTolerance, setCurveTolerance] = useState(DEFAULT_CURVE_FIT.tolerance);
     const [isTracing, setIsTracing] = useState(false);
     // Silence unused warning for now or use it for loading state
     useEffect(() => { if (isTracing) console.log('Tracing active...'); }, [isTracing]);
@@ -285,7 +324,7 @@ export function ContourEditor({
     // V33: Keyboard Shortcuts for Tools (V=Select, A=Node, P=Pen, etc)
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if (['TEXTAREA', 'INPUT'].includes((e.target as HTMLElement).tagName)) return;
+            if (readOnly || ['TEXTAREA', 'INPUT'].includes((e.target as HTMLElement).tagName)) return;
             switch (e.key.toLowerCase()) {
                 case 'v': setActiveTool('select'); break;
                 case 'a': setActiveTool('node'); break; // Adobe Illustrator / Figma style
@@ -298,7 +337,7 @@ export function ContourEditor({
                         const newC = localContours.filter((_, i) => !selectedIndices.has(i));
                         const newR = localRoles.filter((_, i) => !selectedIndices.has(i));
                         const newT = localNodeTypes.filter((_, i) => !selectedIndices.has(i));
-                        update(newC, newR, newT);
+                        update(newC, newR, newT, undefined, { label: `Eliminar ${selectedIndices.size} contorno${selectedIndices.size === 1 ? '' : 's'}` });
                         onSelectionChange(new Set());
                     }
                     break;
@@ -306,7 +345,7 @@ export function ContourEditor({
         };
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedIndices, localContours, localRoles, localNodeTypes]);
+    }, [selectedIndices, localContours, localRoles, localNodeTypes, readOnly]);
 
     // V27: Process Image for Magic Wand
     useEffect(() => {
@@ -326,9 +365,6 @@ export function ContourEditor({
                     img.onerror = reject;
                 });
 
-                // Import dynamically to avoid circular dep if any (optional, but safe)
-                const { processImage } = await import('../core/image-processing');
-
                 const result = processImage(img, traceSettings);
 
                 // IMPORTANT: processImage returns contours in image coordinate space (0..imgWidth).
@@ -379,7 +415,9 @@ export function ContourEditor({
         newContours: THREE.Vector2[][],
         newRoles: ContourRole[],
         newNodeTypes?: NodeType[][],
-        newHandles?: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][]
+        newHandles?: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][],
+        meta?: HistoryMeta,
+        newItems?: ContourItem[]
     ) => {
         setLocalContours(newContours);
         setLocalRoles(newRoles);
@@ -411,7 +449,7 @@ export function ContourEditor({
         // Changing 'onChange' signature touches App.tsx. I should do that.
 
         // For this step (V43), I will just update the local state.
-        onChange(newContours, newRoles, types, handles);
+        onChange(newContours, newRoles, types, handles, meta, newItems);
     };
 
     // Interaction State
@@ -472,14 +510,14 @@ export function ContourEditor({
     // Keyboard Shortcuts
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
-            if ((e.target as HTMLElement).tagName === 'INPUT') return;
+            if (readOnly || (e.target as HTMLElement).tagName === 'INPUT') return;
 
             if (e.key === 'Delete' || e.key === 'Backspace') {
                 if (selectedIndices.size > 0) {
                     const newC = localContours.filter((_, i) => !selectedIndices.has(i));
                     const newR = localRoles.filter((_, i) => !selectedIndices.has(i));
                     const newT = localNodeTypes.filter((_, i) => !selectedIndices.has(i));
-                    update(newC, newR, newT);
+                    update(newC, newR, newT, undefined, { label: `Eliminar ${selectedIndices.size} contorno${selectedIndices.size === 1 ? '' : 's'}` });
                     onSelectionChange(new Set());
                 }
             }
@@ -535,7 +573,7 @@ export function ContourEditor({
                         newSelection.add(nextIdx);
                     });
 
-                    update(newContours, newRoles, newTypes, newHandlesList);
+                    update(newContours, newRoles, newTypes, newHandlesList, { label: 'Pegar' });
                     onSelectionChange(newSelection);
                 }
             }
@@ -557,7 +595,7 @@ export function ContourEditor({
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedIndices, localContours, localRoles, localNodeTypes, onUndo, onRedo]);
+    }, [selectedIndices, localContours, localRoles, localNodeTypes, onUndo, onRedo, readOnly]);
 
     // Helper: Simplify
     const simplifyContour = (points: THREE.Vector2[], threshold: number) => {
@@ -593,8 +631,8 @@ export function ContourEditor({
         const modelPt = pt.matrixTransform(globalToGroup);
         const mousePos = new THREE.Vector2(modelPt.x, modelPt.y);
 
-        // 0. Middle Click Pan (Universal)
-        if (e.button === 1) { // Middle button
+        // 0. Middle Click Pan (Universal, any button when read-only)
+        if (e.button === 1 || readOnly) { // Middle button
             e.preventDefault();
             setDraggingPan({
                 startX: e.clientX,
@@ -617,6 +655,7 @@ export function ContourEditor({
             let minD = Infinity;
 
             localContours.forEach((c, idx) => {
+                if (hiddenContours[idx] || lockedContours[idx]) return;
                 for (let i = 0; i < c.length; i++) {
                     const p1 = c[i];
                     const p2 = c[(i + 1) % c.length];
@@ -703,17 +742,17 @@ export function ContourEditor({
 
 
     // V56: Handle Text Add
-    const handleAddText = (newContours: THREE.Vector2[][]) => {
+    const handleAddText = (text: DesignState) => {
         const center = new THREE.Vector2(view.x + view.w / 2, view.y + view.h / 2);
-        const movedContours = newContours.map(c => c.map(p => p.clone().add(center)));
+        const movedContours = text.contours.map(c => c.map(p => p.clone().add(center)));
 
         const nextIdx = localContours.length;
         const addedContours = [...localContours, ...movedContours];
-        const addedRoles = [...localRoles, ...new Array(movedContours.length).fill('auto') as ContourRole[]];
+        const addedRoles = [...localRoles, ...movedContours.map((_, i) => text.roles[i] || 'auto')];
 
-        // Types: 'corner' is safe for high-res trace
-        const addedTypes = [...localNodeTypes, ...movedContours.map(c => new Array(c.length).fill('corner') as NodeType[])];
-        const addedHandles = [...localHandles, ...movedContours.map(c => new Array(c.length).fill(null))];
+        // V57: Outline text brings its own handles; traced text is all corners
+        const addedTypes = [...localNodeTypes, ...movedContours.map((c, i) => text.nodeTypes?.[i] || new Array(c.length).fill('corner') as NodeType[])];
+        const addedHandles = [...localHandles, ...movedContours.map((c, i) => text.handles?.[i] || new Array(c.length).fill(null))];
 
         // Select new items
         const newSel = new Set<number>();
@@ -721,11 +760,104 @@ export function ContourEditor({
             newSel.add(nextIdx + i);
         }
 
-        update(addedContours, addedRoles, addedTypes, addedHandles);
+        update(addedContours, addedRoles, addedTypes, addedHandles, { label: 'Añadir texto' });
         onSelectionChange(newSel);
         setActiveTool('select');
     };
 
+    // V63: Boolean ops on the selection. Curves are flattened first; inner rings
+    // of the result come back as 'void' contours instead of extra solids.
+    const flattenForBoolean = (cIdx: number): THREE.Vector2[] =>
+        flattenContour({ contours: localContours, roles: localRoles, nodeTypes: localNodeTypes, handles: localHandles }, cIdx);
+
+    // V64: N-ary booleans over the whole selection, with a ghost preview while
+    // hovering the buttons. Rings that come out unchanged keep their source
+    // contour (nodes, handles, node types and role).
+    const [booleanPreview, setBooleanPreview] = useState<{ operation: BooleanOperation, result: PolygonWithHoles[] } | null>(null);
+
+    const computeBoolean = (operation: BooleanOperation) => {
+        const indices = Array.from(selectedIndices); // Click order: the first one is the subject of a difference
+        const sources = indices.map(idx => {
+            const flat = flattenForBoolean(idx);
+            return { idx, flat, keys: new Set(flat.map(pointKey)) };
+        });
+        return { indices, sources, result: booleanReduce(operation, sources.map(s => s.flat)) };
+    };
+
+    const handleBoolean = (operation: BooleanOperation) => {
+        setBooleanPreview(null);
+        if (selectedIndices.size < 2) return;
+        const { indices, sources, result } = computeBoolean(operation);
+        if (result.length === 0) return; // e.g. intersection of disjoint shapes
+
+        const subjectRole = localRoles[indices[0]];
+        const { contours: rings, roles: ringRoles } = polygonsToContours(result, subjectRole === 'void' ? 'auto' : subjectRole, 'void');
+
+        const added: THREE.Vector2[][] = [];
+        const addedRoles: ContourRole[] = [];
+        const addedTypes: NodeType[][] = [];
+        const addedHandles: ({ in: THREE.Vector2, out: THREE.Vector2 } | null)[][] = [];
+        const addedItems: ContourItem[] = [];
+        rings.forEach((ring, i) => {
+            const source = sources.find(s => s.flat.length === ring.length && ring.every(p => s.keys.has(pointKey(p))));
+            if (source) {
+                const c = localContours[source.idx];
+                added.push(c);
+                const sourceRole = localRoles[source.idx];
+                addedRoles.push(ringRoles[i] === 'void' || sourceRole === 'void' ? ringRoles[i] : sourceRole);
+                addedTypes.push(localNodeTypes[source.idx] || new Array(c.length).fill('corner'));
+                addedHandles.push(localHandles[source.idx] || new Array(c.length).fill(null));
+                addedItems.push(items[source.idx] || { id: createItemId() });
+            } else {
+                added.push(ring);
+                addedRoles.push(ringRoles[i]);
+                addedTypes.push(new Array(ring.length).fill('corner'));
+                addedHandles.push(new Array(ring.length).fill(null));
+                addedItems.push({ id: createItemId(), groupId: items[indices[0]]?.groupId });
+            }
+        });
+
+        // The kept contours move up, so their items are passed along explicitly
+        const keep = (_: unknown, i: number) => !selectedIndices.has(i);
+        const newContours = [...localContours.filter(keep), ...added];
+        update(
+            newContours,
+            [...localRoles.filter(keep), ...addedRoles],
+            [...localNodeTypes.filter(keep), ...addedTypes],
+            [...localHandles.filter(keep), ...addedHandles],
+            { label: `${BOOLEAN_LABELS[operation]} (${indices.length} formas)` },
+            [...localContours.map((_, i) => items[i] || { id: createItemId() }).filter(keep), ...addedItems]
+        );
+        const firstNew = newContours.length - added.length;
+        onSelectionChange(new Set(added.map((_, i) => firstNew + i)));
+    };
+
+    // V65: Non-destructive mode groups the selection into a compound shape
+    // instead of replacing it. A contour belongs to at most one compound.
+    const [compoundMode, setCompoundMode] = useState(false);
+
+    const handleCreateCompound = (operation: BooleanOperation) => {
+        setBooleanPreview(null);
+        if (selectedIndices.size < 2 || !onCompoundsChange) return;
+        const operands = Array.from(selectedIndices);
+        const others = compounds
+            .map(c => ({ ...c, operands: c.operands.filter(i => !selectedIndices.has(i)) }))
+            .filter(c => c.operands.length >= 2);
+        onCompoundsChange(
+            [...others, { id: crypto.randomUUID(), operation, operands }],
+            { label: `Forma compuesta: ${BOOLEAN_LABELS[operation]}` }
+        );
+    };
+
+    const selectedCompounds = compounds.filter(c => c.operands.some(i => selectedIndices.has(i)));
+
+    // Evaluated on every edit of an operand, so the outline follows the drag
+    const compoundOutlines = useMemo(() => compounds.map(c => {
+        const design = { contours: localContours, roles: localRoles, nodeTypes: localNodeTypes, handles: localHandles };
+        const operands = c.operands.filter(i => i < localContours.length).map(i => flattenContour(design, i));
+        return { id: c.id, rings: flattenPolygons(booleanReduce(c.operation, operands)) };
+    }), [compounds, localContours, localRoles, localNodeTypes, localHandles]);
+
     // V46: Shape Tool Logic
     const handleAddShape = (type: 'circle' | 'heart' | 'star' | 'rect') => {
         const center = new THREE.Vector2(view.x + view.w / 2, view.y + view.h / 2);
@@ -751,7 +883,7 @@ export function ContourEditor({
         const newHandles = localHandles.map(row => [...(row || [])]);
         newHandles[newContours.length - 1] = new Array(centeredPoints.length).fill(null);
 
-        update(newContours, newRoles, newTypes, newHandles);
+        update(newContours, newRoles, newTypes, newHandles, { label: 'Añadir forma' });
 
         // Auto select
         onSelectionChange(new Set([newContours.length - 1]));
@@ -987,15 +1119,17 @@ export function ContourEditor({
 
     const handleMouseUp = () => {
         if (draggingNode) {
-            update(localContours, localRoles, localNodeTypes);
+            update(localContours, localRoles, localNodeTypes, undefined, { label: 'Mover nodo', mergeKey: `node:${draggingNode.cIdx}:${draggingNode.pIdx}` });
         }
         // V43: Commit Handle Drag
         if (draggingHandle) {
-            update(localContours, localRoles, localNodeTypes, localHandles);
+            update(localContours, localRoles, localNodeTypes, localHandles, { label: 'Mover manejador', mergeKey: `handle:${draggingHandle.cIdx}:${draggingHandle.pIdx}` });
         }
 
         if (transformState) {
-            update(localContours, localRoles, localNodeTypes); // Commit transform
+            const count = transformState.originalContours.size;
+            const verb = transformState.mode === 'rotate' ? 'Rotar' : transformState.mode === 'scale' ? 'Escalar' : 'Mover';
+            update(localContours, localRoles, localNodeTypes, undefined, { label: `${verb} ${count} contorno${count === 1 ? '' : 's'}` }); // Commit transform
             setTransformState(null);
         }
 
@@ -1013,7 +1147,7 @@ export function ContourEditor({
                 const newTypes = [...localNodeTypes];
                 newTypes[newLocal.length - 1] = new Array(finalContour.length).fill('corner');
 
-                update(newLocal, newRoles, newTypes);
+                update(newLocal, newRoles, newTypes, undefined, { label: activeTool === 'brush' ? 'Dibujar con pincel' : 'Dibujar forma' });
                 // Auto Select the new shape to allow immediate edit
                 onSelectionChange(new Set([newLocal.length - 1]));
             }
@@ -1119,7 +1253,7 @@ export function ContourEditor({
                     newHandles[cIdx][pIdx] = null;
                 }
 
-                update(localContours, localRoles, newTypes, newHandles);
+                update(localContours, localRoles, newTypes, newHandles, { label: 'Cambiar tipo de nodo' });
                 return;
             }
 
@@ -1161,7 +1295,7 @@ export function ContourEditor({
                 const newTypes = [...localNodeTypes];
                 newTypes[newLocal.length - 1] = new Array(newC.length).fill('corner');
 
-                update(newLocal, newRoles, newTypes);
+                update(newLocal, newRoles, newTypes, undefined, { label: 'Dibujar con pluma' });
                 setPendingContour([]);
                 onSelectionChange(new Set([newLocal.length - 1]));
                 return;
@@ -1213,7 +1347,7 @@ export function ContourEditor({
                     }
 
                     setLocalContours(newContours);
-                    update(newContours, localRoles, newT);
+                    update(newContours, localRoles, newT, undefined, { label: 'Eliminar nodo' });
                     return;
                 }
             }
@@ -1247,7 +1381,7 @@ export function ContourEditor({
             newT[bestSeg.cIdx] = cTypes;
 
             setLocalContours(newContours);
-            update(newContours, localRoles, newT);
+            update(newContours, localRoles, newT, undefined, { label: 'Añadir nodo' });
         }
     };
 
@@ -1346,75 +1480,79 @@ export function ContourEditor({
         <div
             ref={containerRef}
             className={`bg-gray-900 border border-white/10 relative overflow-hidden transition-all duration-300 w-full h-full rounded-xl
-                ${activeTool === 'select' ? 'cursor-grab active:cursor-grabbing' : 'cursor-crosshair'} `}
+                ${activeTool === 'select' || readOnly ? 'cursor-grab active:cursor-grabbing' : 'cursor-crosshair'} `}
             onMouseMove={handleMouseMove}
 
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
             onMouseDown={handleMouseDown}
-            onClick={handleClick}
-            onDoubleClick={handleDoubleClick}
+            onClick={readOnly ? undefined : handleClick}
+            onDoubleClick={readOnly ? undefined : handleDoubleClick}
         >
-            {/* Toolbar */}
-            <div className="absolute top-4 left-4 flex flex-col gap-2 z-10" onMouseDown={(e) => e.stopPropagation()}>
-                <div className="bg-black/90 backdrop-blur-xl rounded-xl p-2 flex flex-col gap-1 border border-white/10 shadow-2xl min-w-[170px]">
-                    <ToolButton tool="select" icon={MousePointer2} label="Transformar (V)" />
-                    <ToolButton tool="node" icon={Edit} label="Editar Nodos (A)" />
-                    <div className="w-full h-px bg-white/10 my-0.5" />
-                    <ToolButton tool="brush" icon={Brush} label="Pincel (B)" />
-                    <ToolButton tool="pen" icon={PenTool} label="Pluma (P)" />
-                    <ToolButton tool="wand" icon={Wand2} label="Varita Mágica (W)" />
-                    <ToolButton tool="text" icon={Type} label="Texto Profesional (T)" />
-                    <div className="w-full h-px bg-white/10 my-0.5" />
-                    <ToolButton tool="circle" icon={CircleIcon} label="Dibujar Círculo" />
-                    <ToolButton tool="square" icon={SquareIcon} label="Dibujar Cuadrado" />
-                    <div className="w-full h-px bg-white/10 my-0.5" />
-
-                    {/* Shape Templates */}
-                    <div className="flex flex-col gap-1">
-                        <span className="text-[9px] uppercase font-bold text-gray-500 text-center">Formas</span>
-                        <div className="grid grid-cols-2 gap-1">
-                            <button onClick={() => handleAddShape('circle')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-white" title="Insertar Círculo"><CircleIcon className="w-4 h-4" /></button>
-                            <button onClick={() => handleAddShape('heart')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-pink-400" title="Insertar Corazón"><Heart className="w-4 h-4" /></button>
-                            <button onClick={() => handleAddShape('star')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-yellow-400" title="Insertar Estrella"><Star className="w-4 h-4" /></button>
-                            <button onClick={() => handleAddShape('rect')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-green-400" title="Insertar Rectángulo"><SquareIcon className="w-4 h-4" /></button>
+            {!readOnly && (
+                <>
+                    {/* Toolbar */}
+                    <div className="absolute top-4 left-4 flex flex-col gap-2 z-10" onMouseDown={(e) => e.stopPropagation()}>
+                        <div className="bg-black/90 backdrop-blur-xl rounded-xl p-2 flex flex-col gap-1 border border-white/10 shadow-2xl min-w-[170px]">
+                            <ToolButton tool="select" icon={MousePointer2} label="Transformar (V)" />
+                            <ToolButton tool="node" icon={Edit} label="Editar Nodos (A)" />
+                            <div className="w-full h-px bg-white/10 my-0.5" />
+                            <ToolButton tool="brush" icon={Brush} label="Pincel (B)" />
+                            <ToolButton tool="pen" icon={PenTool} label="Pluma (P)" />
+                            <ToolButton tool="wand" icon={Wand2} label="Varita Mágica (W)" />
+                            <ToolButton tool="text" icon={Type} label="Texto Profesional (T)" />
+                            <div className="w-full h-px bg-white/10 my-0.5" />
+                            <ToolButton tool="circle" icon={CircleIcon} label="Dibujar Círculo" />
+                            <ToolButton tool="square" icon={SquareIcon} label="Dibujar Cuadrado" />
+                            <div className="w-full h-px bg-white/10 my-0.5" />
+
+                            {/* Shape Templates */}
+                            <div className="flex flex-col gap-1">
+                                <span className="text-[9px] uppercase font-bold text-gray-500 text-center">Formas</span>
+                                <div className="grid grid-cols-2 gap-1">
+                                    <button onClick={() => handleAddShape('circle')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-white" title="Insertar Círculo"><CircleIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleAddShape('heart')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-pink-400" title="Insertar Corazón"><Heart className="w-4 h-4" /></button>
+                                    <button onClick={() => handleAddShape('star')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-yellow-400" title="Insertar Estrella"><Star className="w-4 h-4" /></button>
+                                    <button onClick={() => handleAddShape('rect')} className="p-1.5 rounded hover:bg-white/10 text-stone-400 hover:text-green-400" title="Insertar Rectángulo"><SquareIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
                         </div>
                     </div>
-                </div>
-            </div>
 
-            <div className="bg-black/80 backdrop-blur text-xs px-3 py-2 rounded text-stone-300 pointer-events-none max-w-[200px] border border-white/5 absolute top-2 left-1/2 -translate-x-1/2 z-10 text-center shadow-lg">
-                {activeTool === 'select' && (
-                    <>
-                        <div className="font-bold mb-1 text-blue-300">Modo Transformar</div>
-                        • Click: Seleccionar<br />
-                        • Arrastrar: Mover Forma<br />
-                        • Doble Clic: Editar Nodos
-                    </>
-                )}
-                {activeTool === 'node' && (
-                    <>
-                        <div className="font-bold mb-1 text-green-300">Modo Nodos</div>
-                        • Mover: Arrastrar Punto<br />
-                        • +/- Nodo: Doble Clic<br />
-                        • Tipo: <b>Alt + Clic</b>
-                    </>
-                )}
-                {activeTool === 'pen' && (
-                    <>
-                        <div className="font-bold mb-1 text-purple-300">Modo Pluma</div>
-                        • Click: Añadir punto<br />
-                        • Click Inicial: Cerrar
-                    </>
-                )}
-                {activeTool === 'wand' && (
-                    <>
-                        <div className="font-bold mb-1 text-cyan-300">Varita Mágica</div>
-                        • Click en "fantasma" para calcar.<br />
-                        • Ajusta el umbral si no ves tu forma.
-                    </>
-                )}
-            </div>
+                    <div className="bg-black/80 backdrop-blur text-xs px-3 py-2 rounded text-stone-300 pointer-events-none max-w-[200px] border border-white/5 absolute top-2 left-1/2 -translate-x-1/2 z-10 text-center shadow-lg">
+                        {activeTool === 'select' && (
+                            <>
+                                <div className="font-bold mb-1 text-blue-300">Modo Transformar</div>
+                                • Click: Seleccionar<br />
+                                • Arrastrar: Mover Forma<br />
+                                • Doble Clic: Editar Nodos
+                            </>
+                        )}
+                        {activeTool === 'node' && (
+                            <>
+                                <div className="font-bold mb-1 text-green-300">Modo Nodos</div>
+                                • Mover: Arrastrar Punto<br />
+                                • +/- Nodo: Doble Clic<br />
+                                • Tipo: <b>Alt + Clic</b>
+                            </>
+                        )}
+                        {activeTool === 'pen' && (
+                            <>
+                                <div className="font-bold mb-1 text-purple-300">Modo Pluma</div>
+                                • Click: Añadir punto<br />
+                                • Click Inicial: Cerrar
+                            </>
+                        )}
+                        {activeTool === 'wand' && (
+                            <>
+                                <div className="font-bold mb-1 text-cyan-300">Varita Mágica</div>
+                                • Click en "fantasma" para calcar.<br />
+                                • Ajusta el umbral si no ves tu forma.
+                            </>
+                        )}
+                    </div>
+                </>
+            )}
 
             {/* Wand Settings Panel */}
             {activeTool === 'wand' && (
@@ -1536,6 +1674,20 @@ export function ContourEditor({
                                 />
                             </div>
                         )}
+
+                        {/* V72: Curve fitting tolerance */}
+                        <div className="flex flex-col gap-1">
+                            <label className="flex justify-between text-[10px] text-stone-500">
+                                <span>Ajuste de Curvas</span>
+                                <span className="text-white font-mono">{curveTolerance > 0 ? `${curveTolerance}px` : 'Polilínea'}</span>
+                            </label>
+                            <input
+                                type="range" min="0" max="4" step="0.5"
+                                value={curveTolerance}
+                                onChange={(e) => setCurveTolerance(parseFloat(e.target.value))}
+                                className="accent-cyan-500 w-full h-1 bg-white/10 rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
                     </div>
 
                     <div className="flex flex-col gap-2 mt-2 pt-2 border-t border-white/10">
@@ -1575,7 +1727,7 @@ export function ContourEditor({
 
             {/* Boolean Toolbar (Only when >1 selected) */}
             {
-                selectedIndices.size > 1 && (
+                !readOnly && selectedIndices.size > 1 && (
                     <div
                         className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-black/90 backdrop-blur-xl border border-white/10 rounded-xl p-2 flex gap-2 z-50 shadow-2xl"
                         onMouseDown={(e) => e.stopPropagation()}
@@ -1606,18 +1758,49 @@ export function ContourEditor({
                                     newContours[idx] = c.map(p => p.clone().add(delta));
                                 });
 
-                                update(newContours, localRoles, localNodeTypes);
+                                update(newContours, localRoles, localNodeTypes, undefined, { label: 'Centrar' });
                             }}
                         >
                             <Move className="w-4 h-4 group-hover:scale-110 transition-transform" /> Centrar formas
                         </button>
+                        <div className="w-px bg-white/10" />
+                        {([
+                            ['union', SquaresUnite, 'Unir'],
+                            ['diff', SquaresSubtract, 'Restar'],
+                            ['intersection', SquaresIntersect, 'Intersecar'],
+                            ['xor', SquaresExclude, 'Excluir']
+                        ] as const).map(([operation, Icon, text]) => (
+                            <button
+                                key={operation}
+                                className="px-3 py-2 bg-white/5 hover:bg-white/10 rounded flex items-center gap-2 text-sm text-gray-200 hover:text-white transition group border border-transparent hover:border-white/10"
+                                title={BOOLEAN_LABELS[operation]}
+                                onMouseEnter={() => setBooleanPreview({ operation, result: computeBoolean(operation).result })}
+                                onMouseLeave={() => setBooleanPreview(null)}
+                                onClick={(e) => { e.stopPropagation(); if (compoundMode) handleCreateCompound(operation); else handleBoolean(operation); }}
+                            >
+                                <Icon className="w-4 h-4 group-hover:scale-110 transition-transform" /> {text}
+                            </button>
+                        ))}
+                        {onCompoundsChange && (
+                            <>
+                                <div className="w-px bg-white/10" />
+                                <button
+                                    className={`px-3 py-2 rounded flex items-center gap-2 text-sm transition border
+                                        ${compoundMode ? 'bg-violet-500/20 text-violet-200 border-violet-500/50' : 'bg-white/5 text-gray-400 border-transparent hover:bg-white/10 hover:text-white'}`}
+                                    title="No destructivo: conserva las formas originales y recalcula el resultado al editarlas"
+                                    onClick={(e) => { e.stopPropagation(); setCompoundMode(!compoundMode); }}
+                                >
+                                    <Layers className="w-4 h-4" /> Compuesta
+                                </button>
+                            </>
+                        )}
                     </div>
                 )
             }
 
             {/* Context Actions (When Selected) - Modified for Bulk Edit */}
             {
-                selectedIndices.size > 0 && (
+                !readOnly && selectedIndices.size > 0 && (
                     <div
                         className="absolute z-50 p-3 bg-black/90 backdrop-blur-xl rounded-xl border border-white/10 shadow-2xl flex flex-col gap-2 min-w-[200px]"
                         style={{
@@ -1638,7 +1821,7 @@ export function ContourEditor({
                                         e.stopPropagation();
                                         const newRoles = [...localRoles];
                                         selectedIndices.forEach(idx => newRoles[idx] = r as ContourRole);
-                                        update(localContours, newRoles, localNodeTypes);
+                                        update(localContours, newRoles, localNodeTypes, undefined, { label: 'Cambiar rol' });
                                     }}
                                     className={`flex-1 py-1.5 px-1 rounded text-[10px] items-center justify-center flex gap-1 border transition-colors
                                         ${Array.from(selectedIndices).every(i => localRoles[i] === r)
@@ -1657,6 +1840,58 @@ export function ContourEditor({
                             ))}
                         </div>
 
+                        {/* V65: Compound Shape Actions */}
+                        {onCompoundsChange && selectedCompounds.map(compound => (
+                            <div key={compound.id} className="flex flex-col gap-1 p-2 rounded-lg border border-violet-500/30 bg-violet-500/10">
+                                <div className="text-[10px] text-violet-200 font-medium flex items-center gap-1">
+                                    <Layers className="w-3 h-3" /> Forma compuesta ({compound.operands.length} formas)
+                                </div>
+                                <div className="flex gap-1">
+                                    {([
+                                        ['union', SquaresUnite],
+                                        ['diff', SquaresSubtract],
+                                        ['intersection', SquaresIntersect],
+                                        ['xor', SquaresExclude]
+                                    ] as const).map(([operation, Icon]) => (
+                                        <button
+                                            key={operation}
+                                            title={BOOLEAN_LABELS[operation]}
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onCompoundsChange(
+                                                    compounds.map(c => c.id === compound.id ? { ...c, operation } : c),
+                                                    { label: `Forma compuesta: ${BOOLEAN_LABELS[operation]}` }
+                                                );
+                                            }}
+                                            className={`flex-1 py-1 rounded flex items-center justify-center border transition-colors
+                                                ${compound.operation === operation ? 'bg-violet-500/30 text-violet-100 border-violet-500/50' : 'border-white/5 text-gray-400 hover:bg-white/5 hover:text-white'}`}
+                                        >
+                                            <Icon className="w-3 h-3" />
+                                        </button>
+                                    ))}
+                                </div>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onExpandCompound?.(compound.id); }}
+                                        className="flex-1 py-1.5 px-1 rounded text-[10px] items-center justify-center flex gap-1 border border-white/5 text-gray-400 hover:bg-white/5 hover:text-white transition-colors"
+                                        title="Aplicar la operación y convertir el resultado en contornos normales"
+                                    >
+                                        <Wand2 className="w-3 h-3" /> Expandir
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            onCompoundsChange(compounds.filter(c => c.id !== compound.id), { label: 'Liberar forma compuesta' });
+                                        }}
+                                        className="flex-1 py-1.5 px-1 rounded text-[10px] items-center justify-center flex gap-1 border border-white/5 text-gray-400 hover:bg-white/5 hover:text-white transition-colors"
+                                        title="Deshacer el grupo y conservar las formas originales"
+                                    >
+                                        <Ungroup className="w-3 h-3" /> Liberar
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+
                         {/* Flip Tools */}
                         <div className="flex gap-1">
                             <button
@@ -1677,7 +1912,7 @@ export function ContourEditor({
                                             return new THREE.Vector2(newX, p.y);
                                         });
                                     });
-                                    update(newContours, localRoles, localNodeTypes);
+                                    update(newContours, localRoles, localNodeTypes, undefined, { label: 'Espejar horizontal' });
                                 }}
                                 className="flex-1 py-1.5 px-1 rounded text-[10px] items-center justify-center flex gap-1 border border-white/5 text-gray-400 hover:bg-white/5 hover:text-white transition-colors"
                                 title="Espejar Horizontalmente"
@@ -1702,7 +1937,7 @@ export function ContourEditor({
                                             return new THREE.Vector2(p.x, newY);
                                         });
                                     });
-                                    update(newContours, localRoles, localNodeTypes);
+                                    update(newContours, localRoles, localNodeTypes, undefined, { label: 'Espejar vertical' });
                                 }}
                                 className="flex-1 py-1.5 px-1 rounded text-[10px] items-center justify-center flex gap-1 border border-white/5 text-gray-400 hover:bg-white/5 hover:text-white transition-colors"
                                 title="Espejar Verticalmente"
@@ -1732,7 +1967,7 @@ export function ContourEditor({
                                     newTypes[idx] = new Array(optimized.length).fill('corner');
                                 });
 
-                                update(newContours, localRoles, newTypes);
+                                update(newContours, localRoles, newTypes, undefined, { label: 'Simplificar nodos' });
                             }}
                         >
                             <Wand2 className="w-3 h-3" /> Simplificar Nodos
@@ -1748,7 +1983,7 @@ export function ContourEditor({
                                     const allSmooth = current.every(t => t === 'smooth');
                                     newTypes[idx] = new Array(localContours[idx].length).fill(allSmooth ? 'corner' : 'smooth');
                                 });
-                                update(localContours, localRoles, newTypes);
+                                update(localContours, localRoles, newTypes, undefined, { label: 'Suavizar / Esquinas' });
                             }}
                         >
                             <Edit className="w-3 h-3" /> Tipo: Suave/Esquina
@@ -1761,7 +1996,7 @@ export function ContourEditor({
                                 const newC = localContours.filter((_, i) => !selectedIndices.has(i));
                                 const newR = localRoles.filter((_, i) => !selectedIndices.has(i));
                                 const newT = localNodeTypes.filter((_, i) => !selectedIndices.has(i));
-                                update(newC, newR, newT);
+                                update(newC, newR, newT, undefined, { label: `Eliminar ${selectedIndices.size} contorno${selectedIndices.size === 1 ? '' : 's'}` });
                                 onSelectionChange(new Set());
                             }}
                         >
@@ -1776,7 +2011,7 @@ export function ContourEditor({
 
             {/* Reset View Button */}
             {/* Bottom Left Controls (Keyboard Shortcuts) */}
-            <div className="absolute bottom-4 left-4 z-40" onMouseDown={e => e.stopPropagation()}>
+            <div className={`absolute bottom-4 left-4 z-40 flex gap-2 ${readOnly ? 'hidden' : ''}`} onMouseDown={e => e.stopPropagation()}>
                 <button
                     onClick={() => setShowShortcuts(true)}
                     className="w-10 h-10 flex items-center justify-center rounded-xl bg-black/80 border border-white/10 text-white hover:bg-white/10 transition-all backdrop-blur-md shadow-lg group"
@@ -1784,8 +2019,31 @@ export function ContourEditor({
                 >
                     <Keyboard className="w-5 h-5 group-hover:scale-110 transition-transform text-blue-400" />
                 </button>
+                {onLayersChange && (
+                    <button
+                        onClick={() => setShowLayers(!showLayers)}
+                        className={`w-10 h-10 flex items-center justify-center rounded-xl border transition-all backdrop-blur-md shadow-lg group
+                            ${showLayers ? 'bg-blue-600 border-blue-500 text-white' : 'bg-black/80 border-white/10 text-white hover:bg-white/10'}`}
+                        title="Capas"
+                    >
+                        <Layers2 className={`w-5 h-5 group-hover:scale-110 transition-transform ${showLayers ? '' : 'text-blue-400'}`} />
+                    </button>
+                )}
             </div>
 
+            {/* V66: Layers Panel */}
+            {!readOnly && showLayers && onLayersChange && (
+                <LayersPanel
+                    items={items}
+                    groups={groups}
+                    roles={localRoles}
+                    selectedIndices={selectedIndices}
+                    onSelectionChange={onSelectionChange}
+                    onChange={onLayersChange}
+                    onClose={() => setShowLayers(false)}
+                />
+            )}
+
             {/* Bottom Right Controls (Reset & Snapping) */}
             <div className="absolute bottom-4 right-4 flex gap-2 z-20 items-end" onMouseDown={(e) => e.stopPropagation()}>
                 <button
@@ -1798,7 +2056,7 @@ export function ContourEditor({
                     Resetear Vista
                 </button>
 
-                <div className="relative">
+                <div className={`relative ${readOnly ? 'hidden' : ''}`}>
                     {snapEnabled && <div className="absolute bottom-10 right-0 bg-black/60 text-[9px] text-center text-purple-300 font-mono px-2 py-1 rounded backdrop-blur border border-white/10 whitespace-nowrap mb-1">GRID: {gridSize}px</div>}
 
                     <button
@@ -1849,6 +2107,7 @@ export function ContourEditor({
 
                     {/* Contours Render */}
                     {localContours.map((contour, cIdx) => {
+                        if (hiddenContours[cIdx]) return null;
                         const role = localRoles[cIdx];
                         const isSelected = selectedIndices.has(cIdx);
 
@@ -1995,6 +2254,32 @@ export function ContourEditor({
                         activeTool === 'select' && renderGizmo()
                     }
 
+                    {/* V65: Compound Shape Results */}
+                    {compoundOutlines.map(({ id, rings }) => (
+                        <path
+                            key={`compound-${id}`}
+                            className="pointer-events-none"
+                            d={rings.map(ring => `M ${ring.map(p => `${p.x},${p.y}`).join(' L ')} Z`).join(' ')}
+                            fill="rgba(139, 92, 246, 0.2)"
+                            fillRule="evenodd"
+                            stroke="#a78bfa"
+                            strokeWidth={view.w / 400}
+                        />
+                    ))}
+
+                    {/* V64: Boolean Result Preview (Ghost) */}
+                    {booleanPreview && selectedIndices.size > 1 && (
+                        <path
+                            className="pointer-events-none"
+                            d={flattenPolygons(booleanPreview.result).map(ring => `M ${ring.map(p => `${p.x},${p.y}`).join(' L ')} Z`).join(' ')}
+                            fill="rgba(250, 204, 21, 0.25)"
+                            fillRule="evenodd"
+                            stroke="#facc15"
+                            strokeWidth={view.w / 300}
+                            strokeDasharray={`${view.w / 100} ${view.w / 200}`}
+                        />
+                    )}
+
                     {/* V27: Magic Wand Candidates (Ghosts) */}
                     {activeTool === 'wand' && traceCandidates.map((contour, idx) => (
                         <path
@@ -2010,14 +2295,20 @@ export function ContourEditor({
                                 e.stopPropagation();
                                 if (contour.length < 3) return; // Ignore tiny noise
 
-                                const newC = [...contour];
                                 // V27: Add as new shape
+                                // V72: Fitted with Bezier nodes, like a pen-drawn path
+                                const fitted = curveTolerance > 0
+                                    ? fitContourCurves([contour], { ...DEFAULT_CURVE_FIT, tolerance: curveTolerance })
+                                    : { contours: optimizeTracedContours([contour]), nodeTypes: undefined, handles: undefined };
+                                const newC = fitted.contours[0];
                                 const newLocal = [...localContours, newC];
                                 const newRoles = [...localRoles, 'auto' as ContourRole];
                                 const newTypes = [...localNodeTypes];
-                                newTypes[newLocal.length - 1] = new Array(newC.length).fill('corner');
+                                newTypes[newLocal.length - 1] = fitted.nodeTypes?.[0] || new Array(newC.length).fill('corner');
+                                const newHandles = newLocal.map((c, i) => localHandles[i] || new Array(c.length).fill(null));
+                                newHandles[newLocal.length - 1] = fitted.handles?.[0] || new Array(newC.length).fill(null);
 
-                                update(newLocal, newRoles, newTypes);
+                                update(newLocal, newRoles, newTypes, newHandles, { label: 'Calcar con varita' });
                                 onSelectionChange(new Set([newLocal.length - 1]));
                                 setActiveTool('select');
                             }}
@@ -1,13 +1,17 @@
 import { Download, Sliders, Box, Layers, Pencil, Trash2, RefreshCw, Cookie, Tag, Eye, Settings2 } from 'lucide-react';
-import type { CutterSettings } from '../core/geometry-generator';
+import type { CutterSettings } from '../core';
 import { Slider } from './ui/Slider';
 import { Switch } from './ui/Switch';
 import { Accordion } from './ui/Accordion';
 
+export type ExportFormat = 'stl' | 'zip' | '3mf' | 'obj' | 'glb';
+export type VectorFormat = 'svg' | 'dxf';
+
 interface ControlsProps {
     settings: CutterSettings;
     onChange: (newSettings: CutterSettings) => void;
-    onExport: (isZip?: boolean) => void;
+    onExport: (format: ExportFormat) => void;
+    onExportVector: (format: VectorFormat) => void;
     disabled: boolean;
     viewerSettings: { baseColor: string; outerColor: string; innerColor: string; autoRotate: boolean };
     onViewerChange: (key: string, value: any) => void;
@@ -21,6 +25,7 @@ export function Controls({
     settings,
     onChange,
     onExport,
+    onExportVector,
     disabled,
     viewerSettings,
     onViewerChange,
@@ -171,6 +176,39 @@ export function Controls({
                         </div>
                     )}
 
+                    {/* V50: Offset Corner Joins */}
+                    <div className="space-y-3 pt-2">
+                        <label className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">Esquinas de Pared</label>
+                        <div className="flex bg-white/5 p-1 rounded-lg border border-white/5">
+                            {([['miter', 'Inglete'], ['round', 'Redondo'], ['square', 'Recto']] as const).map(([join, label]) => (
+                                <button
+                                    key={join}
+                                    onClick={() => handleChange('offsetJoin', join)}
+                                    className={`flex-1 py-1 text-xs rounded-md ${(settings.offsetJoin ?? 'miter') === join ? 'bg-zinc-700 text-white shadow-sm ring-1 ring-white/10' : 'text-stone-500'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {(settings.offsetJoin ?? 'miter') === 'miter' && (
+                            <Slider label="Límite Inglete" value={settings.offsetMiterLimit ?? 2} min={1} max={10} step={0.5} unit="x" onChange={(v) => handleChange('offsetMiterLimit', v)} />
+                        )}
+                    </div>
+
+                    {/* V52: Nozzle (manufacturability checks) */}
+                    <div className="pt-2">
+                        <Slider label="Boquilla" value={settings.nozzleDiameter ?? 0.4} min={0.2} max={1.0} step={0.1} unit="mm" onChange={(v) => handleChange('nozzleDiameter', v)} />
+                    </div>
+
+                    {/* V51: Watertight Export */}
+                    <div className="flex justify-between items-center pt-2">
+                        <div>
+                            <span className="block text-xs font-medium text-stone-400">Malla Cerrada (Unión)</span>
+                            <span className="text-[10px] text-stone-600">Une las piezas en un sólido manifold</span>
+                        </div>
+                        <Switch label="" checked={settings.manifoldExport || false} onChange={(v) => handleChange('manifoldExport', v)} />
+                    </div>
+
                     {/* Hole Settings (Keychain Only) */}
                     {settings.outputType === 'keychain' && (
                         <div className="space-y-4 pt-2">
@@ -256,7 +294,7 @@ export function Controls({
 
                 <div className="flex gap-2">
                     <button
-                        onClick={() => onExport(false)}
+                        onClick={() => onExport('stl')}
                         disabled={disabled}
                         className={`flex-1 py-3 bg-white text-black hover:bg-stone-200 active:scale-95 rounded-lg font-bold text-sm shadow-lg transition-all flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed`}
                     >
@@ -266,7 +304,7 @@ export function Controls({
 
                     {(settings.outputType === 'keychain' || settings.outputType === 'cutter') && (
                         <button
-                            onClick={() => onExport(true)} // Pass true for ZIP
+                            onClick={() => onExport('zip')}
                             disabled={disabled}
                             className={`w-14 bg-zinc-800 hover:bg-zinc-700 border border-white/10 text-white rounded-lg flex items-center justify-center transition-all active:scale-95
                                 ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
@@ -276,6 +314,50 @@ export function Controls({
                             <Layers className="w-4 h-4" />
                         </button>
                     )}
+
+                    {/* V53: Multi-part 3MF with colors */}
+                    <button
+                        onClick={() => onExport('3mf')}
+                        disabled={disabled}
+                        className={`w-14 bg-zinc-800 hover:bg-zinc-700 border border-white/10 text-white rounded-lg text-[10px] font-bold flex items-center justify-center transition-all active:scale-95
+                            ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+                        `}
+                        title="Descargar 3MF (piezas con nombre y color)"
+                    >
+                        3MF
+                    </button>
+                </div>
+
+                {/* V54: Colored scene for web/AR previews */}
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-stone-500 uppercase tracking-widest flex-1">Escena</span>
+                    {([['obj', 'OBJ', 'Descargar OBJ + MTL (ZIP) con colores'], ['glb', 'GLB', 'Descargar GLB para web y AR']] as const).map(([format, label, title]) => (
+                        <button
+                            key={format}
+                            onClick={() => onExport(format)}
+                            disabled={disabled}
+                            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-white/10 text-white rounded-md text-[10px] font-bold transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={title}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* V56: 2D contours at real size for laser cutters and plotters */}
+                <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-stone-500 uppercase tracking-widest flex-1">Vectores 2D</span>
+                    {([['svg', 'SVG', 'Descargar SVG en mm (una capa por rol)'], ['dxf', 'DXF', 'Descargar DXF en mm (una capa por rol)']] as const).map(([format, label, title]) => (
+                        <button
+                            key={format}
+                            onClick={() => onExportVector(format)}
+                            disabled={disabled}
+                            className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-white/10 text-white rounded-md text-[10px] font-bold transition-all active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={title}
+                        >
+                            {label}
+                        </button>
+                    ))}
                 </div>
             </div>
         </div>
@@ -0,0 +1,75 @@
+import { AlertTriangle, XCircle, X, Download } from 'lucide-react';
+import type { ManufacturabilityIssue } from '../core';
+
+interface ExportReportProps {
+    issues: ManufacturabilityIssue[];
+    activeIssueId: string | null;
+    onSelectIssue: (issue: ManufacturabilityIssue) => void;
+    onExportAnyway?: () => void; // Left out once the file is already exported
+    onClose: () => void;
+}
+
+// V52: Manufacturability report shown before export (and after a unioned STL
+// export whose mesh did not come out closed)
+export function ExportReport({ issues, activeIssueId, onSelectIssue, onExportAnyway, onClose }: ExportReportProps) {
+    const errorCount = issues.filter(i => i.severity === 'error').length;
+    const warningCount = issues.length - errorCount;
+
+    return (
+        <div className="absolute top-16 left-4 z-30 w-80 max-h-[70%] flex flex-col bg-[#1a1a1a]/95 border border-white/10 rounded-xl shadow-2xl backdrop-blur-md overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center justify-between px-3 py-2 border-b border-white/5 bg-black/40 shrink-0">
+                <div>
+                    <h3 className="text-xs font-bold text-stone-200 uppercase tracking-widest">Revisión de Fabricación</h3>
+                    <p className="text-[10px] text-stone-500">
+                        {errorCount} {errorCount === 1 ? 'error' : 'errores'} · {warningCount} {warningCount === 1 ? 'aviso' : 'avisos'}
+                    </p>
+                </div>
+                <button onClick={onClose} className="p-1 hover:bg-white/10 rounded text-stone-400 hover:text-white" title="Cerrar">
+                    <X className="w-3 h-3" />
+                </button>
+            </div>
+
+            {/* Issue List */}
+            <ul className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+                {issues.map(issue => (
+                    <li key={issue.id}>
+                        <button
+                            onClick={() => onSelectIssue(issue)}
+                            className={`w-full flex items-start gap-2 text-left px-2 py-1.5 rounded-md text-xs transition-colors ${activeIssueId === issue.id
+                                ? 'bg-white/10 text-white ring-1 ring-white/10'
+                                : 'text-stone-400 hover:bg-white/5 hover:text-stone-200'
+                                }`}
+                        >
+                            {issue.severity === 'error' ? (
+                                <XCircle className="w-3.5 h-3.5 text-red-500 shrink-0 mt-0.5" />
+                            ) : (
+                                <AlertTriangle className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" />
+                            )}
+                            <span>{issue.message}</span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+
+            {/* Actions */}
+            <div className="flex gap-2 p-2 border-t border-white/5 shrink-0">
+                <button
+                    onClick={onClose}
+                    className="flex-1 py-1.5 text-xs rounded-md bg-zinc-800 hover:bg-zinc-700 border border-white/10 text-stone-300"
+                >
+                    {onExportAnyway ? 'Corregir' : 'Cerrar'}
+                </button>
+                {onExportAnyway && (
+                    <button
+                        onClick={onExportAnyway}
+                        className="flex-1 py-1.5 text-xs rounded-md bg-white text-black font-bold hover:bg-stone-200 flex items-center justify-center gap-1"
+                    >
+                        <Download className="w-3 h-3" />
+                        Exportar igualmente
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,74 @@
+import { useDropzone } from 'react-dropzone';
+import { Check, Upload, Trash2 } from 'lucide-react';
+import type { FontEntry } from '../browser';
+
+interface FontPickerProps {
+    fonts: FontEntry[];
+    selectedId: string;
+    onSelect: (font: FontEntry) => void;
+    onUpload: (files: File[]) => void;
+    onRemove: (id: string) => void;
+    previewText?: string;
+}
+
+// V58: Font list shared by the text tools. Font files can be dropped on the list.
+export function FontPicker({ fonts, selectedId, onSelect, onUpload, onRemove, previewText }: FontPickerProps) {
+    const { getRootProps, getInputProps, isDragActive, open } = useDropzone({
+        onDrop: (files) => { if (files.length > 0) onUpload(files); },
+        accept: {
+            'font/ttf': ['.ttf'],
+            'font/otf': ['.otf'],
+            'font/woff': ['.woff']
+        },
+        noClick: true,
+        noKeyboard: true
+    });
+
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center justify-between">
+                <label className="text-xs text-slate-400 font-medium">Tipografía ({fonts.length})</label>
+                <button
+                    onClick={open}
+                    className="text-[10px] text-purple-300 hover:text-purple-200 flex items-center gap-1"
+                    title="Cargar fuente TTF, OTF o WOFF (o arrastrarla a la lista)"
+                >
+                    <Upload className="w-3 h-3" /> Subir fuente
+                </button>
+            </div>
+            <div
+                {...getRootProps()}
+                className={`h-40 overflow-y-auto border rounded-lg bg-slate-950 custom-scrollbar p-1 space-y-1 transition-colors ${isDragActive ? 'border-purple-500 bg-purple-500/10' : 'border-slate-700'}`}
+            >
+                <input {...getInputProps()} />
+                {fonts.map(font => (
+                    <div
+                        key={font.id}
+                        onClick={() => onSelect(font)}
+                        className={`w-full text-left px-3 py-2 rounded flex items-center justify-between gap-2 group cursor-pointer transition-colors ${selectedId === font.id ? 'bg-purple-600 text-white' : 'hover:bg-slate-800 text-slate-300'}`}
+                    >
+                        <div className="min-w-0">
+                            <div style={{ fontFamily: font.family }} className="text-lg truncate">{previewText?.trim() || font.name}</div>
+                            {previewText?.trim() && <div className="text-[10px] opacity-60 truncate">{font.name}</div>}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                            {font.uploaded && (
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onRemove(font.id); }}
+                                    className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-red-500/20 hover:text-red-300"
+                                    title="Eliminar fuente subida"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            )}
+                            {selectedId === font.id && <Check className="w-3 h-3" />}
+                        </div>
+                    </div>
+                ))}
+                {isDragActive && (
+                    <div className="text-center text-xs text-purple-300 py-2">Suelta la fuente aquí</div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import type { HistoryEntry } from '../hooks/useDesignHistory';
+
+interface HistoryPanelProps {
+    entries: HistoryEntry[];
+    position: number;
+    onJump: (index: number) => void;
+    onClose: () => void;
+}
+
+// V62: Undo history list. Clicking an entry jumps to the state right after it.
+export function HistoryPanel({ entries, position, onJump, onClose }: HistoryPanelProps) {
+    const currentRef = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        currentRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [position]);
+
+    const row = (index: number, label: string, time?: number) => {
+        const isCurrent = index === position;
+        const isFuture = index > position;
+        return (
+            <button
+                key={index}
+                ref={isCurrent ? currentRef : undefined}
+                onClick={() => onJump(index)}
+                className={`w-full text-left px-2 py-1 rounded flex items-center justify-between gap-2 transition-colors
+                    ${isCurrent ? 'bg-blue-600 text-white' : isFuture ? 'text-zinc-600 hover:bg-white/5 italic' : 'text-zinc-300 hover:bg-white/10'}`}
+            >
+                <span className="truncate">{label}</span>
+                {time && <span className="text-[9px] opacity-60 shrink-0">{new Date(time).toLocaleTimeString('es-ES')}</span>}
+            </button>
+        );
+    };
+
+    return (
+        <div
+            className="absolute top-full left-0 mt-2 w-64 bg-zinc-900/95 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl text-xs z-50"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+                <span className="font-bold text-white">Historial ({entries.length})</span>
+                <button onClick={onClose} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-white">
+                    <X className="w-3 h-3" />
+                </button>
+            </div>
+            <div className="max-h-72 overflow-y-auto custom-scrollbar p-1 space-y-0.5">
+                {row(-1, 'Estado inicial')}
+                {entries.map((entry, i) => row(i, entry.label, entry.time))}
+            </div>
+        </div>
+    );
+}
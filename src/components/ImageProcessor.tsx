@@ -1,10 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
 import { Check, Wand2 } from 'lucide-react';
-import type { ProcessOptions } from '../core/image-processing';
+import { DEFAULT_CURVE_FIT, type ProcessOptions } from '../core';
 
 interface ImageProcessorProps {
     imageSrc: string;
-    onConfirm: (options: ProcessOptions) => void;
+    onConfirm: (options: ProcessOptions, curveTolerance: number) => void;
     onCancel: () => void;
 }
 
@@ -13,6 +13,7 @@ export function ImageProcessor({ imageSrc, onConfirm, onCancel }: ImageProcessor
     const [threshold, setThreshold] = useState(128);
     const [invert, setInvert] = useState(false);
     const [detectionMode, setDetectionMode] = useState<'standard' | 'text'>('standard');
+    const [curveTolerance, setCurveTolerance] = useState(DEFAULT_CURVE_FIT.tolerance); // V72
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const imgRef = useRef<HTMLImageElement>(null);
@@ -146,6 +147,27 @@ export function ImageProcessor({ imageSrc, onConfirm, onCancel }: ImageProcessor
                     />
                 </div>
 
+                {/* V72: Curve Fitting Tolerance */}
+                <div className="space-y-2">
+                    <div className="flex justify-between text-xs font-bold uppercase tracking-wider text-gray-400">
+                        <span>Ajuste de Curvas</span>
+                        <span>{curveTolerance > 0 ? `${curveTolerance}px` : 'Polilínea'}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0"
+                        max="4"
+                        step="0.5"
+                        value={curveTolerance}
+                        onChange={(e) => setCurveTolerance(parseFloat(e.target.value))}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                    <div className="flex justify-between text-[10px] text-gray-500">
+                        <span>Más Fiel</span>
+                        <span>Menos Nodos</span>
+                    </div>
+                </div>
+
                 {/* V39: Detection Mode Selector */}
                 <div className="space-y-2">
                     <span className="text-xs font-bold uppercase tracking-wider text-gray-400">Modo de Detección</span>
@@ -196,7 +218,7 @@ export function ImageProcessor({ imageSrc, onConfirm, onCancel }: ImageProcessor
                             highRes: true,
                             adaptive: detectionMode === 'text',
                             morphology: detectionMode === 'text'
-                        })}
+                        }, curveTolerance)}
                         className="flex-[2] py-3 rounded-xl font-bold bg-blue-600 text-white hover:bg-blue-500 shadow-lg shadow-blue-900/40 transition-all transform active:scale-95 flex items-center justify-center gap-2"
                     >
                         <Wand2 className="w-4 h-4" />
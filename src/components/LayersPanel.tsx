@@ -0,0 +1,238 @@
+import { useState, type ReactNode } from 'react';
+import { X, Eye, EyeOff, Lock, LockOpen, FolderPlus, Folder, ChevronRight, ChevronDown, Group, Ungroup } from 'lucide-react';
+import {
+    groupChain, groupItems, itemLabel, moveItemsToGroup, resolveItemFlags, ungroup, createItemId,
+    type ContourRole, type HistoryMeta, type ContourItem, type DesignGroup
+} from '../core';
+
+interface LayersPanelProps {
+    items: ContourItem[];
+    groups: DesignGroup[];
+    roles: ContourRole[];
+    selectedIndices: Set<number>;
+    onSelectionChange: (indices: Set<number>) => void;
+    onChange: (items: ContourItem[], groups: DesignGroup[], meta?: HistoryMeta) => void;
+    onClose: () => void;
+}
+
+// V66: Layer tree of the design. Top-level groups are the layers; contours
+// and groups can be renamed (double click), hidden and locked.
+export function LayersPanel({ items, groups, roles, selectedIndices, onSelectionChange, onChange, onClose }: LayersPanelProps) {
+    const [editing, setEditing] = useState<{ id: string; draft: string } | null>(null);
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set()); // View state, not part of the design
+
+    const { hidden, locked } = resolveItemFlags(items, groups, items.length);
+    const groupIds = new Set(groups.map(g => g.id));
+    // Dangling references show up at the top level instead of disappearing
+    const parentOf = (id: string | undefined) => id && groupIds.has(id) ? id : undefined;
+
+    // Locking or hiding drops the affected contours from the selection
+    const apply = (nextItems: ContourItem[], nextGroups: DesignGroup[], meta: HistoryMeta) => {
+        onChange(nextItems, nextGroups, meta);
+        const flags = resolveItemFlags(nextItems, nextGroups, nextItems.length);
+        const kept = Array.from(selectedIndices).filter(i => !flags.hidden[i] && !flags.locked[i]);
+        if (kept.length !== selectedIndices.size) onSelectionChange(new Set(kept));
+    };
+
+    const updateItem = (index: number, patch: Partial<ContourItem>, label: string) =>
+        apply(items.map((item, i) => i === index ? { ...item, ...patch } : item), groups, { label });
+
+    const updateGroup = (id: string, patch: Partial<DesignGroup>, label: string) =>
+        apply(items, groups.map(g => g.id === id ? { ...g, ...patch } : g), { label });
+
+    const commitRename = () => {
+        if (!editing) return;
+        const name = editing.draft.trim();
+        const index = items.findIndex(item => item.id === editing.id);
+        if (index >= 0) updateItem(index, { name: name || undefined }, 'Renombrar forma');
+        else if (name) updateGroup(editing.id, { name }, 'Renombrar grupo');
+        setEditing(null);
+    };
+
+    const contoursIn = (groupId: string): number[] =>
+        items.flatMap((item, i) => groupChain(groups, item.groupId).some(g => g.id === groupId) ? [i] : []);
+
+    const selectable = (i: number) => !hidden[i] && !locked[i];
+
+    const handleSelect = (indices: number[], additive: boolean) => {
+        const pick = indices.filter(selectable);
+        if (!additive) {
+            onSelectionChange(new Set(pick));
+            return;
+        }
+        const next = new Set(selectedIndices);
+        const allSelected = pick.every(i => next.has(i));
+        pick.forEach(i => allSelected ? next.delete(i) : next.add(i));
+        onSelectionChange(next);
+    };
+
+    const handleNewLayer = () => {
+        const count = groups.filter(g => !parentOf(g.parentId)).length;
+        apply(items, [...groups, { id: createItemId(), name: `Capa ${count + 1}` }], { label: 'Nueva capa' });
+    };
+
+    const handleGroupSelection = () => {
+        const result = groupItems(items, groups, Array.from(selectedIndices), `Grupo ${groups.length + 1}`);
+        apply(result.items, result.groups, { label: 'Agrupar' });
+    };
+
+    const handleMoveSelection = (groupId: string | undefined) =>
+        apply(moveItemsToGroup(items, Array.from(selectedIndices), groupId), groups, { label: 'Mover a capa' });
+
+    const nameField = (id: string, name: string) => editing?.id === id ? (
+        <input
+            autoFocus
+            value={editing.draft}
+            onChange={(e) => setEditing({ id, draft: e.target.value })}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setEditing(null);
+            }}
+            className="flex-1 min-w-0 bg-black/60 border border-blue-500/50 rounded px-1 text-white outline-none"
+        />
+    ) : (
+        <span className="flex-1 truncate" onDoubleClick={(e) => { e.stopPropagation(); setEditing({ id, draft: name }); }}>{name}</span>
+    );
+
+    const toggles = (isHidden: boolean, isLocked: boolean, onHide: () => void, onLock: () => void) => (
+        <>
+            <button
+                onClick={(e) => { e.stopPropagation(); onHide(); }}
+                className={`p-0.5 rounded hover:bg-white/10 ${isHidden ? 'text-zinc-600' : 'text-zinc-400 hover:text-white'}`}
+                title={isHidden ? 'Mostrar' : 'Ocultar'}
+            >
+                {isHidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+            </button>
+            <button
+                onClick={(e) => { e.stopPropagation(); onLock(); }}
+                className={`p-0.5 rounded hover:bg-white/10 ${isLocked ? 'text-amber-400' : 'text-zinc-600 hover:text-white'}`}
+                title={isLocked ? 'Desbloquear' : 'Bloquear'}
+            >
+                {isLocked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3" />}
+            </button>
+        </>
+    );
+
+    const renderLevel = (parentId: string | undefined, depth: number): ReactNode[] => {
+        const rows: ReactNode[] = [];
+        groups.filter(g => parentOf(g.parentId) === parentId).forEach(group => {
+            const members = contoursIn(group.id);
+            const isSelected = members.length > 0 && members.every(i => selectedIndices.has(i));
+            rows.push(
+                <div
+                    key={group.id}
+                    onClick={(e) => handleSelect(members, e.shiftKey)}
+                    style={{ paddingLeft: 4 + depth * 12 }}
+                    className={`flex items-center gap-1 pr-1 py-1 rounded cursor-pointer ${isSelected ? 'bg-blue-600/30 text-white' : 'text-zinc-200 hover:bg-white/5'}`}
+                >
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            const next = new Set(collapsed);
+                            if (!next.delete(group.id)) next.add(group.id);
+                            setCollapsed(next);
+                        }}
+                        className="p-0.5 text-zinc-500 hover:text-white"
+                    >
+                        {collapsed.has(group.id) ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+                    </button>
+                    <Folder className="w-3 h-3 text-zinc-500 shrink-0" />
+                    {nameField(group.id, group.name)}
+                    <span className="text-[9px] text-zinc-600">{members.length}</span>
+                    {toggles(
+                        !!group.hidden,
+                        !!group.locked,
+                        () => updateGroup(group.id, { hidden: !group.hidden }, group.hidden ? 'Mostrar grupo' : 'Ocultar grupo'),
+                        () => updateGroup(group.id, { locked: !group.locked }, group.locked ? 'Desbloquear grupo' : 'Bloquear grupo')
+                    )}
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            const result = ungroup(items, groups, group.id);
+                            apply(result.items, result.groups, { label: 'Desagrupar' });
+                        }}
+                        className="p-0.5 rounded text-zinc-600 hover:text-white hover:bg-white/10"
+                        title="Desagrupar"
+                    >
+                        <Ungroup className="w-3 h-3" />
+                    </button>
+                </div>
+            );
+            if (!collapsed.has(group.id)) rows.push(...renderLevel(group.id, depth + 1));
+        });
+
+        items.forEach((item, i) => {
+            if (parentOf(item.groupId) !== parentId) return;
+            const isSelected = selectedIndices.has(i);
+            rows.push(
+                <div
+                    key={item.id}
+                    onClick={(e) => handleSelect([i], e.shiftKey)}
+                    style={{ paddingLeft: 20 + depth * 12 }}
+                    className={`flex items-center gap-1 pr-1 py-1 rounded cursor-pointer
+                        ${isSelected ? 'bg-blue-600 text-white' : hidden[i] ? 'text-zinc-600' : 'text-zinc-300 hover:bg-white/5'}`}
+                >
+                    {nameField(item.id, itemLabel(item, roles[i], i))}
+                    {toggles(
+                        !!item.hidden,
+                        !!item.locked,
+                        () => updateItem(i, { hidden: !item.hidden }, item.hidden ? 'Mostrar forma' : 'Ocultar forma'),
+                        () => updateItem(i, { locked: !item.locked }, item.locked ? 'Desbloquear forma' : 'Bloquear forma')
+                    )}
+                </div>
+            );
+        });
+        return rows;
+    };
+
+    const groupOptions = (parentId: string | undefined, depth: number): ReactNode[] =>
+        groups.filter(g => parentOf(g.parentId) === parentId).flatMap(g => [
+            <option key={g.id} value={g.id}>{`${'  '.repeat(depth)}${g.name}`}</option>,
+            ...groupOptions(g.id, depth + 1)
+        ]);
+
+    return (
+        <div
+            className="absolute bottom-16 left-4 z-50 w-64 bg-zinc-900/95 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl text-xs flex flex-col max-h-[60%]"
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+                <span className="font-bold text-white">Capas</span>
+                <div className="flex items-center gap-1">
+                    <button onClick={handleNewLayer} className="p-1 rounded hover:bg-white/10 text-zinc-400 hover:text-white" title="Nueva capa">
+                        <FolderPlus className="w-3 h-3" />
+                    </button>
+                    <button
+                        onClick={handleGroupSelection}
+                        disabled={selectedIndices.size === 0}
+                        className="p-1 rounded hover:bg-white/10 text-zinc-400 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Agrupar selección"
+                    >
+                        <Group className="w-3 h-3" />
+                    </button>
+                    <button onClick={onClose} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-white">
+                        <X className="w-3 h-3" />
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-y-auto custom-scrollbar p-1 space-y-0.5">
+                {items.length === 0 ? <div className="px-2 py-3 text-zinc-500 text-center">Sin formas</div> : renderLevel(undefined, 0)}
+            </div>
+            {selectedIndices.size > 0 && groups.length > 0 && (
+                <div className="flex items-center gap-2 px-3 py-2 border-t border-zinc-800 text-zinc-400">
+                    <span className="shrink-0">Mover a</span>
+                    <select
+                        value=""
+                        onChange={(e) => handleMoveSelection(e.target.value === '-' ? undefined : e.target.value)}
+                        className="flex-1 min-w-0 bg-black/60 border border-white/10 rounded px-1 py-0.5 text-white"
+                    >
+                        <option value="" disabled>Elegir capa…</option>
+                        <option value="-">Sin capa</option>
+                        {groupOptions(undefined, 0)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+}
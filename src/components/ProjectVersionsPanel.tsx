@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { History, Camera, RotateCcw, X, Check } from 'lucide-react';
+import type { ProjectRecord, ProjectVersion } from '../browser';
+
+interface ProjectVersionsPanelProps {
+    project: ProjectRecord | null;
+    versions: ProjectVersion[];
+    lastSavedAt: number | null;
+    error: string | null;
+    onRename: (name: string) => void;
+    onSnapshot: (label: string) => void;
+    onRestore: (version: ProjectVersion) => void;
+    onClose: () => void;
+}
+
+const formatDate = (time: number) =>
+    new Date(time).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'medium' });
+
+// V59: Versions & snapshots of the active library project
+export function ProjectVersionsPanel({ project, versions, lastSavedAt, error, onRename, onSnapshot, onRestore, onClose }: ProjectVersionsPanelProps) {
+    const [label, setLabel] = useState('');
+    const [name, setName] = useState(project?.name || '');
+
+    const handleSnapshot = () => {
+        onSnapshot(label.trim() || `Instantánea ${formatDate(Date.now())}`);
+        setLabel('');
+    };
+
+    return (
+        <div className="absolute right-4 top-[54px] z-[60] w-80 bg-zinc-900/95 backdrop-blur-md border border-zinc-700 rounded-xl shadow-2xl text-xs text-zinc-300">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+                <span className="font-bold text-white flex items-center gap-2"><History className="w-4 h-4" /> Biblioteca local</span>
+                <button onClick={onClose} className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-white">
+                    <X className="w-3 h-3" />
+                </button>
+            </div>
+
+            <div className="p-3 space-y-3">
+                {!project ? (
+                    <p className="text-zinc-500">El diseño se guardará automáticamente en cuanto tenga contornos.</p>
+                ) : (
+                    <>
+                        <div className="flex gap-1">
+                            <input
+                                value={name}
+                                onChange={(e) => setName(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter' && name.trim()) onRename(name.trim()); }}
+                                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                            />
+                            <button
+                                onClick={() => name.trim() && onRename(name.trim())}
+                                disabled={!name.trim() || name.trim() === project.name}
+                                className="px-2 rounded bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40"
+                                title="Renombrar proyecto"
+                            >
+                                <Check className="w-3 h-3" />
+                            </button>
+                        </div>
+
+                        <div className="flex gap-1">
+                            <input
+                                value={label}
+                                onChange={(e) => setLabel(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleSnapshot(); }}
+                                placeholder="Nombre de la instantánea"
+                                className="flex-1 bg-zinc-950 border border-zinc-700 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+                            />
+                            <button
+                                onClick={handleSnapshot}
+                                className="px-2 rounded bg-blue-600 hover:bg-blue-500 text-white flex items-center gap-1"
+                                title="Crear instantánea"
+                            >
+                                <Camera className="w-3 h-3" /> Crear
+                            </button>
+                        </div>
+
+                        <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-1">
+                            {versions.map((version, i) => (
+                                <div key={version.id} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded bg-zinc-950/60 border border-zinc-800">
+                                    <div className="min-w-0">
+                                        <div className={`truncate ${version.kind === 'snapshot' ? 'text-blue-300 font-medium' : 'text-zinc-400'}`}>
+                                            {version.kind === 'snapshot' ? version.label : 'Autoguardado'}
+                                            {i === 0 && <span className="ml-1 text-[9px] text-green-400">(actual)</span>}
+                                        </div>
+                                        <div className="text-[10px] text-zinc-600">{formatDate(version.createdAt)}</div>
+                                    </div>
+                                    {i > 0 && (
+                                        <button
+                                            onClick={() => onRestore(version)}
+                                            className="p-1 rounded hover:bg-white/10 text-zinc-500 hover:text-white shrink-0"
+                                            title="Restaurar esta versión"
+                                        >
+                                            <RotateCcw className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <div className={`text-[10px] ${error ? 'text-red-400' : 'text-zinc-600'}`}>
+                    {error || (lastSavedAt ? `Último guardado: ${formatDate(lastSavedAt)}` : 'Sin guardar todavía')}
+                </div>
+            </div>
+        </div>
+    );
+}
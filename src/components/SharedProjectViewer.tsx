@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Cookie, CopyPlus, Eye, X } from 'lucide-react';
+import { ContourEditor } from './ContourEditor';
+import { Viewer3D } from './Viewer3D';
+import type { CutterPart, DesignState, PartColors } from '../core';
+
+interface SharedProjectViewerProps {
+    name: string;
+    design: DesignState;
+    imageDims: { width: number; height: number };
+    parts: CutterPart[];
+    colors: PartColors;
+    isGenerating: boolean;
+    onDuplicate: () => void;
+    onClose: () => void;
+}
+
+const noop = () => { };
+
+// V61: Read-only view of a design opened from a share link
+export function SharedProjectViewer({ name, design, imageDims, parts, colors, isGenerating, onDuplicate, onClose }: SharedProjectViewerProps) {
+    const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+
+    return (
+        <div className="h-screen bg-black text-stone-200 flex flex-col overflow-hidden">
+            <header className="border-b border-white/5 bg-black/50 backdrop-blur-lg h-[50px] flex items-center shrink-0 px-4 justify-between">
+                <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-7 h-7 bg-white text-black rounded flex items-center justify-center shadow-lg shadow-white/5 shrink-0">
+                        <Cookie className="w-4 h-4 fill-current" />
+                    </div>
+                    <h1 className="text-sm font-bold text-white truncate">{name}</h1>
+                    <span className="text-[9px] bg-amber-500/10 text-amber-300 border border-amber-500/20 px-1.5 py-0.5 rounded font-mono uppercase tracking-wider flex items-center gap-1 shrink-0">
+                        <Eye className="w-3 h-3" /> Solo lectura
+                    </span>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={onDuplicate}
+                        className="text-xs px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white font-medium flex items-center gap-2"
+                    >
+                        <CopyPlus className="w-4 h-4" /> Duplicar en mis proyectos
+                    </button>
+                    <button
+                        onClick={onClose}
+                        className="p-1.5 rounded text-stone-400 hover:text-white hover:bg-white/10"
+                        title="Cerrar enlace compartido"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            </header>
+
+            <main className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2 p-2 min-h-0">
+                <ContourEditor
+                    contours={design.contours}
+                    roles={design.roles}
+                    nodeTypes={design.nodeTypes}
+                    handles={design.handles}
+                    compounds={design.compounds} // V65
+                    items={design.items} // V66: Hidden contours stay hidden
+                    groups={design.groups}
+                    width={imageDims.width}
+                    height={imageDims.height}
+                    selectedIndices={selectedIndices}
+                    onSelectionChange={setSelectedIndices}
+                    onChange={noop}
+                    readOnly
+                />
+                <div className="relative rounded-xl overflow-hidden border border-white/10 bg-zinc-950">
+                    <Viewer3D
+                        parts={parts}
+                        colors={colors}
+                        autoRotate={false}
+                        isEditMode={false}
+                        hiddenPartIds={new Set()}
+                        onTogglePart={noop}
+                        selectedIndices={selectedIndices}
+                        onSelectionChange={setSelectedIndices}
+                        isPreview={true}
+                    />
+                    {isGenerating && (
+                        <div className="absolute bottom-3 left-3 text-[10px] text-stone-400 bg-black/60 px-2 py-1 rounded">Generando 3D…</div>
+                    )}
+                </div>
+            </main>
+        </div>
+    );
+}
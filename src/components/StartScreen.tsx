@@ -1,14 +1,20 @@
-import { Cookie, Key, MousePointer2 } from 'lucide-react';
+import { Cookie, Key, MousePointer2, Trash2, FolderOpen } from 'lucide-react';
+import type { ProjectRecord } from '../browser';
 
 export type AppMode = 'cutter' | 'keychain' | 'free';
 
 interface StartScreenProps {
     onSelectMode: (mode: AppMode) => void;
+    projects?: ProjectRecord[]; // V59: Local library
+    onOpenProject?: (id: string) => void;
+    onDeleteProject?: (id: string) => void;
 }
 
-export function StartScreen({ onSelectMode }: StartScreenProps) {
+const MODE_LABELS: Record<AppMode, string> = { cutter: 'Cortador', keychain: 'Llavero', free: 'Libre' };
+
+export function StartScreen({ onSelectMode, projects = [], onOpenProject, onDeleteProject }: StartScreenProps) {
     return (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-950 text-white p-4">
+        <div className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-10 bg-zinc-950 text-white p-4 overflow-y-auto">
             <div className="max-w-4xl w-full grid grid-cols-1 md:grid-cols-3 gap-6">
 
                 {/* Cutter Mode */}
@@ -54,6 +60,48 @@ export function StartScreen({ onSelectMode }: StartScreenProps) {
                 </button>
 
             </div>
+
+            {/* V59: Project Browser */}
+            {projects.length > 0 && (
+                <div className="max-w-4xl w-full">
+                    <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-3 flex items-center gap-2">
+                        <FolderOpen className="w-4 h-4" /> Proyectos recientes
+                    </h3>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                        {projects.map(project => (
+                            <div
+                                key={project.id}
+                                onClick={() => onOpenProject?.(project.id)}
+                                className="group relative rounded-xl bg-zinc-900 border border-zinc-800 hover:border-blue-500 transition-all cursor-pointer overflow-hidden"
+                            >
+                                <div className="aspect-[4/3] bg-zinc-950 flex items-center justify-center">
+                                    {project.thumbnail
+                                        ? <img src={project.thumbnail} alt="" className="w-full h-full object-contain" />
+                                        : <Cookie className="w-8 h-8 text-zinc-700" />}
+                                </div>
+                                <div className="px-3 py-2">
+                                    <div className="text-sm font-medium truncate">{project.name}</div>
+                                    <div className="text-[10px] text-zinc-500">
+                                        {MODE_LABELS[project.mode]} · {new Date(project.updatedAt).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+                                    </div>
+                                </div>
+                                {onDeleteProject && (
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            if (confirm(`¿Eliminar "${project.name}" y todas sus versiones?`)) onDeleteProject(project.id);
+                                        }}
+                                        className="absolute top-2 right-2 p-1.5 rounded-md bg-black/60 text-zinc-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                        title="Eliminar proyecto"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
     );
 }
@@ -1,56 +1,41 @@
 import { useState, useEffect, useRef } from 'react';
 import { Type, Sparkles } from 'lucide-react';
 import { Slider } from './ui/Slider';
+import { FontPicker } from './FontPicker';
+import { BUNDLED_FONTS, loadFontFace, type FontEntry } from '../browser';
+import { useFontRegistry } from '../hooks/useFontRegistry';
 
 interface TextInputProps {
     onImageGenerated: (image: HTMLImageElement) => void;
 }
 
-// Curated Google Fonts
-const FONTS = [
-    { name: 'Fredoka', family: "'Fredoka', sans-serif", url: 'https://fonts.googleapis.com/css2?family=Fredoka:wght@300..700&display=swap' },
-    { name: 'Pacifico', family: "'Pacifico', cursive", url: 'https://fonts.googleapis.com/css2?family=Pacifico&display=swap' },
-    { name: 'Lobster', family: "'Lobster', cursive", url: 'https://fonts.googleapis.com/css2?family=Lobster&display=swap' },
-    { name: 'Bangers', family: "'Bangers', system-ui", url: 'https://fonts.googleapis.com/css2?family=Bangers&display=swap' },
-    { name: 'Roboto', family: "'Roboto', sans-serif", url: 'https://fonts.googleapis.com/css2?family=Roboto:wght@400;700&display=swap' },
-    { name: 'Dancing Script', family: "'Dancing Script', cursive", url: 'https://fonts.googleapis.com/css2?family=Dancing+Script:wght@400;700&display=swap' },
-    { name: 'Righteous', family: "'Righteous', cursive", url: 'https://fonts.googleapis.com/css2?family=Righteous&display=swap' },
-];
-
 export function TextInput({ onImageGenerated }: TextInputProps) {
     const [text, setText] = useState('Hola');
-    const [fontIndex, setFontIndex] = useState(0);
+    const { fonts, addFonts, removeFont, error: registryError } = useFontRegistry(); // V58
+    const [selectedFont, setSelectedFont] = useState<FontEntry>(BUNDLED_FONTS[0]);
     const [fontSize, setFontSize] = useState(200);
     const [fontWeight, setFontWeight] = useState(700);
     const [isItalic, setIsItalic] = useState(false);
 
-    // Safety delay to ensure font loads
+    // Redraw once the face is actually loaded (canvas doesn't wait for fonts)
     const [fontLoaded, setFontLoaded] = useState<Set<string>>(new Set());
+    const [loadError, setLoadError] = useState<string | null>(null);
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
-    // Load Fonts dynamically
+    // V58: Fonts come from the local registry (bundled or uploaded), no network
     useEffect(() => {
-        FONTS.forEach(font => {
-            if (!document.querySelector(`link[href="${font.url}"]`)) {
-                const link = document.createElement('link');
-                link.href = font.url;
-                link.rel = 'stylesheet';
-                document.head.appendChild(link);
-            }
-        });
-        // Simple timeout to "hope" fonts load, real webfontloader is overkill for now
-        // Usually, the browser will swap. 
-        // We can force a re-render or check document.fonts
-        document.fonts.ready.then(() => {
-            // Trigger redraw
-            setFontLoaded(prev => new Set(prev).add('loaded'));
+        loadFontFace(selectedFont, fontWeight, isItalic).then(() => {
+            setLoadError(null);
+            setFontLoaded(prev => new Set(prev).add(`${selectedFont.id}-${fontWeight}-${isItalic}`));
+        }).catch(err => {
+            setLoadError(err.message);
         });
-    }, []);
+    }, [selectedFont, fontWeight, isItalic]);
 
     useEffect(() => {
         drawPreview();
-    }, [text, fontIndex, fontSize, fontWeight, isItalic, fontLoaded]);
+    }, [text, selectedFont, fontSize, fontWeight, isItalic, fontLoaded]);
 
     const drawPreview = () => {
         const canvas = canvasRef.current;
@@ -67,9 +52,8 @@ export function TextInput({ onImageGenerated }: TextInputProps) {
         ctx.fillRect(0, 0, canvas.width, canvas.height);
 
         // Config
-        const font = FONTS[fontIndex];
         const style = isItalic ? 'italic' : 'normal';
-        ctx.font = `${style} ${fontWeight} ${fontSize}px ${font.family}`;
+        ctx.font = `${style} ${fontWeight} ${fontSize}px ${selectedFont.family}`;
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
         ctx.fillStyle = 'black';
@@ -111,25 +95,25 @@ export function TextInput({ onImageGenerated }: TextInputProps) {
                 </div>
 
                 {/* Font Selector */}
-                <div>
-                    <label className="text-xs text-gray-400 block mb-2">Tipografía</label>
-                    <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto pr-1 custom-scrollbar">
-                        {FONTS.map((font, i) => (
-                            <button
-                                key={font.name}
-                                onClick={() => setFontIndex(i)}
-                                className={`px-3 py-2 rounded-lg text-lg transition-all border text-left truncate
-                                ${fontIndex === i
-                                        ? 'bg-blue-600 border-blue-400 text-white'
-                                        : 'bg-white/5 border-white/5 hover:bg-white/10 text-gray-300'
-                                    }`}
-                                style={{ fontFamily: font.family }}
-                            >
-                                {font.name}
-                            </button>
-                        ))}
+                <FontPicker
+                    fonts={fonts}
+                    selectedId={selectedFont.id}
+                    onSelect={setSelectedFont}
+                    onUpload={async (files) => {
+                        const added = await addFonts(files);
+                        if (added.length > 0) setSelectedFont(added[added.length - 1]);
+                    }}
+                    onRemove={async (id) => {
+                        await removeFont(id);
+                        if (selectedFont.id === id) setSelectedFont(BUNDLED_FONTS[0]);
+                    }}
+                    previewText={text}
+                />
+                {(loadError || registryError) && (
+                    <div className="text-xs text-red-400 px-2 py-1 bg-red-900/20 rounded border border-red-900/50">
+                        {loadError || registryError}
                     </div>
-                </div>
+                )}
 
                 {/* Style Controls */}
                 <div className="flex gap-4">
@@ -1,85 +1,85 @@
-import { useState, useEffect, useRef } from 'react';
-import { Type, X, Check } from 'lucide-react';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Type, X, AlignLeft, AlignCenter, AlignRight } from 'lucide-react';
 import * as THREE from 'three';
-import { processImage } from '../core/image-processing';
-
-// ------------------------------------------------------------------
-// Font Library (Curated for Cutting)
-// ------------------------------------------------------------------
-const GOOGLE_FONTS = [
-    // Scripts (Great for Names)
-    { name: 'Pacifico', family: "'Pacifico', cursive", category: 'Script' },
-    { name: 'Lobster', family: "'Lobster', cursive", category: 'Script' },
-    { name: 'Dancing Script', family: "'Dancing Script', cursive", category: 'Script' },
-    { name: 'Great Vibes', family: "'Great Vibes', cursive", category: 'Script' },
-    { name: 'Satisfy', family: "'Satisfy', cursive", category: 'Script' },
-    { name: 'Cookie', family: "'Cookie', cursive", category: 'Script' },
-    { name: 'Sacramento', family: "'Sacramento', cursive", category: 'Script' },
-
-    // Rounded / Friendly (Great for Kids)
-    { name: 'Fredoka', family: "'Fredoka', sans-serif", category: 'Rounded' },
-    { name: 'Varela Round', family: "'Varela Round', sans-serif", category: 'Rounded' },
-    { name: 'Sniglet', family: "'Sniglet', system-ui", category: 'Rounded' },
-    { name: 'Chewy', family: "'Chewy', system-ui", category: 'Fun' },
-
-    // Bold / Display (Easy to Cut)
-    { name: 'Bangers', family: "'Bangers', system-ui", category: 'Display' },
-    { name: 'Luckiest Guy', family: "'Luckiest Guy', cursive", category: 'Display' },
-    { name: 'Carter One', family: "'Carter One', system-ui", category: 'Display' },
-    { name: 'Oswald', family: "'Oswald', sans-serif", category: 'Sans' },
-    { name: 'Anton', family: "'Anton', sans-serif", category: 'Sans' },
-    { name: 'Black Ops One', family: "'Black Ops One', system-ui", category: 'Display' },
-
-    // Classic
-    { name: 'Roboto', family: "'Roboto', sans-serif", category: 'Sans' },
-    { name: 'Montserrat', family: "'Montserrat', sans-serif", category: 'Sans' },
-    { name: 'Playfair Display', family: "'Playfair Display', serif", category: 'Serif' },
-    { name: 'Abril Fatface', family: "'Abril Fatface', serif", category: 'Serif' },
-    { name: 'Righteous', family: "'Righteous', cursive", category: 'Modern' },
-    { name: 'Orbitron', family: "'Orbitron', sans-serif", category: 'Modern' },
-];
+import { DEFAULT_TEXT_LAYOUT, textToDesign, type Font, type TextAlign, type DesignState } from '../core';
+import { processImage, BUNDLED_FONTS, loadFontFace, resolveOutlineFont, type FontEntry } from '../browser';
+import { useFontRegistry } from '../hooks/useFontRegistry';
+import { FontPicker } from './FontPicker';
+
+const drawDesign = (ctx: CanvasRenderingContext2D, design: DesignState) => {
+    const path = new Path2D();
+    design.contours.forEach((contour, i) => {
+        const handles = design.handles?.[i] || [];
+        contour.forEach((p, j) => {
+            if (j === 0) {
+                path.moveTo(p.x, p.y);
+                return;
+            }
+            const prev = contour[j - 1];
+            const out = handles[j - 1]?.out, inH = handles[j]?.in;
+            path.bezierCurveTo(prev.x + (out?.x || 0), prev.y + (out?.y || 0), p.x + (inH?.x || 0), p.y + (inH?.y || 0), p.x, p.y);
+        });
+        const last = contour[contour.length - 1], first = contour[0];
+        const out = handles[contour.length - 1]?.out, inH = handles[0]?.in;
+        path.bezierCurveTo(last.x + (out?.x || 0), last.y + (out?.y || 0), first.x + (inH?.x || 0), first.y + (inH?.y || 0), first.x, first.y);
+        path.closePath();
+    });
+    ctx.fill(path, 'nonzero');
+};
 
 interface TextToolPanelProps {
-    onAdd: (contours: THREE.Vector2[][]) => void;
+    onAdd: (design: DesignState) => void;
     onClose: () => void;
 }
 
 export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
     const [text, setText] = useState('Hola');
-    const [selectedFont, setSelectedFont] = useState(GOOGLE_FONTS[0]);
+    const { fonts, addFonts, removeFont, error: registryError } = useFontRegistry(); // V58
+    const [selectedFont, setSelectedFont] = useState<FontEntry>(BUNDLED_FONTS[0]);
     const [isBold, setIsBold] = useState(false);
     const [isItalic, setIsItalic] = useState(false);
     const [fontSize, setFontSize] = useState(150); // Internal render size
+    const [letterSpacing, setLetterSpacing] = useState(0);
+    const [lineHeight, setLineHeight] = useState(DEFAULT_TEXT_LAYOUT.lineHeight);
+    const [align, setAlign] = useState<TextAlign>('center');
+    const [kerning, setKerning] = useState(true);
+    const [outline, setOutline] = useState<{ font: Font, skew: number } | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [loadError, setLoadError] = useState<string | null>(null);
 
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const previewCanvasRef = useRef<HTMLCanvasElement>(null);
 
-    // 1. Load Font
+    // V57: Outlines for the current font/variant (null = raster fallback)
     useEffect(() => {
-        const linkId = `font-${selectedFont.name.replace(/\s+/g, '-')}`;
-        if (!document.getElementById(linkId)) {
-            const link = document.createElement('link');
-            link.id = linkId;
-            link.rel = 'stylesheet';
-            link.href = `https://fonts.googleapis.com/css2?family=${selectedFont.name.replace(/\s+/g, '+')}:wght@400;700&display=swap`;
-            document.head.appendChild(link);
-        }
-        // Force refresh after a tick to allow font logic to pick it up (imperfect but works generally)
-        document.fonts.load(`100px ${selectedFont.family}`).then(() => {
+        let cancelled = false;
+        setOutline(null);
+        resolveOutlineFont(selectedFont, isBold, isItalic).then(result => {
+            if (!cancelled) setOutline(result);
+        });
+        return () => { cancelled = true; };
+    }, [selectedFont, isBold, isItalic]);
+
+    const outlineDesign = useMemo(() => {
+        if (!outline || !text.trim()) return null;
+        return textToDesign(outline.font, text, { fontSize, letterSpacing, lineHeight, align, kerning, italicSkew: outline.skew });
+    }, [outline, text, fontSize, letterSpacing, lineHeight, align, kerning]);
+
+    // 1. Load Font (V58: bundled or uploaded, no network)
+    useEffect(() => {
+        loadFontFace(selectedFont, isBold ? 700 : 400, isItalic).then(() => {
+            setLoadError(null);
             updatePreview();
-        }).catch(() => {
-            // Fallback refresh
-            setTimeout(updatePreview, 500);
+        }).catch(err => {
+            setLoadError(err.message);
         });
-    }, [selectedFont]);
+    }, [selectedFont, isBold, isItalic]);
 
     // 2. Update Preview
     useEffect(() => {
         const timer = setTimeout(updatePreview, 50);
         return () => clearTimeout(timer);
-    }, [text, selectedFont, isBold, isItalic, fontSize]);
+    }, [text, selectedFont, isBold, isItalic, fontSize, letterSpacing, lineHeight, align, outlineDesign]);
 
     const updatePreview = () => {
         if (!canvasRef.current || !previewCanvasRef.current) return;
@@ -100,12 +100,30 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
 
         // Text
         ctx.fillStyle = '#000000';
-        ctx.textAlign = 'center';
-        ctx.textBaseline = 'middle';
-        const weight = isBold ? 'bold' : 'normal';
-        const style = isItalic ? 'italic' : 'normal';
-        ctx.font = `${style} ${weight} ${fontSize * 2}px ${selectedFont.family}`;
-        ctx.fillText(text, W / 2, H / 2);
+        if (outlineDesign) {
+            // V57: Preview the exact outlines that will be added (same 2x scale as the raster)
+            ctx.save();
+            ctx.translate(W / 2, H / 2);
+            ctx.scale(2, 2);
+            drawDesign(ctx, outlineDesign);
+            ctx.restore();
+        } else {
+            const lines = text.split('\n');
+            const step = fontSize * 2 * lineHeight;
+            ctx.textAlign = align;
+            ctx.textBaseline = 'middle';
+            const weight = isBold ? 'bold' : 'normal';
+            const style = isItalic ? 'italic' : 'normal';
+            ctx.font = `${style} ${weight} ${fontSize * 2}px ${selectedFont.family}`;
+            ctx.letterSpacing = `${letterSpacing / 1000 * fontSize * 2}px`;
+
+            // Align each line against a common edge, then center the block
+            const widest = Math.max(...lines.map(line => ctx.measureText(line).width));
+            const x = align === 'left' ? (W - widest) / 2 : align === 'right' ? (W + widest) / 2 : W / 2;
+            lines.forEach((line, i) => {
+                ctx.fillText(line, x, H / 2 + (i - (lines.length - 1) / 2) * step);
+            });
+        }
 
         // Copy to small preview canvas
         const pCtx = previewCanvasRef.current.getContext('2d');
@@ -120,12 +138,34 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
         }
     };
 
+    const handleFontUpload = async (files: File[]) => {
+        const added = await addFonts(files);
+        if (added.length > 0) setSelectedFont(added[added.length - 1]);
+    };
+
+    const handleFontRemove = async (id: string) => {
+        await removeFont(id);
+        if (selectedFont.id === id) setSelectedFont(BUNDLED_FONTS[0]);
+    };
+
     const handleAdd = async () => {
         if (!text.trim()) return;
         setIsLoading(true);
         setLoadError(null);
 
         try {
+            // V57: Exact outlines when the font file is available
+            if (outlineDesign) {
+                if (outlineDesign.contours.length === 0) {
+                    setLoadError("La fuente no tiene contornos para este texto.");
+                    return;
+                }
+                onAdd(outlineDesign);
+                setText('');
+                return;
+            }
+
+            // Fallback: rasterize and trace
             // 1. Get image from canvas
             // We can use the canvas directly via a dataURL to create an Image object for `processImage`
             const dataUrl = canvasRef.current?.toDataURL('image/png');
@@ -149,38 +189,25 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
 
             if (result.contours.length === 0) {
                 setLoadError("No se detectó texto. Intenta aumentar el tamaño.");
-                setIsLoading(false);
                 return;
             }
 
-            // 3. Center and Scale
-            // The result is in 2048x2048 space. We want it in "View Space".
-            // Let's assume view space units ~ 100-500px typically.
-            // We want the text to appear "normal size" (e.g. 100px height).
-            // We'll calculate the bbox of the scanned text and center it.
-
+            // 3. Center
+            // The result is in 2048x2048 space, keeping 1:1 pixel scale from the
+            // input size (fontSize * 2). We center it on (0,0) so the caller can
+            // place it in the view center.
             const rawContours = result.contours;
-            // Calculate BBox of raw contours
             const bbox = new THREE.Box2();
             rawContours.flat().forEach(p => bbox.expandByPoint(p));
 
             const center = new THREE.Vector2();
             bbox.getCenter(center);
 
-            // Re-center to (0,0) so we can place it in view center later (caller handles offset)
             const centeredContours = rawContours.map(c =>
                 c.map(p => p.clone().sub(center))
             );
 
-            // Scale down? The canvas was 2048. If text filled 1000px, that's huge.
-            // Let's standardise: Scale so height is approx 100 units?
-            // Or just leave as is. 1 unit = 1 pixel usually.
-            // Code in Contour Editor usually handles 'view' units.
-            // Let's scale it slightly down if it's massive.
-            // ... Actually keeping 1:1 pixel scale from the input size (fontSize * 2) is predictable.
-            // If user selected size 150, text is ~300px high. That's a good size.
-
-            onAdd(centeredContours);
+            onAdd({ contours: centeredContours, roles: centeredContours.map(() => 'auto') });
             setText(''); // Reset or Keep? Usually better to keep for multi-add
             // onClose(); // Optional: Close on add? Maybe keep open for adding multiple words.
             // User can close manually.
@@ -222,18 +249,15 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
 
                 {/* 2. Font Picker */}
                 <div className="space-y-1">
-                    <label className="text-xs text-slate-400 font-medium">Tipografía ({GOOGLE_FONTS.length})</label>
-                    <div className="h-40 overflow-y-auto border border-slate-700 rounded-lg bg-slate-950 custom-scrollbar p-1 space-y-1">
-                        {GOOGLE_FONTS.map(font => (
-                            <button
-                                key={font.name}
-                                onClick={() => setSelectedFont(font)}
-                                className={`w-full text-left px-3 py-2 rounded flex items-center justify-between group transition-colors ${selectedFont.name === font.name ? 'bg-purple-600 text-white' : 'hover:bg-slate-800 text-slate-300'}`}
-                            >
-                                <span style={{ fontFamily: font.family }} className="text-lg">{font.name}</span>
-                                {selectedFont.name === font.name && <Check className="w-3 h-3" />}
-                            </button>
-                        ))}
+                    <FontPicker
+                        fonts={fonts}
+                        selectedId={selectedFont.id}
+                        onSelect={setSelectedFont}
+                        onUpload={handleFontUpload}
+                        onRemove={handleFontRemove}
+                    />
+                    <div className="text-[10px] text-slate-500">
+                        {outline ? 'Contornos vectoriales exactos' : 'Variante sin contornos: se trazará la imagen'}
                     </div>
                 </div>
 
@@ -251,6 +275,16 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
                     >
                         I
                     </button>
+                    {/* V57: Line alignment */}
+                    {([['left', AlignLeft], ['center', AlignCenter], ['right', AlignRight]] as const).map(([value, Icon]) => (
+                        <button
+                            key={value}
+                            onClick={() => setAlign(value)}
+                            className={`flex-1 py-1.5 rounded border flex items-center justify-center ${align === value ? 'bg-white text-slate-900 border-white' : 'bg-transparent text-slate-400 border-slate-700 hover:border-slate-500'}`}
+                        >
+                            <Icon className="w-3.5 h-3.5" />
+                        </button>
+                    ))}
                 </div>
 
                 <div className="space-y-1">
@@ -268,6 +302,50 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
                     />
                 </div>
 
+                {/* V57: Spacing */}
+                <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-slate-400">
+                        <span>Espaciado</span>
+                        <span>{letterSpacing}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="-100"
+                        max="400"
+                        step="10"
+                        value={letterSpacing}
+                        onChange={e => setLetterSpacing(Number(e.target.value))}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    />
+                </div>
+
+                <div className="space-y-1">
+                    <div className="flex justify-between text-xs text-slate-400">
+                        <span>Interlineado</span>
+                        <span>{lineHeight.toFixed(1)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0.7"
+                        max="2.5"
+                        step="0.1"
+                        value={lineHeight}
+                        onChange={e => setLineHeight(Number(e.target.value))}
+                        className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+                    />
+                </div>
+
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={kerning}
+                        onChange={e => setKerning(e.target.checked)}
+                        disabled={!outline}
+                        className="accent-purple-500"
+                    />
+                    Kerning de la fuente
+                </label>
+
                 {/* 4. Preview */}
                 <div className="space-y-1">
                     <label className="text-xs text-slate-400 font-medium">Vista Previa</label>
@@ -276,9 +354,9 @@ export function TextToolPanel({ onAdd, onClose }: TextToolPanelProps) {
                     </div>
                 </div>
 
-                {loadError && (
+                {(loadError || registryError) && (
                     <div className="text-xs text-red-400 px-2 py-1 bg-red-900/20 rounded border border-red-900/50">
-                        {loadError}
+                        {loadError || registryError}
                     </div>
                 )}
 
@@ -1,13 +1,15 @@
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, GizmoHelper, GizmoViewport, TransformControls, Grid, Environment, ContactShadows } from '@react-three/drei';
-import type { CutterPart } from '../core/geometry-generator';
+import { getPartColor, type CutterPart, type PartColors } from '../core';
 import { useState, useEffect } from 'react';
 import * as THREE from 'three';
 import { Move, RotateCw, Trash2, MousePointer2, Scaling, Settings, Undo2, Redo2 } from 'lucide-react';
 
+const FLAGGED_COLOR = '#f43f5e'; // V52: Manufacturability issue
+
 interface Viewer3DProps {
     parts: CutterPart[];
-    colors: { baseColor: string; outerColor: string; innerColor: string };
+    colors: PartColors;
     autoRotate: boolean;
     isEditMode: boolean;
     hiddenPartIds: Set<string>;
@@ -21,9 +23,10 @@ interface Viewer3DProps {
     isPreview?: boolean; // V44
     onUndo?: () => void;
     onRedo?: () => void;
+    highlightedPartIds?: Set<string>; // V52: Parts flagged by the export report
 }
 
-export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds, onTogglePart, selectedIndices, onSelectionChange, onTransformPart, onDeleteParts, isPreview = false, onUndo, onRedo }: Viewer3DProps) {
+export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds, onTogglePart, selectedIndices, onSelectionChange, onTransformPart, onDeleteParts, isPreview = false, onUndo, onRedo, highlightedPartIds }: Viewer3DProps) {
     const [hoveredId, setHoveredId] = useState<string | null>(null);
     const [tool, setTool] = useState<'select' | 'translate' | 'rotate' | 'scale'>('select');
 
@@ -103,16 +106,6 @@ export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds,
         }
     }, [selectedIndices.size]);
 
-    const getColor = (type: string) => {
-        switch (type) {
-            case 'base': return colors.baseColor;
-            case 'outer': return colors.outerColor;
-            case 'inner': return colors.innerColor;
-            case 'handle': return '#f59e0b'; // Amber for handle
-            default: return '#ffffff';
-        }
-    };
-
     return (
         <div className={`bg-gray-900 overflow-hidden shadow-2xl relative border border-white/10 transition-colors duration-300 w-full h-full rounded-xl
             ${isEditMode ? 'border-red-500/50 shadow-red-900/10' : ''}`}
@@ -414,11 +407,14 @@ export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds,
                         {parts.map(part => {
                             const isHidden = hiddenPartIds.has(part.id);
                             const isHovered = hoveredId === part.id;
-                            const isSelected = selectedIndices.has(part.contourIndex);
-                            const baseColor = getColor(part.type);
+                            // V67: Parts without a main source (global base) follow all of their sources
+                            const sources = part.contourIndex >= 0 ? [part.contourIndex] : part.sourceIndices ?? [];
+                            const isSelected = sources.length > 0 && sources.every(i => selectedIndices.has(i));
+                            const baseColor = getPartColor(part.type, colors);
 
                             // Highlight Logic (V44)
                             const showHighlight = isSelected && highlightEnabled;
+                            const isFlagged = highlightedPartIds?.has(part.id) ?? false; // V52
 
                             // If not edit mode and hidden, don't render
                             if (!isEditMode && isHidden) return null;
@@ -438,14 +434,13 @@ export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds,
                                             onTogglePart(part.id);
                                         } else {
                                             e.stopPropagation();
-                                            const idx = part.contourIndex;
-                                            if (idx < 0) return;
+                                            if (sources.length === 0) return;
 
                                             const newSet = new Set(e.shiftKey ? selectedIndices : []);
-                                            if (e.shiftKey && selectedIndices.has(idx)) {
-                                                newSet.delete(idx);
+                                            if (e.shiftKey && isSelected) {
+                                                sources.forEach(i => newSet.delete(i));
                                             } else {
-                                                newSet.add(idx);
+                                                sources.forEach(i => newSet.add(i));
                                             }
                                             onSelectionChange(newSet);
                                         }
@@ -475,10 +470,10 @@ export function Viewer3D({ parts, colors, autoRotate, isEditMode, hiddenPartIds,
                                         )
                                     ) : (
                                         <meshStandardMaterial
-                                            color={showHighlight ? highlightColor : baseColor}
+                                            color={isFlagged ? FLAGGED_COLOR : showHighlight ? highlightColor : baseColor}
                                             roughness={typeToRoughness(part.type)}
-                                            emissive={showHighlight ? highlightColor : '#000000'}
-                                            emissiveIntensity={showHighlight ? 0.5 : 0}
+                                            emissive={isFlagged ? FLAGGED_COLOR : showHighlight ? highlightColor : '#000000'}
+                                            emissiveIntensity={isFlagged || showHighlight ? 0.5 : 0}
                                         />
                                     )}
                                 </mesh>
@@ -0,0 +1,158 @@
+import * as THREE from 'three';
+import type { DesignState } from './design-state';
+import type { CutterPart } from './geometry-generator';
+
+// V68: Batch Generation
+// Helpers for turning a folder of images or a list of names into one model
+// each: parsing the list, framing text designs, naming the output files and
+// writing the summary sheet. The queue itself lives in useBatchProcessor.
+
+export interface NameEntry {
+    text: string;
+    fileName?: string; // Optional second column
+}
+
+const HEADER_NAMES = ['nombre', 'name', 'texto', 'text'];
+
+const splitCsvRows = (input: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (quoted) {
+            if (ch === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"' && cell.trim() === '') {
+            quoted = true;
+            cell = '';
+        } else if (ch === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+    return rows;
+};
+
+/**
+ * Reads one name per row (plain lines or CSV). The first column is the text,
+ * an optional second column the file name. Quoted cells may contain line
+ * breaks (multi-line text); a "nombre"/"name" header row is skipped.
+ */
+export const parseNameList = (input: string): NameEntry[] => {
+    const firstLine = input.split(/\r?\n/, 1)[0];
+    const delimiter = firstLine.includes(';') ? ';' : firstLine.includes('\t') ? '\t' : ',';
+    const rows = splitCsvRows(input, delimiter)
+        .map(cells => cells.map(c => c.trim()))
+        .filter(cells => cells[0]);
+
+    if (rows.length > 0 && HEADER_NAMES.includes(rows[0][0].toLowerCase())) rows.shift();
+    return rows.map(([text, fileName]) => ({ text, fileName: fileName || undefined }));
+};
+
+/**
+ * Moves a design (e.g. text centered on the origin) into a canvas of its own
+ * with some padding around it, as if it had been traced from an image.
+ */
+export const frameDesign = (design: DesignState, padding: number): DesignState & { width: number, height: number } => {
+    const box = new THREE.Box2();
+    design.contours.forEach(c => c.forEach(p => box.expandByPoint(p)));
+    if (box.isEmpty()) return { ...design, width: 2 * padding, height: 2 * padding };
+
+    const offset = new THREE.Vector2(padding - box.min.x, padding - box.min.y);
+    return {
+        ...design,
+        contours: design.contours.map(c => c.map(p => p.clone().add(offset))),
+        width: Math.ceil(box.max.x - box.min.x + 2 * padding),
+        height: Math.ceil(box.max.y - box.min.y + 2 * padding)
+    };
+};
+
+/**
+ * Safe, unique file names (without extension). Accents are dropped and
+ * repeated names get a numeric suffix.
+ */
+export const uniqueFileNames = (names: string[], fallback: string = 'modelo'): string[] => {
+    const used = new Set<string>();
+    return names.map(name => {
+        const base = name
+            .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+            .replace(/[^a-zA-Z0-9_-]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .toLowerCase()
+            .slice(0, 60) || fallback;
+        let candidate = base;
+        for (let n = 2; used.has(candidate); n++) candidate = `${base}-${n}`;
+        used.add(candidate);
+        return candidate;
+    });
+};
+
+/**
+ * Size of the model in mm (X, Y, Z), from the part geometries.
+ */
+export const partsSize = (parts: CutterPart[]): { x: number, y: number, z: number } => {
+    const box = new THREE.Box3();
+    parts.forEach(part => {
+        part.geometry.computeBoundingBox();
+        if (part.geometry.boundingBox) box.union(part.geometry.boundingBox);
+    });
+    if (box.isEmpty()) return { x: 0, y: 0, z: 0 };
+    const size = box.getSize(new THREE.Vector3());
+    return { x: size.x, y: size.y, z: size.z };
+};
+
+export interface BatchSummaryRow {
+    file: string;
+    source: string; // Image name or text
+    status: string;
+    contours: number;
+    parts: number;
+    size?: { x: number, y: number, z: number };
+    error?: string;
+}
+
+const csvCell = (value: string | number): string => {
+    const text = String(value);
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const mm = (value: number) => value.toFixed(1).replace('.', ',');
+
+/**
+ * Summary sheet for the zip (CSV, semicolon separated with decimal commas so
+ * spreadsheets in Spanish locales open it in columns, as numbers).
+ */
+export const buildBatchSummary = (rows: BatchSummaryRow[]): string => {
+    const header = ['archivo', 'origen', 'estado', 'contornos', 'piezas', 'ancho_mm', 'alto_mm', 'altura_mm', 'error'];
+    const lines = rows.map(row => [
+        row.file,
+        row.source,
+        row.status,
+        row.contours,
+        row.parts,
+        row.size ? mm(row.size.x) : '',
+        row.size ? mm(row.size.y) : '',
+        row.size ? mm(row.size.z) : '',
+        row.error || ''
+    ].map(csvCell).join(';'));
+    return [header.join(';'), ...lines].join('\r\n') + '\r\n';
+};
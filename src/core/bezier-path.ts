@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import { sampleBezierPath, type NodeType } from './curve-utils';
+import type { ContourHandle, ContourRole, DesignState } from './design-state';
+
+// V57: Bezier subpaths shared by the vector importers (SVG, font outlines).
+// Control points stay absolute while building; conversion to the editor model
+// (relative handles, node types, 'void' holes) happens once at the end.
+
+const EPSILON = 1e-6;
+
+export type FillRule = 'nonzero' | 'evenodd';
+
+export interface PathNode {
+    pos: THREE.Vector2;
+    handleIn: THREE.Vector2 | null; // Absolute control point
+    handleOut: THREE.Vector2 | null;
+}
+
+export type Subpath = PathNode[];
+
+export class SubpathBuilder {
+    subpaths: Subpath[] = [];
+    private current: Subpath | null = null;
+
+    moveTo(p: THREE.Vector2) {
+        this.close();
+        this.current = [{ pos: p.clone(), handleIn: null, handleOut: null }];
+    }
+
+    lineTo(p: THREE.Vector2) {
+        if (!this.current) this.moveTo(p);
+        else this.current.push({ pos: p.clone(), handleIn: null, handleOut: null });
+    }
+
+    cubicTo(c1: THREE.Vector2, c2: THREE.Vector2, p: THREE.Vector2) {
+        if (!this.current) this.moveTo(c1);
+        const last = this.current![this.current!.length - 1];
+        last.handleOut = c1.clone();
+        this.current!.push({ pos: p.clone(), handleIn: c2.clone(), handleOut: null });
+    }
+
+    // Exact degree elevation of a quadratic segment
+    quadTo(q: THREE.Vector2, p: THREE.Vector2) {
+        if (!this.current) this.moveTo(q);
+        const from = this.current![this.current!.length - 1].pos;
+        this.cubicTo(
+            from.clone().add(q.clone().sub(from).multiplyScalar(2 / 3)),
+            p.clone().add(q.clone().sub(p).multiplyScalar(2 / 3)),
+            p
+        );
+    }
+
+    // Every subpath is treated as closed: a cutter needs a loop
+    close() {
+        const sp = this.current;
+        this.current = null;
+        if (!sp) return;
+        if (sp.length > 1 && sp[0].pos.distanceTo(sp[sp.length - 1].pos) < EPSILON) {
+            const last = sp.pop()!;
+            sp[0].handleIn = last.handleIn;
+        }
+        if (sp.length >= 2) this.subpaths.push(sp);
+    }
+}
+
+// Winding number of a closed polyline around p (positive-area loops count +1)
+const windingNumber = (p: THREE.Vector2, polygon: THREE.Vector2[]) => {
+    let winding = 0;
+    for (let i = 0; i < polygon.length; i++) {
+        const a = polygon[i], b = polygon[(i + 1) % polygon.length];
+        const side = (b.x - a.x) * (p.y - a.y) - (p.x - a.x) * (b.y - a.y);
+        if (a.y <= p.y) {
+            if (b.y > p.y && side > 0) winding++;
+        } else if (b.y <= p.y && side < 0) {
+            winding--;
+        }
+    }
+    return winding;
+};
+
+/**
+ * A subpath is a hole when the region around it is filled by the other
+ * subpaths of the same element, and its own winding empties it.
+ */
+const detectHoles = (polylines: THREE.Vector2[][], fillRule: FillRule): boolean[] =>
+    polylines.map((poly, i) => {
+        const probe = poly[0];
+        let others = 0;
+        polylines.forEach((other, j) => {
+            if (j !== i) others += windingNumber(probe, other);
+        });
+        if (fillRule === 'evenodd') return Math.abs(others) % 2 === 1;
+
+        const own = THREE.ShapeUtils.area(poly) > 0 ? 1 : -1;
+        return others !== 0 && others + own === 0;
+    });
+
+const isSmooth = (handle: ContourHandle) => {
+    if (handle.in.lengthSq() < EPSILON || handle.out.lengthSq() < EPSILON) return false;
+    const cross = handle.in.x * handle.out.y - handle.in.y * handle.out.x;
+    return Math.abs(cross) < 1e-3 * handle.in.length() * handle.out.length() && handle.in.dot(handle.out) < 0;
+};
+
+/**
+ * Converts the closed subpaths of one filled shape into editor contours.
+ * Degenerate subpaths (no area) are dropped.
+ */
+export const subpathsToDesign = (subpaths: Subpath[], fillRule: FillRule): DesignState => {
+    // Relative handles, as the editor stores them
+    const handleSets = subpaths.map(sp => sp.map(n => {
+        const handleIn = n.handleIn ? n.handleIn.clone().sub(n.pos) : new THREE.Vector2();
+        const handleOut = n.handleOut ? n.handleOut.clone().sub(n.pos) : new THREE.Vector2();
+        return handleIn.lengthSq() < EPSILON && handleOut.lengthSq() < EPSILON ? null : { in: handleIn, out: handleOut };
+    }));
+
+    const polylines = subpaths.map((sp, i) => sampleBezierPath(sp.map((n, j) => ({
+        pos: n.pos,
+        handleIn: handleSets[i][j]?.in || new THREE.Vector2(),
+        handleOut: handleSets[i][j]?.out || new THREE.Vector2(),
+        type: 'corner' as const
+    })), true));
+    const holes = detectHoles(polylines, fillRule);
+
+    const design: DesignState = { contours: [], roles: [], nodeTypes: [], handles: [] };
+    subpaths.forEach((sp, i) => {
+        if (Math.abs(THREE.ShapeUtils.area(polylines[i])) < EPSILON) return; // Degenerate (e.g. a straight polyline)
+        const handles = handleSets[i];
+        design.contours.push(sp.map(n => n.pos));
+        design.roles.push((holes[i] ? 'void' : 'auto') as ContourRole);
+        design.handles!.push(handles);
+        design.nodeTypes!.push(handles.map(h => (h && isSmooth(h) ? 'smooth' : 'corner') as NodeType));
+    });
+    return design;
+};
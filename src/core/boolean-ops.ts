@@ -1,5 +1,6 @@
 import * as martinez from 'martinez-polygon-clipping';
 import * as THREE from 'three';
+import type { ContourRole } from './design-state';
 
 // Martinez expects coordinates as [number, number]
 type Point = [number, number];
@@ -7,9 +8,8 @@ type Ring = Point[];
 type Polygon = Ring[];
 type MultiPolygon = Polygon[];
 
-// Helper to convert THREE.Vector2[] to Martinez Polygon (single ring for now)
-// We assume simple contours without holes for the input for simplicity in this version,
-// or we treat them as separate polygons.
+// Helper to convert THREE.Vector2[] to Martinez Polygon (single ring).
+// Holes are appended as extra rings by operandToMartinez.
 function toMartinez(contour: THREE.Vector2[]): Polygon {
     const ring: Ring = contour.map(p => [p.x, p.y]);
     if (ring.length > 0) {
@@ -23,60 +23,155 @@ function toMartinez(contour: THREE.Vector2[]): Polygon {
     return [ring];
 }
 
-// Helper to convert Martinez result back to THREE.Vector2[][]
-// The result might be a MultiPolygon (multiple disjoint shapes) or Polygon (shape with holes)
-// For our App, we treat "HOLES" as shapes with 'stamp' role? 
-// OR we flatten everything into simple contours and let the user decide roles?
-// For V34, simple approach: Flatten everything to array of contours. 
-// Note: Holes in Martinez are inner rings.
-// Our app supports "contours" which can be anything. 
-// If we return holes as separate contours, they will be extruded as separate solids unless we classify them.
-// For now, we returns all rings as separate contours.
-function fromMartinez(geom: Polygon | MultiPolygon): THREE.Vector2[][] {
-    const contours: THREE.Vector2[][] = [];
+// V63: Shapes with holes. Martinez returns every polygon as [outer, ...holes],
+// so the nesting is kept instead of flattening all rings into separate contours.
+export interface PolygonWithHoles {
+    outer: THREE.Vector2[];
+    holes: THREE.Vector2[][];
+}
 
-    const processPolygon = (poly: Polygon) => {
-        poly.forEach(ring => {
-            // Convert ring to Vector2[]
-            // Remove last point if it duplicates first (Martinez closes rings)
-            const points = ring.map(p => new THREE.Vector2(p[0], p[1]));
-            if (points.length > 3 && points[0].distanceTo(points[points.length - 1]) < 0.001) {
-                points.pop();
-            }
-            if (points.length >= 3) {
-                contours.push(points);
-            }
-        });
-    };
-
-    if (Array.isArray(geom) && geom.length > 0 && Array.isArray(geom[0]) && Array.isArray(geom[0][0])) {
-        // It's a MultiPolygon
-        (geom as MultiPolygon).forEach(processPolygon);
-    } else {
-        // It's a Polygon
-        processPolygon(geom as Polygon);
+export type BooleanOperation = 'union' | 'diff' | 'intersection' | 'xor';
+
+// A plain contour, one shape with holes, or several shapes (e.g. a previous result)
+export type BooleanOperand = THREE.Vector2[] | PolygonWithHoles | PolygonWithHoles[];
+
+const polygonToMartinez = (polygon: PolygonWithHoles): Polygon =>
+    [...toMartinez(polygon.outer), ...polygon.holes.map(h => toMartinez(h)[0])];
+
+const operandToMartinez = (operand: BooleanOperand): Polygon | MultiPolygon =>
+    toPolygons(operand).map(polygonToMartinez);
+
+// Remove last point if it duplicates first (Martinez closes rings)
+function ringToContour(ring: Ring): THREE.Vector2[] {
+    const points = ring.map(p => new THREE.Vector2(p[0], p[1]));
+    if (points.length > 3 && points[0].distanceTo(points[points.length - 1]) < 0.001) {
+        points.pop();
+    }
+    return points;
+}
+
+function fromMartinez(geom: Geometry | null): PolygonWithHoles[] {
+    if (!geom || geom.length === 0) return [];
+
+    const polygons: Polygon[] = Array.isArray(geom[0][0][0]) ? geom as MultiPolygon : [geom as Polygon];
+    const result: PolygonWithHoles[] = [];
+    polygons.forEach(([outerRing, ...holeRings]) => {
+        const outer = ringToContour(outerRing);
+        if (outer.length < 3) return;
+        result.push({ outer, holes: holeRings.map(ringToContour).filter(h => h.length >= 3) });
+    });
+    return result;
+}
+
+type Geometry = Polygon | MultiPolygon;
+
+const OPERATIONS: Record<BooleanOperation, (s: Geometry, c: Geometry) => Geometry | null> = {
+    union: martinez.union,
+    diff: martinez.diff,
+    intersection: martinez.intersection,
+    xor: martinez.xor
+};
+
+/**
+ * Normalizes any operand to a list of shapes (no clipping involved).
+ */
+export function toPolygons(operand: BooleanOperand): PolygonWithHoles[] {
+    if (!Array.isArray(operand)) return [operand];
+    if (operand.length === 0) return [];
+    return operand[0] instanceof THREE.Vector2 ? [{ outer: operand as THREE.Vector2[], holes: [] }] : operand as PolygonWithHoles[];
+}
+
+export function booleanOp(operation: BooleanOperation, subject: BooleanOperand, clipping: BooleanOperand): PolygonWithHoles[] {
+    // Martinez rejects empty geometry, and the answer is trivial anyway
+    const a = toPolygons(subject);
+    const b = toPolygons(clipping);
+    if (a.length === 0 || b.length === 0) {
+        if (operation === 'intersection') return [];
+        if (operation === 'diff') return a;
+        return a.length === 0 ? b : a;
     }
+    return fromMartinez(OPERATIONS[operation](operandToMartinez(subject), operandToMartinez(clipping)));
+}
+
+export function unionContours(c1: BooleanOperand, c2: BooleanOperand): PolygonWithHoles[] {
+    return booleanOp('union', c1, c2);
+}
+
+export function diffContours(subject: BooleanOperand, clipper: BooleanOperand): PolygonWithHoles[] {
+    return booleanOp('diff', subject, clipper);
+}
+
+export function intersectContours(c1: BooleanOperand, c2: BooleanOperand): PolygonWithHoles[] {
+    return booleanOp('intersection', c1, c2);
+}
 
-    return contours;
+export function xorContours(c1: BooleanOperand, c2: BooleanOperand): PolygonWithHoles[] {
+    return booleanOp('xor', c1, c2);
 }
 
-export function unionContours(c1: THREE.Vector2[], c2: THREE.Vector2[]): THREE.Vector2[][] {
-    const p1 = toMartinez(c1);
-    const p2 = toMartinez(c2);
-    const result = martinez.union(p1, p2);
-    return fromMartinez(result);
+// V64: N-ary booleans over a whole selection
+const unionAll = (operands: BooleanOperand[]): PolygonWithHoles[] => {
+    // Balanced pairs keep intermediate results small (10 letters: 4 levels instead of 9 steps)
+    let level = operands.map(toPolygons);
+    while (level.length > 1) {
+        const next: PolygonWithHoles[][] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? booleanOp('union', level[i], level[i + 1]) : level[i]);
+        }
+        level = next;
+    }
+    return level[0] || [];
+};
+
+/**
+ * union: everything merged; diff: the first operand minus all others;
+ * intersection: the area common to all; xor: area covered an odd number of times.
+ */
+export function booleanReduce(operation: BooleanOperation, operands: BooleanOperand[]): PolygonWithHoles[] {
+    if (operands.length === 0) return [];
+    if (operation === 'union') return unionAll(operands);
+    if (operation === 'diff') {
+        const rest = operands.slice(1);
+        return rest.length > 0 ? booleanOp('diff', operands[0], unionAll(rest)) : toPolygons(operands[0]);
+    }
+
+    let result = toPolygons(operands[0]);
+    for (const operand of operands.slice(1)) {
+        result = booleanOp(operation, result, operand);
+        if (operation === 'intersection' && result.length === 0) break;
+    }
+    return result;
 }
 
-export function diffContours(subject: THREE.Vector2[], clipper: THREE.Vector2[]): THREE.Vector2[][] {
-    const p1 = toMartinez(subject);
-    const p2 = toMartinez(clipper);
-    const result = martinez.diff(p1, p2);
-    return fromMartinez(result);
+/**
+ * Every ring as its own contour (outer first, then its holes).
+ */
+export function flattenPolygons(polygons: PolygonWithHoles[]): THREE.Vector2[][] {
+    return polygons.flatMap(p => [p.outer, ...p.holes]);
 }
 
-export function intersectContours(c1: THREE.Vector2[], c2: THREE.Vector2[]): THREE.Vector2[][] {
-    const p1 = toMartinez(c1);
-    const p2 = toMartinez(c2);
-    const result = martinez.intersection(p1, p2);
-    return fromMartinez(result);
+/**
+ * Outer rings keep `outerRole`, inner rings get `holeRole` so they are cut out
+ * instead of extruded. `parents[i]` is the index of the outer ring a hole belongs to.
+ */
+export function polygonsToContours(
+    polygons: PolygonWithHoles[],
+    outerRole: ContourRole = 'auto',
+    holeRole: ContourRole = 'void'
+): { contours: THREE.Vector2[][]; roles: ContourRole[]; parents: (number | null)[] } {
+    const contours: THREE.Vector2[][] = [];
+    const roles: ContourRole[] = [];
+    const parents: (number | null)[] = [];
+    polygons.forEach(p => {
+        const outerIndex = contours.length;
+        contours.push(p.outer);
+        roles.push(outerRole);
+        parents.push(null);
+        p.holes.forEach(h => {
+            contours.push(h);
+            roles.push(holeRole);
+            parents.push(outerIndex);
+        });
+    });
+    return { contours, roles, parents };
 }
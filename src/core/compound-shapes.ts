@@ -0,0 +1,144 @@
+import * as THREE from 'three';
+import { booleanReduce, polygonsToContours, type BooleanOperation } from './boolean-ops';
+import type { NodeType } from './curve-utils';
+import type { ContourHandle, ContourRole, DesignState } from './design-state';
+import { createItemId, matchContours, type ContourItem } from './design-layers';
+
+// V65: Compound Shapes (non-destructive booleans)
+// A compound keeps its operands as ordinary, editable contours plus the
+// operation. The result is only evaluated for the 3D model, so editing a
+// letter inside a plaque re-cuts the plaque on the next generation.
+
+export interface CompoundShape {
+    id: string;
+    operation: BooleanOperation;
+    operands: number[]; // Contour indices; the first one is the subject of a difference
+}
+
+/**
+ * Follows contours to their new positions after an edit (matched as in
+ * `matchContours`). Compounds left with fewer than two operands dissolve.
+ */
+export const remapCompounds = (
+    compounds: CompoundShape[] | undefined,
+    prev: THREE.Vector2[][] | null,
+    next: THREE.Vector2[][],
+    inPlace: boolean = true
+): CompoundShape[] | undefined => {
+    if (!compounds || compounds.length === 0) return compounds;
+
+    const newIndex = new Map<number, number>();
+    matchContours(prev, next, inPlace).forEach((from, i) => { if (from >= 0) newIndex.set(from, i); });
+
+    let changed = false;
+    const remapped = compounds
+        .map(compound => {
+            const operands = compound.operands
+                .map(i => newIndex.get(i))
+                .filter((i): i is number => i !== undefined);
+            if (operands.some((o, k) => o !== compound.operands[k]) || operands.length !== compound.operands.length) changed = true;
+            return { ...compound, operands };
+        })
+        .filter(c => c.operands.length >= 2);
+    return changed || remapped.length !== compounds.length ? remapped : compounds;
+};
+
+/**
+ * Index of the compound each contour belongs to (-1 = none).
+ */
+export const compoundMembership = (compounds: CompoundShape[] | undefined, contourCount: number): number[] => {
+    const membership = new Array(contourCount).fill(-1);
+    compounds?.forEach((c, ci) => c.operands.forEach(i => { if (i < contourCount) membership[i] = ci; }));
+    return membership;
+};
+
+export interface EvaluatedDesign {
+    contours: THREE.Vector2[][];
+    roles: ContourRole[];
+    origins: number[]; // Source contour of each result (first operand for compounds)
+    compoundOf: (CompoundShape | undefined)[]; // V67: The compound that produced each result
+}
+
+/**
+ * Replaces each compound's operands by its boolean result. `contours` must
+ * already be flattened (curves sampled); roles follow the first operand and
+ * inner rings become voids.
+ */
+export const evaluateCompounds = (
+    contours: THREE.Vector2[][],
+    roles: ContourRole[],
+    compounds: CompoundShape[] | undefined
+): EvaluatedDesign => {
+    if (!compounds || compounds.length === 0) {
+        return { contours, roles, origins: contours.map((_, i) => i), compoundOf: contours.map(() => undefined) };
+    }
+
+    const membership = compoundMembership(compounds, contours.length);
+    const result: EvaluatedDesign = { contours: [], roles: [], origins: [], compoundOf: [] };
+
+    contours.forEach((c, i) => {
+        const ci = membership[i];
+        if (ci === -1) {
+            result.contours.push(c);
+            result.roles.push(roles[i]);
+            result.origins.push(i);
+            result.compoundOf.push(undefined);
+            return;
+        }
+        const compound = compounds[ci];
+        if (compound.operands[0] !== i) return; // Emitted once, at its first operand
+
+        const subjectRole = roles[i] === 'void' ? 'auto' : roles[i];
+        const evaluated = polygonsToContours(booleanReduce(compound.operation, compound.operands.map(o => contours[o])), subjectRole, 'void');
+        evaluated.contours.forEach((ring, k) => {
+            result.contours.push(ring);
+            result.roles.push(evaluated.roles[k]);
+            result.origins.push(i);
+            result.compoundOf.push(compound);
+        });
+    });
+    return result;
+};
+
+/**
+ * Bakes a compound into plain contours: its operands are replaced by the
+ * result (corner nodes, no handles) placed where the first operand was.
+ */
+export const expandCompound = (
+    design: DesignState,
+    compoundId: string,
+    flatten: (index: number) => THREE.Vector2[]
+): DesignState => {
+    const compound = design.compounds?.find(c => c.id === compoundId);
+    if (!compound) return design;
+
+    const subjectRole = design.roles[compound.operands[0]] === 'void' ? 'auto' : design.roles[compound.operands[0]];
+    const evaluated = polygonsToContours(booleanReduce(compound.operation, compound.operands.map(flatten)), subjectRole, 'void');
+    const operands = new Set(compound.operands);
+
+    const contours: THREE.Vector2[][] = [];
+    const roles: ContourRole[] = [];
+    const nodeTypes: NodeType[][] = [];
+    const handles: (ContourHandle | null)[][] = [];
+    const items: ContourItem[] = []; // V66: Results stay in the subject's group
+    design.contours.forEach((c, i) => {
+        if (i === compound.operands[0]) {
+            evaluated.contours.forEach((ring, k) => {
+                contours.push(ring);
+                roles.push(evaluated.roles[k]);
+                nodeTypes.push(new Array(ring.length).fill('corner'));
+                handles.push(new Array(ring.length).fill(null));
+                items.push({ id: createItemId(), groupId: design.items?.[i]?.groupId });
+            });
+        }
+        if (operands.has(i)) return;
+        contours.push(c);
+        roles.push(design.roles[i]);
+        nodeTypes.push(design.nodeTypes?.[i] || new Array(c.length).fill('corner'));
+        handles.push(design.handles?.[i] || new Array(c.length).fill(null));
+        items.push(design.items?.[i] || { id: createItemId() });
+    });
+
+    const compounds = remapCompounds(design.compounds?.filter(c => c.id !== compoundId), design.contours, contours, false);
+    return { contours, roles, nodeTypes, handles, compounds, items, groups: design.groups };
+};
@@ -0,0 +1,298 @@
+import * as THREE from 'three';
+import type { BezierNode, NodeType } from './curve-utils';
+import type { ContourHandle, ContourRole, DesignState } from './design-state';
+
+// V72: Curve Fitting
+// Traced outlines are dense polylines. Schneider's algorithm ("An Algorithm
+// for Automatically Fitting Digitized Curves", Graphics Gems, 1990) turns them
+// into a few cubic Beziers: the loop is cut at its corners, each run is fitted
+// by least squares with fixed end tangents, the curve parameters are refined
+// with Newton steps and the run is split at its worst point until every
+// traced point lies within the tolerance.
+
+export interface CurveFitOptions {
+    tolerance: number;   // Max distance from the traced points, in pixels
+    cornerAngle: number; // Turn (degrees) above which a point becomes a corner
+}
+
+export const DEFAULT_CURVE_FIT: CurveFitOptions = { tolerance: 1, cornerAngle: 50 };
+
+const EPSILON = 1e-6;
+const MAX_ITERATIONS = 4;
+
+type Cubic = [THREE.Vector2, THREE.Vector2, THREE.Vector2, THREE.Vector2];
+
+// de Casteljau, for the curve and its derivatives
+const evaluate = (control: THREE.Vector2[], t: number): THREE.Vector2 => {
+    const p = control.map(c => c.clone());
+    for (let k = p.length - 1; k > 0; k--) {
+        for (let i = 0; i < k; i++) p[i].lerp(p[i + 1], t);
+    }
+    return p[0];
+};
+
+const derivative = (control: THREE.Vector2[]) =>
+    control.slice(1).map((c, i) => c.clone().sub(control[i]).multiplyScalar(control.length - 1));
+
+// First point at least `reach` away from points[i], walking in `step`
+// direction without passing `limit` (an index of the same array)
+const walk = (points: THREE.Vector2[], i: number, step: number, reach: number, limit: number, closed: boolean) => {
+    const n = points.length;
+    let j = i;
+    for (let s = 0; s < (closed ? n >> 1 : n); s++) {
+        if (j === limit) break;
+        j = closed ? (j + step + n) % n : j + step;
+        if (points[j].distanceTo(points[i]) >= reach) break;
+    }
+    return j;
+};
+
+// Direction of travel through points[i], from the points around it
+const centerTangent = (points: THREE.Vector2[], i: number, reach: number, closed: boolean) => {
+    const last = points.length - 1;
+    const before = points[walk(points, i, -1, reach, closed ? -1 : 0, closed)];
+    const after = points[walk(points, i, 1, reach, closed ? -1 : last, closed)];
+    const tangent = after.clone().sub(before);
+    return tangent.lengthSq() > 0 ? tangent.normalize() : new THREE.Vector2(1, 0);
+};
+
+// Direction from an end of a run into it
+const endTangent = (run: THREE.Vector2[], fromEnd: boolean, reach: number) => {
+    const i = fromEnd ? run.length - 1 : 0;
+    const j = walk(run, i, fromEnd ? -1 : 1, reach, fromEnd ? 0 : run.length - 1, false);
+    return run[j].clone().sub(run[i]).normalize();
+};
+
+const turnAngle = (points: THREE.Vector2[], i: number, reach: number) => {
+    const a = points[i].clone().sub(points[walk(points, i, -1, reach, -1, true)]);
+    const b = points[walk(points, i, 1, reach, -1, true)].clone().sub(points[i]);
+    if (a.lengthSq() === 0 || b.lengthSq() === 0) return 0;
+    return Math.acos(THREE.MathUtils.clamp(a.dot(b) / (a.length() * b.length()), -1, 1));
+};
+
+/**
+ * Indices of the corners of a closed polyline: points where the direction
+ * turns more than `angle` radians over `reach` pixels, keeping only the
+ * sharpest point of each bend.
+ */
+const findCorners = (points: THREE.Vector2[], angle: number, reach: number): number[] => {
+    const turns = points.map((_, i) => turnAngle(points, i, reach));
+    const n = points.length;
+    const sharper = (j: number, i: number) => turns[j] > turns[i] || (turns[j] === turns[i] && j < i);
+
+    return turns.flatMap((turn, i) => {
+        if (turn < angle) return [];
+        for (const step of [-1, 1]) {
+            for (let j = (i + step + n) % n, s = 0; s < n >> 1 && points[j].distanceTo(points[i]) < reach; j = (j + step + n) % n, s++) {
+                if (sharper(j, i)) return [];
+            }
+        }
+        return [i];
+    });
+};
+
+const chordParameters = (points: THREE.Vector2[]) => {
+    const u = [0];
+    for (let i = 1; i < points.length; i++) u.push(u[i - 1] + points[i].distanceTo(points[i - 1]));
+    const length = u[u.length - 1];
+    return length > 0 ? u.map(d => d / length) : u.map((_, i) => i / (points.length - 1));
+};
+
+// Least-squares handle lengths along the given end tangents
+const generateBezier = (points: THREE.Vector2[], u: number[], tangent1: THREE.Vector2, tangent2: THREE.Vector2): Cubic => {
+    const first = points[0], last = points[points.length - 1];
+    let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+    points.forEach((p, i) => {
+        const t = u[i], mt = 1 - t;
+        const b0 = mt * mt * mt, b1 = 3 * mt * mt * t, b2 = 3 * mt * t * t, b3 = t * t * t;
+        const a1 = tangent1.clone().multiplyScalar(b1);
+        const a2 = tangent2.clone().multiplyScalar(b2);
+        c00 += a1.dot(a1);
+        c01 += a1.dot(a2);
+        c11 += a2.dot(a2);
+        const rest = p.clone()
+            .sub(first.clone().multiplyScalar(b0 + b1))
+            .sub(last.clone().multiplyScalar(b2 + b3));
+        x0 += a1.dot(rest);
+        x1 += a2.dot(rest);
+    });
+
+    const det = c00 * c11 - c01 * c01;
+    let alpha1 = (x0 * c11 - x1 * c01) / det;
+    let alpha2 = (c00 * x1 - c01 * x0) / det;
+
+    // Singular, backwards or crossing handles (the curve would loop): fall
+    // back to a third of the chord
+    const chord = first.distanceTo(last);
+    const line = last.clone().sub(first);
+    const overlap = tangent1.dot(line) * alpha1 - tangent2.dot(line) * alpha2;
+    if (!(alpha1 > EPSILON * chord && alpha2 > EPSILON * chord) || overlap > chord * chord) alpha1 = alpha2 = chord / 3;
+
+    return [
+        first.clone(),
+        first.clone().addScaledVector(tangent1, alpha1),
+        last.clone().addScaledVector(tangent2, alpha2),
+        last.clone()
+    ];
+};
+
+// One Newton-Raphson step per point towards its closest curve parameter
+const reparameterize = (points: THREE.Vector2[], bezier: Cubic, u: number[]) => {
+    const d1 = derivative(bezier);
+    const d2 = derivative(d1);
+    return points.map((p, i) => {
+        const diff = evaluate(bezier, u[i]).sub(p);
+        const q1 = evaluate(d1, u[i]);
+        const q2 = evaluate(d2, u[i]);
+        const denominator = q1.dot(q1) + diff.dot(q2);
+        if (Math.abs(denominator) < EPSILON) return u[i];
+        return THREE.MathUtils.clamp(u[i] - diff.dot(q1) / denominator, 0, 1);
+    });
+};
+
+const maxError = (points: THREE.Vector2[], bezier: Cubic, u: number[]) => {
+    let error = 0;
+    let split = points.length >> 1;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = evaluate(bezier, u[i]).distanceToSquared(points[i]);
+        if (d >= error) {
+            error = d;
+            split = i;
+        }
+    }
+    return { error, split };
+};
+
+const fitCubic = (
+    points: THREE.Vector2[], tangent1: THREE.Vector2, tangent2: THREE.Vector2,
+    tolerance: number, reach: number, out: Cubic[]
+) => {
+    const first = points[0], last = points[points.length - 1];
+    if (points.length === 2) {
+        const third = first.distanceTo(last) / 3;
+        out.push([first.clone(), first.clone().addScaledVector(tangent1, third), last.clone().addScaledVector(tangent2, third), last.clone()]);
+        return;
+    }
+
+    const tolerance2 = tolerance * tolerance;
+    let u = chordParameters(points);
+    let bezier = generateBezier(points, u, tangent1, tangent2);
+    let { error, split } = maxError(points, bezier, u);
+    if (error < tolerance2) {
+        out.push(bezier);
+        return;
+    }
+
+    // Close enough to be worth refining the parameters before splitting
+    if (error < 4 * tolerance2) {
+        for (let i = 0; i < MAX_ITERATIONS; i++) {
+            u = reparameterize(points, bezier, u);
+            bezier = generateBezier(points, u, tangent1, tangent2);
+            ({ error, split } = maxError(points, bezier, u));
+            if (error < tolerance2) {
+                out.push(bezier);
+                return;
+            }
+        }
+    }
+
+    // The halves share the tangent at the split, so the joint stays smooth
+    const center = centerTangent(points, split, reach, false);
+    fitCubic(points.slice(0, split + 1), tangent1, center.clone().negate(), tolerance, reach, out);
+    fitCubic(points.slice(split), center, tangent2, tolerance, reach, out);
+};
+
+const distanceToSegment = (p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) => {
+    const ab = b.clone().sub(a);
+    const t = ab.lengthSq() > 0 ? THREE.MathUtils.clamp(p.clone().sub(a).dot(ab) / ab.lengthSq(), 0, 1) : 0;
+    return a.clone().addScaledVector(ab, t).distanceTo(p);
+};
+
+/**
+ * Fits a closed polyline with cubic Bezier segments that stay within
+ * `tolerance` pixels of every point. Corner nodes sit on the sharp turns
+ * (straight runs between them keep no handles); the nodes added in between
+ * are smooth, with collinear handles.
+ */
+export const fitBezierNodes = (polyline: { x: number, y: number }[], options: CurveFitOptions = DEFAULT_CURVE_FIT): BezierNode[] => {
+    // Repeated points (and a repeated first point) carry no direction
+    const points: THREE.Vector2[] = [];
+    polyline.forEach(p => {
+        const v = new THREE.Vector2(p.x, p.y);
+        if (points.length === 0 || v.distanceTo(points[points.length - 1]) > EPSILON) points.push(v);
+    });
+    while (points.length > 1 && points[0].distanceTo(points[points.length - 1]) <= EPSILON) points.pop();
+
+    const asCorners = () => points.map(pos => ({ pos, handleIn: new THREE.Vector2(), handleOut: new THREE.Vector2(), type: 'corner' as const }));
+    if (points.length < 4) return asCorners();
+
+    const tolerance = Math.max(options.tolerance, EPSILON);
+    const reach = Math.max(3, 3 * tolerance);
+    const corners = findCorners(points, THREE.MathUtils.degToRad(options.cornerAngle), reach);
+
+    // Runs go from break to break; a loop needs two of them. Extra breaks
+    // are smooth and sit opposite the first one.
+    const breaks = corners.map(index => ({ index, corner: true }));
+    if (breaks.length === 0) breaks.push({ index: 0, corner: false });
+    if (breaks.length === 1) {
+        const origin = points[breaks[0].index];
+        let far = breaks[0].index;
+        points.forEach((p, i) => {
+            if (p.distanceToSquared(origin) > points[far].distanceToSquared(origin)) far = i;
+        });
+        if (far === breaks[0].index) return asCorners();
+        breaks.push({ index: far, corner: false });
+        breaks.sort((a, b) => a.index - b.index);
+    }
+
+    const n = points.length;
+    const cubics: Cubic[] = [];
+    const cornerStarts: boolean[] = [];
+    breaks.forEach((start, k) => {
+        const end = breaks[(k + 1) % breaks.length];
+        const count = (end.index - start.index + n) % n || n;
+        const run = Array.from({ length: count + 1 }, (_, i) => points[(start.index + i) % n]);
+        const from = cubics.length;
+
+        const first = run[0], last = run[run.length - 1];
+        if (start.corner && end.corner && run.every(p => distanceToSegment(p, first, last) <= tolerance)) {
+            cubics.push([first.clone(), first.clone(), last.clone(), last.clone()]);
+        } else {
+            const tangent1 = start.corner ? endTangent(run, false, reach) : centerTangent(points, start.index, reach, true);
+            const tangent2 = end.corner ? endTangent(run, true, reach) : centerTangent(points, end.index, reach, true).negate();
+            fitCubic(run, tangent1, tangent2, tolerance, reach, cubics);
+        }
+        for (let i = from; i < cubics.length; i++) cornerStarts.push(i === from && start.corner);
+    });
+
+    return cubics.map((cubic, i): BezierNode => {
+        const pos = cubic[0];
+        const handleIn = cubics[(i - 1 + cubics.length) % cubics.length][2].clone().sub(pos);
+        const handleOut = cubic[1].clone().sub(pos);
+        const smooth = !cornerStarts[i] && handleIn.lengthSq() > EPSILON && handleOut.lengthSq() > EPSILON;
+        return { pos, handleIn, handleOut, type: smooth ? 'smooth' : 'corner' };
+    });
+};
+
+/**
+ * Traced contours as editable curves: one fitted node list per contour,
+ * stored the way the editor keeps pen-drawn paths (relative handles, node
+ * types, no handles on straight runs). Roles default to 'auto'.
+ */
+export const fitContourCurves = (
+    contours: { x: number, y: number }[][],
+    options: CurveFitOptions = DEFAULT_CURVE_FIT,
+    roles?: ContourRole[]
+): DesignState => {
+    const design: DesignState = { contours: [], roles: [], nodeTypes: [], handles: [] };
+    contours.forEach((contour, i) => {
+        const nodes = fitBezierNodes(contour, options);
+        design.contours.push(nodes.map(node => node.pos));
+        design.roles.push(roles?.[i] ?? 'auto');
+        design.nodeTypes!.push(nodes.map(node => node.type as NodeType));
+        design.handles!.push(nodes.map((node): ContourHandle | null =>
+            node.handleIn.lengthSq() > EPSILON || node.handleOut.lengthSq() > EPSILON ? { in: node.handleIn, out: node.handleOut } : null
+        ));
+    });
+    return design;
+};
@@ -0,0 +1,136 @@
+import type * as THREE from 'three';
+import type { NodeType } from './curve-utils';
+import type { ContourHandle, ContourRole, DesignState } from './design-state';
+import { createItemId, type ContourItem } from './design-layers';
+
+// V62: Patch-based Design History
+// Instead of whole DesignState copies, each history entry stores the run of
+// contours that changed (the ones before and the ones after). Unchanged
+// contours are shared between states, so an edit costs only what it touched.
+
+export interface HistoryMeta {
+    label: string;
+    mergeKey?: string; // Consecutive edits with the same key collapse into one entry
+}
+
+interface ContourEntry {
+    contour: THREE.Vector2[];
+    role: ContourRole;
+    nodeTypes?: NodeType[];
+    handles?: (ContourHandle | null)[];
+    item?: ContourItem; // V66
+}
+
+type Compounds = DesignState['compounds'];
+type Groups = DesignState['groups'];
+
+export type DesignPatch =
+    | { kind: 'splice'; index: number; removed: ContourEntry[]; inserted: ContourEntry[]; compounds?: { before: Compounds; after: Compounds }; groups?: { before: Groups; after: Groups } }
+    | { kind: 'replace'; before: DesignState | null; after: DesignState | null }; // From / to "no design"
+
+const toEntries = (design: DesignState): ContourEntry[] =>
+    design.contours.map((contour, i) => ({
+        contour,
+        role: design.roles[i],
+        nodeTypes: design.nodeTypes?.[i],
+        handles: design.handles?.[i],
+        item: design.items?.[i]
+    }));
+
+const fromEntries = (entries: ContourEntry[], template: DesignState): DesignState => ({
+    contours: entries.map(e => e.contour),
+    roles: entries.map(e => e.role),
+    nodeTypes: template.nodeTypes ? entries.map(e => e.nodeTypes || new Array(e.contour.length).fill('corner')) : undefined,
+    handles: template.handles ? entries.map(e => e.handles || new Array(e.contour.length).fill(null)) : undefined,
+    compounds: template.compounds,
+    items: template.items ? entries.map(e => e.item || { id: createItemId() }) : undefined,
+    groups: template.groups
+});
+
+const sameVectors = (a?: THREE.Vector2 | null, b?: THREE.Vector2 | null) =>
+    a === b || (!!a && !!b && a.x === b.x && a.y === b.y);
+
+const sameList = <T>(a: T[] | undefined, b: T[] | undefined, same: (x: T, y: T) => boolean) => {
+    if (a === b) return true;
+    if (!a || !b || a.length !== b.length) return false;
+    return a.every((x, i) => same(x, b[i]));
+};
+
+// Reference check first; editors often rebuild arrays without changing values
+const sameEntry = (a: ContourEntry, b: ContourEntry) =>
+    a.role === b.role &&
+    a.item === b.item &&
+    sameList(a.contour, b.contour, sameVectors) &&
+    sameList(a.nodeTypes, b.nodeTypes, (x, y) => x === y) &&
+    sameList(a.handles, b.handles, (x, y) => x === y || (!!x && !!y && sameVectors(x.in, y.in) && sameVectors(x.out, y.out)));
+
+/**
+ * Returns null when nothing changed.
+ */
+export const diffDesigns = (before: DesignState | null, after: DesignState | null): DesignPatch | null => {
+    if (before === after) return null;
+    if (!before || !after || !!before.nodeTypes !== !!after.nodeTypes || !!before.handles !== !!after.handles || !!before.items !== !!after.items) {
+        return { kind: 'replace', before, after };
+    }
+
+    const a = toEntries(before);
+    const b = toEntries(after);
+    let start = 0;
+    while (start < a.length && start < b.length && sameEntry(a[start], b[start])) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && sameEntry(a[endA - 1], b[endB - 1])) {
+        endA--;
+        endB--;
+    }
+    const compoundsChanged = before.compounds !== after.compounds; // V65
+    const groupsChanged = before.groups !== after.groups; // V66
+    if (start === endA && start === endB && !compoundsChanged && !groupsChanged) return null;
+    return {
+        kind: 'splice',
+        index: start,
+        removed: a.slice(start, endA),
+        inserted: b.slice(start, endB),
+        compounds: compoundsChanged ? { before: before.compounds, after: after.compounds } : undefined,
+        groups: groupsChanged ? { before: before.groups, after: after.groups } : undefined
+    };
+};
+
+/**
+ * Applies a patch forward (redo) or backward (undo).
+ */
+export const applyPatch = (state: DesignState | null, patch: DesignPatch, direction: 'forward' | 'backward'): DesignState | null => {
+    if (patch.kind === 'replace') return direction === 'forward' ? patch.after : patch.before;
+    if (!state) return state;
+    const [remove, insert] = direction === 'forward' ? [patch.removed, patch.inserted] : [patch.inserted, patch.removed];
+    const entries = toEntries(state);
+    entries.splice(patch.index, remove.length, ...insert);
+    const next = fromEntries(entries, state);
+    if (patch.compounds) next.compounds = direction === 'forward' ? patch.compounds.after : patch.compounds.before;
+    if (patch.groups) next.groups = direction === 'forward' ? patch.groups.after : patch.groups.before;
+    return next;
+};
+
+/**
+ * Rough memory weight of a patch, in stored points.
+ */
+export const patchSize = (patch: DesignPatch): number => {
+    const count = (entries: ContourEntry[]) => entries.reduce((sum, e) => sum + e.contour.length, 0);
+    if (patch.kind === 'splice') return count(patch.removed) + count(patch.inserted);
+    return (patch.before ? count(toEntries(patch.before)) : 0) + (patch.after ? count(toEntries(patch.after)) : 0);
+};
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * Default label when the caller did not name the edit.
+ */
+export const describePatch = (patch: DesignPatch): string => {
+    if (patch.kind === 'replace') return patch.after ? 'Nuevo diseño' : 'Borrar diseño';
+    const { removed, inserted } = patch;
+    if (removed.length === 0 && inserted.length === 0) return patch.groups ? 'Editar capas' : 'Editar formas compuestas';
+    if (removed.length === 0) return `Añadir ${plural(inserted.length, 'contorno')}`;
+    if (inserted.length === 0) return `Eliminar ${plural(removed.length, 'contorno')}`;
+    if (removed.length === inserted.length) return `Editar ${plural(inserted.length, 'contorno')}`;
+    return `Reemplazar ${plural(removed.length, 'contorno')} por ${inserted.length}`;
+};
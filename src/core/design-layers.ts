@@ -0,0 +1,173 @@
+import type * as THREE from 'three';
+import type { ContourRole, DesignState } from './design-state';
+
+// V66: Layered Scene Model
+// Every contour carries a stable ID (plus an optional name, lock and
+// visibility) in `DesignState.items`, parallel to the geometry arrays. Groups
+// form a tree through `parentId`; a top-level group is what the UI calls a
+// layer. Hiding or locking a group applies to everything below it.
+
+export interface ContourItem {
+    id: string;
+    name?: string;
+    groupId?: string;
+    locked?: boolean;
+    hidden?: boolean;
+}
+
+export interface DesignGroup {
+    id: string;
+    name: string;
+    parentId?: string;
+    locked?: boolean;
+    hidden?: boolean;
+}
+
+export const createItemId = (): string => crypto.randomUUID();
+
+const ROLE_NAMES: Record<ContourRole, string> = {
+    cut: 'Corte',
+    stamp: 'Sello',
+    auto: 'Forma',
+    base: 'Base',
+    void: 'Hueco'
+};
+
+export const itemLabel = (item: ContourItem | undefined, role: ContourRole | undefined, index: number): string =>
+    item?.name || `${ROLE_NAMES[role || 'auto']} ${index + 1}`;
+
+/**
+ * For each contour of `next`, its index in `prev` (-1 = new). Contours are
+ * matched by reference, since deleting, appending or reordering keeps the
+ * untouched contour arrays. With `inPlace`, a new array left in the slot of a
+ * contour that is gone takes its place (node edits replace the edited
+ * contour array).
+ */
+export const matchContours = (
+    prev: THREE.Vector2[][] | null,
+    next: THREE.Vector2[][],
+    inPlace: boolean = true
+): number[] => {
+    const slots = new Map<THREE.Vector2[], number[]>();
+    prev?.forEach((c, i) => {
+        const list = slots.get(c);
+        if (list) list.push(i);
+        else slots.set(c, [i]);
+    });
+
+    const matched = new Set<number>();
+    const matches = next.map(c => {
+        const i = slots.get(c)?.shift(); // A duplicated reference still needs its own slot
+        if (i === undefined) return -1;
+        matched.add(i);
+        return i;
+    });
+    if (!inPlace || !prev) return matches;
+    return matches.map((m, i) => m < 0 && i < prev.length && !matched.has(i) ? i : m);
+};
+
+/**
+ * Carries the items over an edit of the contour arrays (see
+ * `matchContours`). Contours without a match are new and get a fresh ID.
+ */
+export const syncItems = (
+    items: ContourItem[] | undefined,
+    prev: THREE.Vector2[][] | null,
+    next: THREE.Vector2[][]
+): ContourItem[] =>
+    matchContours(prev, next).map(i => (i >= 0 && items?.[i]) || { id: createItemId() });
+
+/**
+ * Fills in missing items (designs from tracing, templates or older files).
+ * Returns the same object when nothing was missing.
+ */
+export const withItems = (design: DesignState): DesignState => {
+    const items = design.items;
+    if (items && items.length === design.contours.length) return design;
+    return { ...design, items: design.contours.map((_, i) => items?.[i] || { id: createItemId() }) };
+};
+
+export const indexById = (items: ContourItem[] | undefined): Map<string, number> =>
+    new Map((items || []).map((item, i) => [item.id, i]));
+
+/**
+ * The group and its ancestors, innermost first. Cycles and dangling parents
+ * end the chain.
+ */
+export const groupChain = (groups: DesignGroup[] | undefined, groupId: string | undefined): DesignGroup[] => {
+    const chain: DesignGroup[] = [];
+    let current = groupId;
+    while (current) {
+        const group = groups?.find(g => g.id === current);
+        if (!group || chain.includes(group)) break;
+        chain.push(group);
+        current = group.parentId;
+    }
+    return chain;
+};
+
+/**
+ * Effective visibility and lock per contour, including the ones inherited
+ * from enclosing groups.
+ */
+export const resolveItemFlags = (
+    items: ContourItem[] | undefined,
+    groups: DesignGroup[] | undefined,
+    count: number
+): { hidden: boolean[]; locked: boolean[] } => {
+    const hidden: boolean[] = [];
+    const locked: boolean[] = [];
+    for (let i = 0; i < count; i++) {
+        const item = items?.[i];
+        const chain = groupChain(groups, item?.groupId);
+        hidden.push(!!item?.hidden || chain.some(g => g.hidden));
+        locked.push(!!item?.locked || chain.some(g => g.locked));
+    }
+    return { hidden, locked };
+};
+
+/**
+ * Wraps the given contours in a new group. The group is nested where all of
+ * them already were, or at the top level when they came from different places.
+ */
+export const groupItems = (
+    items: ContourItem[],
+    groups: DesignGroup[],
+    indices: number[],
+    name: string
+): { items: ContourItem[]; groups: DesignGroup[]; groupId: string } => {
+    const parents = new Set(indices.map(i => items[i]?.groupId));
+    const group: DesignGroup = { id: createItemId(), name, parentId: parents.size === 1 ? [...parents][0] : undefined };
+    const selected = new Set(indices);
+    return {
+        items: items.map((item, i) => selected.has(i) ? { ...item, groupId: group.id } : item),
+        groups: [...groups, group],
+        groupId: group.id
+    };
+};
+
+/**
+ * Removes a group; its contours and subgroups move up to its parent.
+ */
+export const ungroup = (
+    items: ContourItem[],
+    groups: DesignGroup[],
+    groupId: string
+): { items: ContourItem[]; groups: DesignGroup[] } => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return { items, groups };
+    return {
+        items: items.map(item => item.groupId === groupId ? { ...item, groupId: group.parentId } : item),
+        groups: groups
+            .filter(g => g.id !== groupId)
+            .map(g => g.parentId === groupId ? { ...g, parentId: group.parentId } : g)
+    };
+};
+
+/**
+ * Moves contours into a group (undefined = top level).
+ */
+export const moveItemsToGroup = (items: ContourItem[], indices: number[], groupId: string | undefined): ContourItem[] => {
+    const selected = new Set(indices);
+    return items.map((item, i) => selected.has(i) ? { ...item, groupId } : item);
+};
@@ -0,0 +1,80 @@
+import * as THREE from 'three';
+import { interpolateContour, sampleBezierPath, type NodeType } from './curve-utils';
+import type { CompoundShape } from './compound-shapes';
+import type { ContourItem, DesignGroup } from './design-layers';
+
+// V55: Editable design model shared by the editor, App and the importers
+
+export type ContourRole = 'cut' | 'stamp' | 'auto' | 'base' | 'void';
+
+export interface ContourHandle {
+    in: THREE.Vector2;  // Relative to the node
+    out: THREE.Vector2; // Relative to the node
+}
+
+export interface DesignState {
+    contours: THREE.Vector2[][];
+    roles: ContourRole[];
+    nodeTypes?: NodeType[][];
+    handles?: (ContourHandle | null)[][]; // V43: Bezier Handles
+    compounds?: CompoundShape[]; // V65: Live boolean groups
+    items?: ContourItem[]; // V66: Stable IDs, names, lock and visibility per contour
+    groups?: DesignGroup[]; // V66: Group / layer tree
+}
+
+/**
+ * The contour as a dense polyline: Bezier handles are sampled, smooth nodes
+ * interpolated (V65: shared by the 3D pipeline and the boolean tools).
+ */
+export const flattenContour = (design: DesignState, index: number): THREE.Vector2[] => {
+    const contour = design.contours[index];
+    const types = design.nodeTypes?.[index] || [];
+    const handles = design.handles?.[index];
+
+    if (handles && handles.some(h => h !== null)) {
+        return sampleBezierPath(contour.map((p, i) => ({
+            pos: p,
+            handleIn: handles[i]?.in || new THREE.Vector2(0, 0),
+            handleOut: handles[i]?.out || new THREE.Vector2(0, 0),
+            type: types[i] === 'smooth' ? 'smooth' : 'corner' as const
+        })), true, 1);
+    }
+    if (types.some(t => t === 'smooth')) return interpolateContour(contour, types, true, 8);
+    return contour;
+};
+
+// V59: Plain JSON form (project files and the local library)
+interface SerializedPoint { x: number; y: number; }
+
+export interface SerializedDesign {
+    contours: SerializedPoint[][];
+    roles: ContourRole[];
+    nodeTypes?: NodeType[][];
+    handles?: ({ in: SerializedPoint, out: SerializedPoint } | null)[][];
+    compounds?: CompoundShape[];
+    items?: ContourItem[];
+    groups?: DesignGroup[];
+}
+
+const toPoint = (v: THREE.Vector2): SerializedPoint => ({ x: v.x, y: v.y });
+const toVector = (p: SerializedPoint) => new THREE.Vector2(p.x, p.y);
+
+export const serializeDesign = (design: DesignState): SerializedDesign => ({
+    contours: design.contours.map(c => c.map(toPoint)),
+    roles: design.roles,
+    nodeTypes: design.nodeTypes,
+    handles: design.handles?.map(hc => (hc || []).map(h => h ? { in: toPoint(h.in), out: toPoint(h.out) } : null)),
+    compounds: design.compounds,
+    items: design.items,
+    groups: design.groups
+});
+
+export const deserializeDesign = (data: SerializedDesign): DesignState => ({
+    contours: data.contours.map(c => c.map(toVector)),
+    roles: data.roles,
+    nodeTypes: data.nodeTypes,
+    handles: data.handles?.map(hc => (hc || []).map(h => h ? { in: toVector(h.in), out: toVector(h.out) } : null)),
+    compounds: data.compounds,
+    items: data.items,
+    groups: data.groups
+});
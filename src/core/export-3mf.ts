@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { getExportGeometries, type CutterPart, type PartType } from './geometry-generator';
+import { weldVertices } from './mesh-repair';
+import { getPartColor, PART_NAMES, type PartColors } from './part-colors';
+
+// V53: 3MF Export
+// One mesh object per PartType, all in the same world coordinates, grouped as
+// components of a single build item. Slicers load it as one multi-part object
+// that is already aligned, with each part named and colored for filament assignment.
+
+const PART_ORDER: PartType[] = ['base', 'outer', 'inner', 'handle', 'bridge'];
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`;
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 3MF colors are #RRGGBBAA
+const toDisplayColor = (color: string) => `#${new THREE.Color(color).getHexString().toUpperCase()}FF`;
+
+const formatCoord = (value: number) => String(Math.round(value * 1e5) / 1e5);
+
+const meshXml = (geometry: THREE.BufferGeometry): string => {
+    const position = geometry.getAttribute('position');
+    const index = geometry.index!;
+    const lines: string[] = ['<mesh>', '<vertices>'];
+
+    for (let i = 0; i < position.count; i++) {
+        lines.push(`<vertex x="${formatCoord(position.getX(i))}" y="${formatCoord(position.getY(i))}" z="${formatCoord(position.getZ(i))}"/>`);
+    }
+    lines.push('</vertices>', '<triangles>');
+    for (let t = 0; t < index.count; t += 3) {
+        lines.push(`<triangle v1="${index.getX(t)}" v2="${index.getX(t + 1)}" v3="${index.getX(t + 2)}"/>`);
+    }
+    lines.push('</triangles>', '</mesh>');
+    return lines.join('\n');
+};
+
+/**
+ * Builds a 3MF package from the visible parts.
+ * @param parts Generated parts
+ * @param colors Viewer colors, used as the display color of each object
+ * @param hiddenIds Parts left out of the export
+ */
+export const exportTo3MF = async (parts: CutterPart[], colors: PartColors, hiddenIds?: Set<string>): Promise<Blob> => {
+    const visibleParts = hiddenIds ? parts.filter(p => !hiddenIds.has(p.id)) : parts;
+
+    // Weld each type into one indexed mesh (3MF shares vertices between triangles)
+    const objects: { type: PartType, geometry: THREE.BufferGeometry }[] = [];
+    PART_ORDER.forEach(type => {
+        const geometries = getExportGeometries(visibleParts.filter(p => p.type === type));
+        if (geometries.length === 0) return;
+        const merged = mergeGeometries(geometries, false);
+        if (!merged) return;
+        const geometry = weldVertices(merged);
+        if (geometry.index!.count > 0) objects.push({ type, geometry });
+    });
+
+    // Resource ids: 1 = materials, 2..n+1 = meshes, n+2 = assembly
+    const materialsId = 1;
+    const assemblyId = objects.length + 2;
+
+    const resources: string[] = [];
+    if (objects.length > 0) {
+        resources.push(`<basematerials id="${materialsId}">`);
+        objects.forEach(({ type }) => {
+            resources.push(`<base name="${escapeXml(PART_NAMES[type])}" displaycolor="${toDisplayColor(getPartColor(type, colors))}"/>`);
+        });
+        resources.push('</basematerials>');
+    }
+
+    objects.forEach(({ type, geometry }, i) => {
+        resources.push(`<object id="${i + 2}" type="model" name="${escapeXml(PART_NAMES[type])}" pid="${materialsId}" pindex="${i}">`);
+        resources.push(meshXml(geometry));
+        resources.push('</object>');
+    });
+
+    if (objects.length > 0) {
+        resources.push(`<object id="${assemblyId}" type="model" name="CookieCutterGen">`, '<components>');
+        objects.forEach((_, i) => resources.push(`<component objectid="${i + 2}"/>`));
+        resources.push('</components>', '</object>');
+    }
+
+    const model = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<model unit="millimeter" xml:lang="es-ES" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">',
+        '<metadata name="Application">CookieCutterGen</metadata>',
+        '<resources>',
+        ...resources,
+        '</resources>',
+        '<build>',
+        objects.length > 0 ? `<item objectid="${assemblyId}"/>` : '',
+        '</build>',
+        '</model>'
+    ].join('\n');
+
+    const zip = new JSZip();
+    // No folder entries: some 3MF readers reject them
+    zip.file('[Content_Types].xml', CONTENT_TYPES, { createFolders: false });
+    zip.file('_rels/.rels', RELS, { createFolders: false });
+    zip.file('3D/3dmodel.model', model, { createFolders: false });
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.ms-package.3dmanufacturing-3dmodel+xml', compression: 'DEFLATE' });
+};
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import JSZip from 'jszip';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import type { CutterPart, PartType } from './geometry-generator';
+import { getPartColor, PART_NAMES, type PartColors } from './part-colors';
+
+// V54: Colored scene export (OBJ + MTL, GLB) for product pages and AR viewers.
+// The GLB writer needs FileReader and lives in src/browser/glb-export.ts.
+// Parts keep their own node (named by part id) and the viewer's colors. Like the
+// viewer, the Z-up cutter is stood on a Y-up root, which is what glTF and most
+// OBJ consumers expect.
+
+const ROOT_NAME = 'CookieCutterGen';
+
+// MTL/OBJ material names can't hold spaces
+const materialName = (type: PartType) => PART_NAMES[type].toLowerCase();
+
+/**
+ * Builds a Y-up scene with one mesh per visible part, offset by `position`
+ * exactly like the STL export.
+ */
+export const buildExportScene = (parts: CutterPart[], colors: PartColors, hiddenIds?: Set<string>): THREE.Scene => {
+    const visibleParts = hiddenIds ? parts.filter(p => !hiddenIds.has(p.id)) : parts;
+
+    // One material per part type, shared by its meshes
+    const materials = new Map<PartType, THREE.MeshStandardMaterial>();
+    const getMaterial = (type: PartType) => {
+        let material = materials.get(type);
+        if (!material) {
+            material = new THREE.MeshStandardMaterial({ color: getPartColor(type, colors), roughness: type === 'base' ? 0.7 : 0.5 });
+            material.name = materialName(type);
+            materials.set(type, material);
+        }
+        return material;
+    };
+
+    const root = new THREE.Group();
+    root.name = ROOT_NAME;
+    root.rotation.x = -Math.PI / 2; // Z-up -> Y-up (same as Viewer3D)
+
+    visibleParts.forEach(part => {
+        const geometry = part.geometry.clone();
+        geometry.clearGroups(); // Single material per part
+        if (!geometry.attributes.normal) geometry.computeVertexNormals();
+
+        const mesh = new THREE.Mesh(geometry, getMaterial(part.type));
+        mesh.name = part.id;
+        if (part.position) mesh.position.set(part.position[0], part.position[1], part.position[2]);
+        root.add(mesh);
+    });
+
+    const scene = new THREE.Scene();
+    scene.add(root);
+    scene.updateMatrixWorld(true);
+    return scene;
+};
+
+const buildMTL = (scene: THREE.Scene): string => {
+    const seen = new Set<string>();
+    const lines: string[] = [];
+    const rgb = { r: 0, g: 0, b: 0 };
+
+    scene.traverse(object => {
+        if (!(object instanceof THREE.Mesh)) return;
+        const material = object.material as THREE.MeshStandardMaterial;
+        if (seen.has(material.name)) return;
+        seen.add(material.name);
+
+        material.color.getRGB(rgb, THREE.SRGBColorSpace); // MTL colors are plain sRGB
+        lines.push(
+            `newmtl ${material.name}`,
+            `Kd ${rgb.r.toFixed(4)} ${rgb.g.toFixed(4)} ${rgb.b.toFixed(4)}`,
+            'Ka 0 0 0',
+            'Ks 0.1 0.1 0.1',
+            'd 1',
+            'illum 2',
+            ''
+        );
+    });
+    return lines.join('\n');
+};
+
+/**
+ * OBJ with an MTL material library, zipped together.
+ * @param baseName File name (without extension) used inside the zip
+ */
+export const exportToOBJ = async (parts: CutterPart[], colors: PartColors, hiddenIds?: Set<string>, baseName: string = 'modelo'): Promise<Blob> => {
+    const scene = buildExportScene(parts, colors, hiddenIds);
+    const obj = `mtllib ${baseName}.mtl\n` + new OBJExporter().parse(scene);
+
+    const zip = new JSZip();
+    zip.file(`${baseName}.obj`, obj);
+    zip.file(`${baseName}.mtl`, buildMTL(scene));
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+import type { ContourRole, DesignState } from './design-state';
+import { flattenContour } from './design-state';
+import { evaluateCompounds } from './compound-shapes';
+import type { ContourSource } from './geometry-generator';
+
+// V68: Generator Input
+// What the editor design turns into before generateGeometry: curves sampled,
+// Y flipped (the editor is Y down, the model Y up), compounds evaluated and
+// hidden contours left out. Shared by the live preview and batch generation.
+
+export interface GenerationInput {
+    contours: THREE.Vector2[][];
+    roles: ContourRole[];
+    sources: ContourSource[]; // V67: Stable IDs, passed through to the parts
+    origins: number[]; // Design contour of each input contour (first operand for compounds)
+}
+
+export const buildGenerationInput = (design: DesignState, hidden?: boolean[]): GenerationInput => {
+    const flat = design.contours.map((_, i) => flattenContour(design, i).map(p => new THREE.Vector2(p.x, -p.y)));
+
+    // V65: Compound shapes are evaluated here; their operands never reach the generator
+    const evaluated = evaluateCompounds(flat, design.roles, design.compounds);
+    const visible = evaluated.origins.map((origin, i) => hidden?.[origin] ? -1 : i).filter(i => i >= 0);
+
+    // V67: Compounds add their own step to the provenance
+    const idOf = (k: number) => design.items?.[k]?.id ?? String(k);
+    const sources: ContourSource[] = visible.map(i => {
+        const id = idOf(evaluated.origins[i]);
+        const compound = evaluated.compoundOf[i];
+        if (!compound) return { id };
+        const operandIds = compound.operands.map(idOf);
+        return { id, sourceIds: operandIds, provenance: [{ operation: 'compound', sourceIds: operandIds, detail: compound.operation }] };
+    });
+
+    return {
+        contours: visible.map(i => evaluated.contours[i]),
+        roles: visible.map(i => evaluated.roles[i]),
+        sources,
+        origins: visible.map(i => evaluated.origins[i])
+    };
+};
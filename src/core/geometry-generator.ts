@@ -1,7 +1,8 @@
 import * as THREE from 'three';
 import { STLExporter } from 'three-stdlib';
 
-import { diffContours } from './boolean-ops'; // Import Diff logic
+import { diffContours, flattenPolygons } from './boolean-ops'; // Import Diff logic
+import { offsetPolygon, splitLoops, type JoinType, type OffsetOptions } from './polygon-offset'; // V50
 
 import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 
@@ -44,20 +45,89 @@ export interface CutterSettings {
     // V20.3: Chamfer/Fillet
     keychainBevelEnabled?: boolean;
     keychainBevelSize?: number;
+
+    // V50: Offset Joins (walls, stamp tolerance, grid rims)
+    offsetJoin?: JoinType;
+    offsetMiterLimit?: number; // Multiple of the offset distance
+
+    // V51: Watertight Export
+    manifoldExport?: boolean; // Union each exported body into one closed 2-manifold
+
+    // V52: Manufacturability
+    nozzleDiameter?: number; // mm, sets the minimum printable wall
 }
 
+// V69: Shared by the app and the CLI (missing fields of saved settings fall back to these)
+export const DEFAULT_SETTINGS: CutterSettings = {
+    size: 90,
+    cutterHeight: 20,
+    cutterThickness: 0.8,
+    baseHeight: 3,
+    baseThickness: 5,
+    mirror: false,
+    withBase: true,
+    markerHeight: 14,
+    markerThickness: 0.8,
+    generationMode: 'single',
+    stampTolerance: 0.5,
+    handleHeight: 15,
+    handleThickness: 5,
+    automaticBridges: false,
+    solidBase: false,
+    bladeProfile: 'standard',
+    stampGrid: false,
+    outputType: 'cutter',
+    keychainHoleDiameter: 4,
+    keychainShape: 'silhouette',
+    keychainBasePadding: 4,
+    keychainHoleOffset: { x: 0, y: 0 },
+    keychainBevelEnabled: false,
+    keychainBevelSize: 0.5,
+    offsetJoin: 'miter',
+    offsetMiterLimit: 2,
+    manifoldExport: false,
+    nozzleDiameter: 0.4
+};
+
 export type ShapeType = 'standard' | 'rounded' | 'hexagon' | 'heart' | 'circle';
 export type PartType = 'base' | 'inner' | 'outer' | 'handle' | 'bridge'; // Added 'bridge'
 
+// V67: Provenance. Each step names the operation and the contours it used,
+// oldest first (e.g. compound -> void-cut -> wall).
+export type PartOperation =
+    | 'compound' | 'void-cut' | 'wall' | 'marker' | 'base' | 'stamp-plate'
+    | 'handle' | 'bridge' | 'relief' | 'keychain-base' | 'keychain-tab';
+
+export interface ProvenanceStep {
+    operation: PartOperation;
+    sourceIds: string[];
+    detail?: string; // e.g. the boolean operation of a compound
+}
+
+// What the caller knows about each input contour (defaults to its index)
+export interface ContourSource {
+    id: string;
+    sourceIds?: string[]; // Contours it was built from, when it is itself derived
+    provenance?: ProvenanceStep[];
+}
+
 export interface CutterPart {
     geometry: THREE.BufferGeometry;
     type: PartType;
-    contourIndex: number; // Index in the original contours array (or distinct ID)
+    contourIndex: number; // Index of the main source in the input contours (-1 = none, e.g. a global base)
+    contourId?: string; // V66: Stable ID of the main source
+    sourceIds: string[]; // V67: Every contour that shaped the part
+    provenance: ProvenanceStep[]; // V67
+    sourceIndices?: number[]; // V67: sourceIds resolved against the current design (set by the app)
     id: string; // Unique ID for React keys
     position?: [number, number, number]; // Position offset for rendering
     center?: THREE.Vector2; // Original center of the part
 }
 
+// V49: Progress reporting for the geometry worker
+export type GenerationStage = 'voids' | 'bridges' | 'walls' | 'bases';
+export type GenerationProgressCallback = (stage: GenerationStage, progress: number) => void; // progress in [0, 1]
+
 // Check if contour A is inside contour B
 const isPointInPolygon2D = (p: THREE.Vector2, polygon: THREE.Vector2[]) => {
     let inside = false;
@@ -119,39 +189,30 @@ const buildContourHierarchy = (contours: THREE.Vector2[][]): ContourNode[] => {
     return roots;
 };
 
-// Helper to expand a contour
-const offsetContour = (contour: THREE.Vector2[], distance: number): THREE.Vector2[] => {
-    if (distance === 0) return contour.map(p => p.clone());
-    const result: THREE.Vector2[] = [];
-    const len = contour.length;
-    for (let i = 0; i < len; i++) {
-        const prev = contour[(i - 1 + len) % len];
-        const curr = contour[i];
-        const next = contour[(i + 1) % len];
-
-        // Edge vectors
-        const v1 = new THREE.Vector2().subVectors(curr, prev).normalize();
-        const v2 = new THREE.Vector2().subVectors(next, curr).normalize();
-
-        // Normals (Rotate -90 deg for "Outside" if CCW)
-        const n1 = new THREE.Vector2(v1.y, -v1.x);
-        const n2 = new THREE.Vector2(v2.y, -v2.x);
-
-        // Average normal (bisector)
-        const bisector = new THREE.Vector2().addVectors(n1, n2).normalize();
-
-        // Miter length adjustment
-        const dot = bisector.dot(n1);
-        const miter = distance / Math.max(dot, 0.1);
-
-        // Limit miter to avoid huge spikes
-        const limit = Math.abs(distance) * 2;
-        const offsetDist = Math.max(-limit, Math.min(miter, limit));
-
-        const offset = bisector.multiplyScalar(offsetDist);
-        result.push(new THREE.Vector2().addVectors(curr, offset));
+// V50: Wall cross-section = the ring between a contour and its offset.
+// Positive thickness grows outward, negative grows inward (used by rims).
+const createWallShapes = (
+    contour: THREE.Vector2[],
+    thickness: number,
+    offsetOptions: OffsetOptions
+): THREE.Shape[] => {
+    const { outers, holes } = splitLoops(offsetPolygon(contour, thickness, offsetOptions));
+
+    if (thickness >= 0) {
+        return outers.map(outer => {
+            const shape = new THREE.Shape(outer);
+            [contour, ...holes].forEach(hole => {
+                if (isPointInPolygon2D(hole[0], outer)) shape.holes.push(new THREE.Path(hole));
+            });
+            return shape;
+        });
     }
-    return result;
+
+    // Inward: the contour is the outline and the inset loops are the holes.
+    // Holes of the inset (islands left between split loops) are filled as well.
+    const shape = new THREE.Shape(contour);
+    outers.forEach(inset => shape.holes.push(new THREE.Path(inset)));
+    return [shape, ...holes.map(island => new THREE.Shape(island))];
 };
 
 // Helper: Wall Geometry
@@ -159,68 +220,14 @@ const createExtrudedWall = (
     contour: THREE.Vector2[],
     height: number,
     thickness: number,
-    zStart: number = 0
+    zStart: number = 0,
+    offsetOptions: OffsetOptions = {}
 ): THREE.BufferGeometry => {
-    // Inner = contour
-    // Outer = offsetContour(contour, thickness)
-    const inner = contour;
-    const outer = offsetContour(contour, thickness);
-
-    // If offset failed (empty), fallback to inner
-    if (outer.length !== inner.length) return new THREE.BufferGeometry();
-
-    const numPoints = inner.length;
-    const vertices: number[] = [];
-
-    // Quad Helper
-    const pushQuad = (p1: THREE.Vector3, p2: THREE.Vector3, p3: THREE.Vector3, p4: THREE.Vector3) => {
-        // Tri 1: p1, p2, p4
-        vertices.push(p1.x, p1.y, p1.z);
-        vertices.push(p2.x, p2.y, p2.z);
-        vertices.push(p4.x, p4.y, p4.z);
-        // Tri 2: p2, p3, p4
-        vertices.push(p2.x, p2.y, p2.z);
-        vertices.push(p3.x, p3.y, p3.z);
-        vertices.push(p4.x, p4.y, p4.z);
-    };
-
-    for (let i = 0; i < numPoints; i++) {
-        const next = (i + 1) % numPoints;
-
-        // Bottom Z = zStart, Top Z = zStart + height
-        const zBot = zStart;
-        const zTop = zStart + height;
-
-        const i1 = new THREE.Vector3(inner[i].x, inner[i].y, zBot);
-        const i2 = new THREE.Vector3(inner[next].x, inner[next].y, zBot);
-        const i1_top = new THREE.Vector3(inner[i].x, inner[i].y, zTop);
-        const i2_top = new THREE.Vector3(inner[next].x, inner[next].y, zTop);
+    const shapes = createWallShapes(contour, thickness, offsetOptions);
+    if (shapes.length === 0 || height <= 0) return new THREE.BufferGeometry();
 
-        const o1 = new THREE.Vector3(outer[i].x, outer[i].y, zBot);
-        const o2 = new THREE.Vector3(outer[next].x, outer[next].y, zBot);
-        const o1_top = new THREE.Vector3(outer[i].x, outer[i].y, zTop);
-        const o2_top = new THREE.Vector3(outer[next].x, outer[next].y, zTop);
-
-        // 1. Inner Wall (facing IN)
-        // i1_top -> i2_top -> i2 -> i1
-        pushQuad(i1_top, i2_top, i2, i1);
-
-        // 2. Outer Wall (facing OUT)
-        // o1 -> o2 -> o2_top -> o1_top
-        pushQuad(o1, o2, o2_top, o1_top);
-
-        // 3. Top Cap (Rim)
-        // i1_top -> o1_top -> o2_top -> i2_top
-        pushQuad(i1_top, o1_top, o2_top, i2_top);
-
-        // 4. Bottom Cap (Rim)
-        // i2 -> o2 -> o1 -> i1
-        pushQuad(i2, o2, o1, i1);
-    }
-
-    const geom = new THREE.BufferGeometry();
-    geom.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-    geom.computeVertexNormals();
+    const geom = new THREE.ExtrudeGeometry(shapes, { depth: height, bevelEnabled: false });
+    geom.translate(0, 0, zStart);
     return geom;
 };
 
@@ -245,24 +252,29 @@ const createGridBase = (
     height: number,
     thickness: number, // Width of grid lines
     spacing: number, // Spacing between lines
-    rimWidth: number // Width of the solid perimeter
+    rimWidth: number, // Width of the solid perimeter
+    offsetOptions: OffsetOptions = {}
 ): THREE.BufferGeometry => {
     // 1. Create Rim
-    // Inner = contour (already offset by tolerance in main loop)
-    // Outer = offset(contour, -rimWidth) -- Inset again for rim inner edge
-    const rimOuter = contour;
-    const rimInner = offsetContour(contour, -rimWidth);
+    // Outer edge = contour (already offset by tolerance in main loop)
+    // Inner edge = inset by rimWidth. The inset may split into several loops.
+    const rimInnerLoops = offsetPolygon(contour, -rimWidth, offsetOptions);
 
     // Rim Geometry
-    const rimGeom = createExtrudedWall(rimOuter, height, -rimWidth, 0); // Negative thickness extrudes INWARD
+    const rimGeom = createExtrudedWall(contour, height, -rimWidth, 0, offsetOptions); // Negative thickness extrudes INWARD
 
-    if (rimInner.length < 3) return rimGeom; // Too small for grid
+    if (rimInnerLoops.length === 0) return rimGeom; // Too small for grid
 
     // 2. Create Grid (Scanlines)
     // Bounding Box
     const box = new THREE.Box2();
-    rimInner.forEach(p => box.expandByPoint(p));
+    rimInnerLoops.forEach(loop => loop.forEach(p => box.expandByPoint(p)));
 
+    // Every edge of every loop takes part in the even-odd scan
+    const edges: [THREE.Vector2, THREE.Vector2][] = [];
+    rimInnerLoops.forEach(loop => loop.forEach((p, i) => edges.push([p, loop[(i + 1) % loop.length]])));
+
+    // Bars are de-indexed so they merge with the (non-indexed) extruded rim
     const grids: THREE.BufferGeometry[] = [rimGeom];
 
     // X-Scan (Vertical Lines)
@@ -272,11 +284,10 @@ const createGridBase = (
 
         const intersections: number[] = [];
 
-        for (let i = 0; i < rimInner.length; i++) {
-            const next = (i + 1) % rimInner.length;
-            const hit = getIntersection(p1, p2, rimInner[i], rimInner[next]);
+        edges.forEach(([a, b]) => {
+            const hit = getIntersection(p1, p2, a, b);
             if (hit) intersections.push(hit.y);
-        }
+        });
 
         intersections.sort((a, b) => a - b);
 
@@ -289,7 +300,7 @@ const createGridBase = (
 
             const barGeo = new THREE.BoxGeometry(thickness, yEnd - yStart, height);
             barGeo.translate(x, yStart + (yEnd - yStart) / 2, height / 2);
-            grids.push(barGeo);
+            grids.push(barGeo.toNonIndexed());
         }
     }
 
@@ -301,11 +312,10 @@ const createGridBase = (
 
         const intersections: number[] = [];
 
-        for (let i = 0; i < rimInner.length; i++) {
-            const next = (i + 1) % rimInner.length;
-            const hit = getIntersection(p1, p2, rimInner[i], rimInner[next]);
+        edges.forEach(([a, b]) => {
+            const hit = getIntersection(p1, p2, a, b);
             if (hit) intersections.push(hit.x);
-        }
+        });
 
         intersections.sort((a, b) => a - b);
 
@@ -317,7 +327,7 @@ const createGridBase = (
 
             const barGeo = new THREE.BoxGeometry(xEnd - xStart, thickness, height);
             barGeo.translate(xStart + (xEnd - xStart) / 2, y, height / 2);
-            grids.push(barGeo);
+            grids.push(barGeo.toNonIndexed());
         }
     }
 
@@ -326,6 +336,28 @@ const createGridBase = (
     return merged || rimGeom;
 };
 
+// V50: Resampling helpers for the tapered wall.
+// Rings offset by different thicknesses have different vertex counts, so they are
+// sampled on a shared arc-length parameterization before lofting between them.
+const getRingParams = (ring: THREE.Vector2[]): number[] => {
+    const lengths = [0];
+    for (let i = 1; i <= ring.length; i++) {
+        lengths.push(lengths[i - 1] + ring[i - 1].distanceTo(ring[i % ring.length]));
+    }
+    const total = lengths[lengths.length - 1] || 1;
+    return lengths.map(l => l / total);
+};
+
+const sampleRing = (ring: THREE.Vector2[], ringParams: number[], params: number[]): THREE.Vector2[] => {
+    let seg = 0;
+    return params.map(t => {
+        while (seg < ring.length - 1 && ringParams[seg + 1] < t) seg++;
+        const span = ringParams[seg + 1] - ringParams[seg];
+        const local = span > 0 ? (t - ringParams[seg]) / span : 0;
+        return new THREE.Vector2().lerpVectors(ring[seg], ring[(seg + 1) % ring.length], local);
+    });
+};
+
 // Helper: Tapered Wall (Lofted Extrusion)
 // This creates a multi-section wall where inner surface is vertical,
 // but outer surface interpolates between thicknesses.
@@ -334,7 +366,8 @@ const createTaperedWall = (
     zStart: number,
     heights: number[], // Height of each section (relative to previous)
     bottomThicknesses: number[], // Thickness at bottom of each section
-    topThicknesses: number[] // Thickness at top of each section
+    topThicknesses: number[], // Thickness at top of each section
+    offsetOptions: OffsetOptions = {}
 ): THREE.BufferGeometry => {
     // Inner surface is uniform (using contour).
     // Outer surface varies.
@@ -345,82 +378,111 @@ const createTaperedWall = (
     // 2. Taper (Slope): H=3, Thick=0.4 -> 0.8
     // 3. Base (Strong): H=Rest, Thick=0.8 -> 0.8
 
-    const geometries: THREE.BufferGeometry[] = [];
-    let currentZ = zStart;
-
-    for (let i = 0; i < heights.length; i++) {
-        const h = heights[i];
-        const tBot = bottomThicknesses[i];
-        const tTop = topThicknesses[i];
-
-        // If thickness is uniform, use createExtrudedWall (optimized)
-        // BUT createExtrudedWall makes vertical walls.
-        // If tBot != tTop, we need a custom loft.
-
-        // Inner Contour (Always same)
-        const inner = contour;
-        const outerBot = offsetContour(contour, tBot);
-        const outerTop = offsetContour(contour, tTop);
+    // Fallback when an offset splits or gains holes: plain vertical sections
+    const createVerticalSections = () => {
+        const sections: THREE.BufferGeometry[] = [];
+        let z = zStart;
+        heights.forEach((h, i) => {
+            sections.push(createExtrudedWall(contour, h, Math.max(bottomThicknesses[i], topThicknesses[i]), z, offsetOptions));
+            z += h;
+        });
+        return mergeGeometries(sections, false) || new THREE.BufferGeometry();
+    };
 
-        // Safety fallback
-        if (outerBot.length !== inner.length || outerTop.length !== inner.length) continue;
+    // Inner ring, counter-clockwise like the offset rings
+    const inner = THREE.ShapeUtils.isClockWise(contour) ? [...contour].reverse() : contour;
+    if (inner.length < 3) return new THREE.BufferGeometry();
 
-        const numPoints = inner.length;
-        const vertices: number[] = [];
+    // One offset ring per distinct thickness, rotated to start next to inner[0]
+    const rings = new Map<number, THREE.Vector2[]>();
+    for (const t of new Set([...bottomThicknesses, ...topThicknesses])) {
+        const { outers, holes } = splitLoops(offsetPolygon(inner, t, offsetOptions));
+        if (outers.length !== 1 || holes.length > 0) return createVerticalSections();
 
-        // Push Quad Helper (redefined here or moved to scope needed?)
-        // Let's redefine for simplicity or hoist it.
-        // It's small.
-        const pushQuad = (p1: THREE.Vector3, p2: THREE.Vector3, p3: THREE.Vector3, p4: THREE.Vector3) => {
-            vertices.push(p1.x, p1.y, p1.z, p2.x, p2.y, p2.z, p4.x, p4.y, p4.z);
-            vertices.push(p2.x, p2.y, p2.z, p3.x, p3.y, p3.z, p4.x, p4.y, p4.z);
-        };
+        const ring = outers[0];
+        let startIdx = 0;
+        ring.forEach((p, k) => {
+            if (p.distanceToSquared(inner[0]) < ring[startIdx].distanceToSquared(inner[0])) startIdx = k;
+        });
+        rings.set(t, [...ring.slice(startIdx), ...ring.slice(0, startIdx)]);
+    }
 
-        const zBot = currentZ;
-        const zTop = currentZ + h;
+    // Shared parameterization: every ring keeps its own corners
+    const ringParams = new Map<number, number[]>();
+    const allParams: number[] = [];
+    rings.forEach((ring, t) => {
+        const params = getRingParams(ring);
+        ringParams.set(t, params);
+        allParams.push(...params.slice(0, -1));
+    });
+    allParams.sort((a, b) => a - b);
+    const params = allParams.filter((t, k) => k === 0 || t - allParams[k - 1] > 1e-4);
 
-        for (let j = 0; j < numPoints; j++) {
-            const next = (j + 1) % numPoints;
+    const sampled = new Map<number, THREE.Vector2[]>();
+    rings.forEach((ring, t) => sampled.set(t, sampleRing(ring, ringParams.get(t)!, params)));
 
-            const i1 = new THREE.Vector3(inner[j].x, inner[j].y, zBot);
-            const i2 = new THREE.Vector3(inner[next].x, inner[next].y, zBot);
-            const i1_top = new THREE.Vector3(inner[j].x, inner[j].y, zTop);
-            const i2_top = new THREE.Vector3(inner[next].x, inner[next].y, zTop);
+    const vertices: number[] = [];
+    const pushTri = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+        vertices.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+    };
 
-            // Outer surface depends on Bot vs Top offsets
-            const o1 = new THREE.Vector3(outerBot[j].x, outerBot[j].y, zBot);
-            const o2 = new THREE.Vector3(outerBot[next].x, outerBot[next].y, zBot);
-            const o1_top = new THREE.Vector3(outerTop[j].x, outerTop[j].y, zTop);
-            const o2_top = new THREE.Vector3(outerTop[next].x, outerTop[next].y, zTop);
+    // Ring cap facing up (+Z) or down (-Z)
+    const pushCap = (outer: THREE.Vector2[], z: number, facingUp: boolean) => {
+        const points = [...outer, ...inner];
+        const faces = THREE.ShapeUtils.triangulateShape(outer, [inner]);
+        // Earcut winds all faces the same way; decide the flip once (sliver faces have unreliable signs)
+        const totalArea = faces.reduce((sum, [a, b, c]) => sum + THREE.ShapeUtils.area([points[a], points[b], points[c]]), 0);
+        const ccw = totalArea > 0;
+        faces.forEach(([a, b, c]) => {
+            const [p1, p2, p3] = ccw === facingUp ? [a, b, c] : [a, c, b];
+            pushTri(
+                new THREE.Vector3(points[p1].x, points[p1].y, z),
+                new THREE.Vector3(points[p2].x, points[p2].y, z),
+                new THREE.Vector3(points[p3].x, points[p3].y, z)
+            );
+        });
+    };
 
-            // 1. Inner Wall (Vertical)
-            pushQuad(i1_top, i2_top, i2, i1);
+    const totalHeight = heights.reduce((sum, h) => sum + h, 0);
+    const zTopAll = zStart + totalHeight;
 
-            // 2. Outer Wall (Sloped)
-            pushQuad(o1, o2, o2_top, o1_top);
+    // 1. Inner Wall (Vertical, full height, facing the hole)
+    for (let j = 0; j < inner.length; j++) {
+        const a = inner[j];
+        const b = inner[(j + 1) % inner.length];
+        pushTri(new THREE.Vector3(b.x, b.y, zStart), new THREE.Vector3(a.x, a.y, zStart), new THREE.Vector3(a.x, a.y, zTopAll));
+        pushTri(new THREE.Vector3(b.x, b.y, zStart), new THREE.Vector3(a.x, a.y, zTopAll), new THREE.Vector3(b.x, b.y, zTopAll));
+    }
 
-            // 3. Top Cap (Rim) (Only needed for top section? Or internal caps?)
-            // Internal caps are hidden. Only top section needs a cap.
-            // Actually, "stepped" implies no internal caps needed if continuous.
-            if (i === heights.length - 1) {
-                pushQuad(i1_top, o1_top, o2_top, i2_top);
-            }
+    // 2. Outer Wall (Sloped per section)
+    let currentZ = zStart;
+    heights.forEach((h, i) => {
+        const bot = sampled.get(bottomThicknesses[i])!;
+        const top = sampled.get(topThicknesses[i])!;
+        const zBot = currentZ;
+        const zTop = currentZ + h;
 
-            // 4. Bottom Cap (Only needed for bottom section)
-            if (i === 0) {
-                pushQuad(i2, o2, o1, i1);
-            }
+        for (let j = 0; j < params.length; j++) {
+            const next = (j + 1) % params.length;
+            const o1 = new THREE.Vector3(bot[j].x, bot[j].y, zBot);
+            const o2 = new THREE.Vector3(bot[next].x, bot[next].y, zBot);
+            const o1_top = new THREE.Vector3(top[j].x, top[j].y, zTop);
+            const o2_top = new THREE.Vector3(top[next].x, top[next].y, zTop);
+            pushTri(o1, o2, o2_top);
+            pushTri(o1, o2_top, o1_top);
         }
 
-        const sectionGeom = new THREE.BufferGeometry();
-        sectionGeom.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
-        sectionGeom.computeVertexNormals();
-        geometries.push(sectionGeom);
+        currentZ = zTop;
+    });
 
-        currentZ += h;
-    }
+    // 3. Top Cap (Rim) and 4. Bottom Cap. Internal section boundaries need no caps.
+    pushCap(sampled.get(bottomThicknesses[0])!, zStart, false);
+    pushCap(sampled.get(topThicknesses[topThicknesses.length - 1])!, zTopAll, true);
 
-    return mergeGeometries(geometries, true);
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+    geom.computeVertexNormals();
+    return geom;
 };
 
 // Helper: Stepped Wall (Legacy / Backup)
@@ -430,7 +492,8 @@ const createSteppedWall = (
     baseThickness: number,
     tipThickness: number,
     tipHeight: number = 1.0,
-    zStart: number = 0
+    zStart: number = 0,
+    offsetOptions: OffsetOptions = {}
 ): THREE.BufferGeometry => {
     // V23 Upgrade: Use Tapered Wall for "Stepped" profile request.
     // Structure:
@@ -471,7 +534,7 @@ const createSteppedWall = (
     botTs.push(tipThickness);
     topTs.push(tipThickness);
 
-    return createTaperedWall(contour, zStart, heights, botTs, topTs);
+    return createTaperedWall(contour, zStart, heights, botTs, topTs, offsetOptions);
 };
 
 // Helper to determine if a contour is an outer boundary or a hole
@@ -486,7 +549,9 @@ export const generateGeometry = (
     roles: ('cut' | 'stamp' | 'auto' | 'base' | 'void')[] | undefined, // Added 'void' role
     imgWidth: number,
     imgHeight: number,
-    settings: CutterSettings
+    settings: CutterSettings,
+    onProgress?: GenerationProgressCallback,
+    sources?: ContourSource[] // V67: Stable IDs of the inputs (parallel to contours)
 ): CutterPart[] => {
     // 1. Normalize and Center contours
     const scale = settings.size / Math.max(imgWidth, imgHeight);
@@ -512,11 +577,13 @@ export const generateGeometry = (
     // 0. Pre-process Contours: Separate Solids and Voids (Holes)
     const solidContours: THREE.Vector2[][] = [];
     const voidContours: THREE.Vector2[][] = [];
+    const voidIndices: number[] = [];
     const solidIndices: number[] = []; // Map back to original index for selection
 
     processedRawContours.forEach((contour, i) => {
         if (roles && roles[i] === 'void') {
             voidContours.push(contour);
+            voidIndices.push(i);
         } else {
             solidContours.push(contour);
             solidIndices.push(i);
@@ -524,7 +591,7 @@ export const generateGeometry = (
     });
 
     // Apply Boolean Difference if there are voids
-    let finalProcessedParts: { points: THREE.Vector2[], originIdx: number }[] = [];
+    let finalProcessedParts: { points: THREE.Vector2[], originIdx: number, cutBy: number[] }[] = [];
 
     if (voidContours.length > 0) {
         // Note: This simple implementation subtracts ALL voids from EACH solid.
@@ -535,28 +602,36 @@ export const generateGeometry = (
         // This mapping is tricky for Selection sync.
         // If Solid A (index 0) gets cut in half, we have A1 and A2. Both should select index 0.
 
+        onProgress?.('voids', 0);
+        const voidBoxes = voidContours.map(v => new THREE.Box2().setFromPoints(v));
         solidContours.forEach((solid, idx) => {
             let currentSolids = [solid];
+            const cutBy: number[] = []; // V67: Voids that actually changed this solid
+
+            voidContours.forEach((voidShape, v) => {
+                if (!new THREE.Box2().setFromPoints(solid).intersectsBox(voidBoxes[v])) return;
 
-            voidContours.forEach(voidShape => {
                 // Subtract voidShape from all currentSolids
                 const nextPass: THREE.Vector2[][] = [];
                 currentSolids.forEach(s => {
-                    const res = diffContours(s, voidShape); // Returns array of polygons
+                    const res = flattenPolygons(diffContours(s, voidShape)); // V63: Rings stay separate walls here
                     nextPass.push(...res);
                 });
+                const area = (rings: THREE.Vector2[][]) => rings.reduce((sum, r) => sum + Math.abs(THREE.ShapeUtils.area(r)), 0);
+                if (Math.abs(area(nextPass) - area(currentSolids)) > 1e-6) cutBy.push(voidIndices[v]);
                 currentSolids = nextPass;
             });
 
             // Add results
             currentSolids.forEach(c => {
-                finalProcessedParts.push({ points: c, originIdx: solidIndices[idx] });
+                finalProcessedParts.push({ points: c, originIdx: solidIndices[idx], cutBy });
             });
+            onProgress?.('voids', (idx + 1) / solidContours.length);
         });
     } else {
         // If no voids, all processedRawContours are solids
         processedRawContours.forEach((c, i) => {
-            finalProcessedParts.push({ points: c, originIdx: i });
+            finalProcessedParts.push({ points: c, originIdx: i, cutBy: [] });
         });
     }
 
@@ -586,8 +661,38 @@ export const generateGeometry = (
 
     const results: CutterPart[] = [];
 
+    // V67: Every part points back at the input contours it came from
+    const sourceOf = (k: number): ContourSource => sources?.[k] ?? { id: String(k) };
+    const idsOf = (k: number) => sourceOf(k).sourceIds ?? [sourceOf(k).id];
+
+    // Part built from input contours directly (bridges, global base)
+    const inputProvenance = (primary: number, inputs: number[], operation: PartOperation) => ({
+        contourIndex: primary,
+        contourId: primary >= 0 ? sourceOf(primary).id : undefined,
+        sourceIds: [...new Set(inputs.flatMap(idsOf))],
+        provenance: [{ operation, sourceIds: inputs.map(k => sourceOf(k).id) }]
+    });
+
+    // Part built from processed contour i, plus related ones (e.g. relief holes)
+    const provenanceFor = (i: number, operation: PartOperation, related: number[] = []) => {
+        const part = finalProcessedParts[i];
+        const origin = sourceOf(part.originIdx);
+        const others = related.map(r => finalProcessedParts[r]);
+        const inputs = [part, ...others].flatMap(p => [p.originIdx, ...p.cutBy]);
+        const steps = [...(origin.provenance ?? [])];
+        if (part.cutBy.length > 0) steps.push({ operation: 'void-cut', sourceIds: [origin.id, ...part.cutBy.map(v => sourceOf(v).id)] });
+        steps.push({ operation, sourceIds: [...new Set([origin.id, ...others.map(p => sourceOf(p.originIdx).id)])] });
+        return {
+            contourIndex: part.originIdx,
+            contourId: origin.id,
+            sourceIds: [...new Set(inputs.flatMap(idsOf))],
+            provenance: steps
+        };
+    };
+
     // --- Automatic Bridges ---
     if (settings.automaticBridges) {
+        onProgress?.('bridges', 0);
         // For bridges, we need to consider the original contours and their hierarchy
         // This part needs to be adapted to work with the boolean-processed contours
         // For simplicity, let's apply bridges to the *original* outer contours
@@ -672,10 +777,11 @@ export const generateGeometry = (
             results.push({
                 geometry,
                 type: 'bridge',
-                contourIndex: childIdx, // Use original child index
+                ...inputProvenance(childIdx, [childIdx, parentIdx], 'bridge'), // Selects the bridged child
                 id: `bridge-${childIdx}-${parentIdx}`
             });
         });
+        onProgress?.('bridges', 1);
     }
 
     // --- Global Bounding Box (V20.4) ---
@@ -694,8 +800,15 @@ export const generateGeometry = (
 
     const hasManualBase = roles ? roles.some(r => r === 'base') : false;
 
+    // V50: Join style shared by every wall/tolerance/rim offset
+    const wallOffset: OffsetOptions = {
+        joinType: settings.offsetJoin ?? 'miter',
+        miterLimit: settings.offsetMiterLimit ?? 2
+    };
+
     // --- Generation Loop ---
     processedContours.forEach((contour, i) => {
+        onProgress?.('walls', i / processedContours.length);
         const type = finalTypes[i];
 
         if (settings.outputType === 'keychain') {
@@ -712,7 +825,7 @@ export const generateGeometry = (
                         bevelSize: settings.keychainBevelSize || 0,
                         bevelSegments: 3
                     });
-                    results.push({ geometry: baseGeom, type: 'base', contourIndex: i, id: `keychain-base-${i}` });
+                    results.push({ geometry: baseGeom, type: 'base', ...provenanceFor(i, 'keychain-base'), id: `keychain-base-${i}` });
                 }
 
                 if (i === largestIndex && settings.keychainHoleDiameter > 0) {
@@ -742,7 +855,7 @@ export const generateGeometry = (
                         bevelSize: settings.keychainBevelSize || 0,
                         bevelSegments: 3
                     });
-                    results.push({ geometry: tabGeom, type: 'base', contourIndex: -1, id: `keychain-tab` });
+                    results.push({ geometry: tabGeom, type: 'base', ...provenanceFor(i, 'keychain-tab'), id: `keychain-tab` });
                 }
             }
 
@@ -757,7 +870,7 @@ export const generateGeometry = (
                         bevelSize: settings.keychainBevelSize || 0,
                         bevelSegments: 3
                     });
-                    results.push({ geometry: baseGeom, type: 'base', contourIndex: i, id: `keychain-manual-base-${i}` });
+                    results.push({ geometry: baseGeom, type: 'base', ...provenanceFor(i, 'base'), id: `keychain-manual-base-${i}` });
                     return; // It's just a base
                 }
             }
@@ -784,8 +897,8 @@ export const generateGeometry = (
             // Outline uses ExtrudedWall of the CONTOUR.
             // Having both is fine, creates a "stroke".
 
-            const reliefGeom = createExtrudedWall(contour, reliefHeight, thickness, settings.baseHeight);
-            results.push({ geometry: reliefGeom, type: 'inner', contourIndex: i, id: `keychain-relief-outline-${i}` });
+            const reliefGeom = createExtrudedWall(contour, reliefHeight, thickness, settings.baseHeight, wallOffset);
+            results.push({ geometry: reliefGeom, type: 'inner', ...provenanceFor(i, 'relief'), id: `keychain-relief-outline-${i}` });
 
         } else if (settings.generationMode === 'single') {
             if (type === 'outer') {
@@ -793,10 +906,10 @@ export const generateGeometry = (
                     if (settings.solidBase) {
                         const shape = new THREE.Shape(contour);
                         const baseGeom = new THREE.ExtrudeGeometry(shape, { depth: settings.baseHeight, bevelEnabled: false });
-                        results.push({ geometry: baseGeom, type: 'base', contourIndex: i, id: `base-${i}` });
+                        results.push({ geometry: baseGeom, type: 'base', ...provenanceFor(i, 'base'), id: `base-${i}` });
                     } else {
-                        const baseWall = createExtrudedWall(contour, settings.baseHeight, settings.baseThickness, 0);
-                        results.push({ geometry: baseWall, type: 'base', contourIndex: i, id: `base-${i}` });
+                        const baseWall = createExtrudedWall(contour, settings.baseHeight, settings.baseThickness, 0, wallOffset);
+                        results.push({ geometry: baseWall, type: 'base', ...provenanceFor(i, 'base'), id: `base-${i}` });
                     }
                 }
 
@@ -807,9 +920,9 @@ export const generateGeometry = (
                     const tipH = 1.0;
                     const tipT = 0.4;
                     const baseT = Math.max(settings.cutterThickness, 0.6);
-                    cutterWall = createSteppedWall(contour, settings.cutterHeight, baseT, tipT, tipH, 0);
+                    cutterWall = createSteppedWall(contour, settings.cutterHeight, baseT, tipT, tipH, 0, wallOffset);
                 } else {
-                    cutterWall = createExtrudedWall(contour, settings.cutterHeight, settings.cutterThickness, 0);
+                    cutterWall = createExtrudedWall(contour, settings.cutterHeight, settings.cutterThickness, 0, wallOffset);
                 }
 
                 // Center geometry
@@ -823,14 +936,14 @@ export const generateGeometry = (
                 results.push({
                     geometry: cutterWall,
                     type: 'outer',
-                    contourIndex: i,
+                    ...provenanceFor(i, 'wall'),
                     id: `wall-${i}`,
                     position: [center.x, center.y, 0],
                     center: center
                 });
 
             } else {
-                const markerWall = createExtrudedWall(contour, settings.markerHeight, settings.markerThickness, 0);
+                const markerWall = createExtrudedWall(contour, settings.markerHeight, settings.markerThickness, 0, wallOffset);
 
                 const box = new THREE.Box2();
                 contour.forEach(p => box.expandByPoint(p));
@@ -842,7 +955,7 @@ export const generateGeometry = (
                 results.push({
                     geometry: markerWall,
                     type: 'inner',
-                    contourIndex: i,
+                    ...provenanceFor(i, 'marker'),
                     id: `marker-${i}`,
                     position: [center.x, center.y, 0],
                     center: center
@@ -856,9 +969,9 @@ export const generateGeometry = (
                     const tipH = 1.0;
                     const tipT = 0.4;
                     const baseT = Math.max(settings.cutterThickness, 0.6);
-                    cutterWall = createSteppedWall(contour, settings.cutterHeight, baseT, tipT, tipH, 0);
+                    cutterWall = createSteppedWall(contour, settings.cutterHeight, baseT, tipT, tipH, 0, wallOffset);
                 } else {
-                    cutterWall = createExtrudedWall(contour, settings.cutterHeight, settings.cutterThickness, 0);
+                    cutterWall = createExtrudedWall(contour, settings.cutterHeight, settings.cutterThickness, 0, wallOffset);
                 }
                 // Center geometry
                 const box = new THREE.Box2();
@@ -871,7 +984,7 @@ export const generateGeometry = (
                 results.push({
                     geometry: cutterWall,
                     type: 'outer',
-                    contourIndex: i,
+                    ...provenanceFor(i, 'wall'),
                     id: `dual-cut-${i}`,
                     position: [center.x, center.y, 0],
                     center: center
@@ -893,13 +1006,13 @@ export const generateGeometry = (
                         results.push({
                             geometry: baseGeom,
                             type: 'base',
-                            contourIndex: i,
+                            ...provenanceFor(i, 'base'),
                             id: `dual-cut-base-${i}`,
                             position: [center.x, center.y, 0],
                             center: center
                         });
                     } else {
-                        const baseWall = createExtrudedWall(contour, settings.baseHeight, settings.baseThickness, 0);
+                        const baseWall = createExtrudedWall(contour, settings.baseHeight, settings.baseThickness, 0, wallOffset);
 
                         // Center geometry
                         const box = new THREE.Box2();
@@ -912,7 +1025,7 @@ export const generateGeometry = (
                         results.push({
                             geometry: baseWall,
                             type: 'base',
-                            contourIndex: i,
+                            ...provenanceFor(i, 'base'),
                             id: `dual-cut-base-${i}`,
                             position: [center.x, center.y, 0],
                             center: center
@@ -921,17 +1034,20 @@ export const generateGeometry = (
                 }
 
                 const tolerance = Math.max(0.1, settings.stampTolerance);
-                const stampPlateContour = offsetContour(contour, -tolerance);
+                // V50: The inset may split thin shapes into several plates
+                const { outers: plateOuters, holes: plateHoles } = splitLoops(offsetPolygon(contour, -tolerance, wallOffset));
+                const stampPlateContour = plateOuters.flat(); // All plate points, for bounds
 
-                if (stampPlateContour.length > 2) {
+                if (plateOuters.length > 0) {
                     if (settings.stampGrid) {
-                        const gridGeom = createGridBase(
-                            stampPlateContour,
+                        const gridGeom = mergeGeometries(plateOuters.map(plate => createGridBase(
+                            plate,
                             settings.baseHeight,
                             0.8,
                             4.0,
-                            1.2
-                        );
+                            1.2,
+                            wallOffset
+                        )), false) || new THREE.BufferGeometry();
 
                         // Center geometry
                         const box = new THREE.Box2();
@@ -944,14 +1060,20 @@ export const generateGeometry = (
                         results.push({
                             geometry: gridGeom,
                             type: 'base',
-                            contourIndex: i,
+                            ...provenanceFor(i, 'stamp-plate'),
                             id: `dual-stamp-plate-${i}`,
                             position: [center.x, center.y, 0],
                             center: center
                         });
                     } else {
-                        const plateShape = new THREE.Shape(stampPlateContour);
-                        const plateGeom = new THREE.ExtrudeGeometry(plateShape, { depth: settings.baseHeight, bevelEnabled: false });
+                        const plateShapes = plateOuters.map(plate => {
+                            const shape = new THREE.Shape(plate);
+                            plateHoles.forEach(hole => {
+                                if (isPointInPolygon2D(hole[0], plate)) shape.holes.push(new THREE.Path(hole));
+                            });
+                            return shape;
+                        });
+                        const plateGeom = new THREE.ExtrudeGeometry(plateShapes, { depth: settings.baseHeight, bevelEnabled: false });
 
                         // Center geometry
                         const box = new THREE.Box2();
@@ -964,7 +1086,7 @@ export const generateGeometry = (
                         results.push({
                             geometry: plateGeom,
                             type: 'base',
-                            contourIndex: i,
+                            ...provenanceFor(i, 'stamp-plate'),
                             id: `dual-stamp-plate-${i}`,
                             position: [center.x, center.y, 0],
                             center: center
@@ -983,13 +1105,15 @@ export const generateGeometry = (
 
                     const handleGeo = new THREE.BoxGeometry(hThickness, Math.min(size.y * 0.8, size.y - 4), hHeight);
                     handleGeo.translate(center.x, center.y, settings.baseHeight + hHeight / 2);
-                    results.push({ geometry: handleGeo, type: 'handle', contourIndex: i, id: `dual-stamp-handle-${i}` });
+                    results.push({ geometry: handleGeo, type: 'handle', ...provenanceFor(i, 'handle'), id: `dual-stamp-handle-${i}` });
                 }
             }
         }
     });
+    onProgress?.('walls', 1);
 
     // --- Post-Loop: Geometric Base (Global) ---
+    onProgress?.('bases', 0);
     if (settings.outputType === 'keychain' && settings.keychainShape !== 'silhouette' && !hasManualBase) {
         const center = globalCenter;
 
@@ -1095,7 +1219,7 @@ export const generateGeometry = (
             bevelSize: settings.keychainBevelSize || 0,
             bevelSegments: 3
         });
-        results.push({ geometry: baseGeom, type: 'base', contourIndex: -1, id: `keychain-base-global` });
+        results.push({ geometry: baseGeom, type: 'base', ...inputProvenance(-1, solidIndices, 'keychain-base'), id: `keychain-base-global` });
     }
 
     // --- Post-Loop: V19 Keychain Solid Relief ---
@@ -1126,7 +1250,7 @@ export const generateGeometry = (
 
                 // Sit on top of base
                 reliefGeom.translate(0, 0, settings.baseHeight);
-                results.push({ geometry: reliefGeom, type: 'inner', contourIndex: node.id, id: `keychain-solid-relief-${node.id}` });
+                results.push({ geometry: reliefGeom, type: 'inner', ...provenanceFor(node.id, 'relief', node.children.map(c => c.id)), id: `keychain-solid-relief-${node.id}` });
             }
 
             // Recurse
@@ -1135,17 +1259,19 @@ export const generateGeometry = (
 
         rootNodes.forEach(processNodeForRelief);
     }
+    onProgress?.('bases', 1);
 
     return results;
 };
 
-export const exportToSTL = (parts: CutterPart[], hiddenIds?: Set<string>): Blob => {
-    const exporter = new STLExporter();
-
+/**
+ * Visible parts as standalone geometries in world space, ready for export.
+ */
+export const getExportGeometries = (parts: CutterPart[], hiddenIds?: Set<string>): THREE.BufferGeometry[] => {
     // Filter hidden parts
     const visibleParts = hiddenIds ? parts.filter(p => !hiddenIds.has(p.id)) : parts;
 
-    const geometries = visibleParts.map(p => {
+    return visibleParts.map(p => {
         let g = p.geometry.clone();
 
         // V36.2: Fix Export Position
@@ -1161,12 +1287,20 @@ export const exportToSTL = (parts: CutterPart[], hiddenIds?: Set<string>): Blob
         if (g.index) g = g.toNonIndexed();
         return g;
     });
+};
 
+export const geometryToSTL = (geometry: THREE.BufferGeometry): Blob => {
+    const exporter = new STLExporter();
+    const result = exporter.parse(new THREE.Mesh(geometry), { binary: true });
+    return new Blob([result as any], { type: 'application/octet-stream' });
+};
+
+export const exportToSTL = (parts: CutterPart[], hiddenIds?: Set<string>): Blob => {
+    const geometries = getExportGeometries(parts, hiddenIds);
     if (geometries.length === 0) return new Blob([]);
 
     const merged = mergeGeometries(geometries, false);
     if (!merged) return new Blob([]);
 
-    const result = exporter.parse(new THREE.Mesh(merged), { binary: true });
-    return new Blob([result as any], { type: 'application/octet-stream' });
+    return geometryToSTL(merged);
 };
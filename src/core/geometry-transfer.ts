@@ -0,0 +1,88 @@
+import * as THREE from 'three';
+import type { CutterPart, PartType, ProvenanceStep } from './geometry-generator';
+
+// V49: Plain-data form of a CutterPart so it can cross the worker boundary.
+// Attribute arrays are handed over as transferables instead of being cloned.
+export interface SerializedAttribute {
+    array: Float32Array;
+    itemSize: number;
+    normalized: boolean;
+}
+
+export interface SerializedPart {
+    type: PartType;
+    contourIndex: number;
+    contourId?: string;
+    sourceIds: string[]; // V67
+    provenance: ProvenanceStep[];
+    id: string;
+    position?: [number, number, number];
+    center?: { x: number, y: number };
+    attributes: Record<string, SerializedAttribute>;
+    index: Uint32Array | Uint16Array | null;
+}
+
+export const serializeParts = (parts: CutterPart[]): { parts: SerializedPart[], transfer: ArrayBuffer[] } => {
+    // A buffer may only appear once in the transfer list
+    const transfer = new Set<ArrayBuffer>();
+
+    const serialized = parts.map(part => {
+        const attributes: Record<string, SerializedAttribute> = {};
+
+        Object.entries(part.geometry.attributes).forEach(([name, attr]) => {
+            if (!(attr instanceof THREE.BufferAttribute)) return; // Interleaved attributes are not produced by the generator
+            const array = attr.array instanceof Float32Array ? attr.array : new Float32Array(attr.array);
+            attributes[name] = { array, itemSize: attr.itemSize, normalized: attr.normalized };
+            transfer.add(array.buffer as ArrayBuffer);
+        });
+
+        let index: Uint32Array | Uint16Array | null = null;
+        if (part.geometry.index) {
+            const source = part.geometry.index.array;
+            index = source instanceof Uint16Array ? source : new Uint32Array(source);
+            transfer.add(index.buffer as ArrayBuffer);
+        }
+
+        return {
+            type: part.type,
+            contourIndex: part.contourIndex,
+            contourId: part.contourId,
+            sourceIds: part.sourceIds,
+            provenance: part.provenance,
+            id: part.id,
+            position: part.position,
+            center: part.center ? { x: part.center.x, y: part.center.y } : undefined,
+            attributes,
+            index
+        };
+    });
+
+    return { parts: serialized, transfer: Array.from(transfer) };
+};
+
+export const deserializeParts = (parts: SerializedPart[]): CutterPart[] => {
+    return parts.map(part => {
+        const geometry = new THREE.BufferGeometry();
+
+        Object.entries(part.attributes).forEach(([name, attr]) => {
+            geometry.setAttribute(name, new THREE.BufferAttribute(attr.array, attr.itemSize, attr.normalized));
+        });
+        if (part.index) {
+            geometry.setIndex(new THREE.BufferAttribute(part.index, 1));
+        }
+        geometry.computeBoundingBox();
+        geometry.computeBoundingSphere();
+
+        return {
+            geometry,
+            type: part.type,
+            contourIndex: part.contourIndex,
+            contourId: part.contourId,
+            sourceIds: part.sourceIds,
+            provenance: part.provenance,
+            id: part.id,
+            position: part.position,
+            center: part.center ? new THREE.Vector2(part.center.x, part.center.y) : undefined
+        };
+    });
+};
@@ -1,24 +1,16 @@
 import * as THREE from 'three';
+import { contourArea, traceIsolines } from './marching-squares';
+import type { ContourRole } from './design-state';
 
 export interface TraceResult {
     contours: THREE.Vector2[][];
+    parents: number[]; // V71: Enclosing contour of each one (-1 = outer); holes wind the other way
     width: number;
     height: number;
 }
 
-export const loadImage = (file: File): Promise<HTMLImageElement> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const img = new Image();
-            img.onload = () => resolve(img);
-            img.onerror = reject;
-            img.src = e.target?.result as string;
-        };
-        reader.onerror = reject;
-        reader.readAsDataURL(file);
-    });
-};
+// Traced loops smaller than this (square pixels) are noise
+const MIN_CONTOUR_AREA = 8;
 
 // V16: Smart Trace Options
 export interface ProcessOptions {
@@ -53,50 +45,27 @@ const computeIntegralImage = (data: Uint8ClampedArray, width: number, height: nu
 };
 
 
-// Helper to prepare image data (Main Thread Only)
-export const prepareImageForTrace = (image: HTMLImageElement, options: ProcessOptions) => {
-    const { highRes, blur } = options;
-    const MAX_DIM = highRes ? 2500 : 1024; // V32: High Res Mode
-    let width = image.width;
-    let height = image.height;
-
-    if (width > MAX_DIM || height > MAX_DIM) {
-        const ratio = Math.min(MAX_DIM / width, MAX_DIM / height);
-        width = Math.round(width * ratio);
-        height = Math.round(height * ratio);
-    }
-
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('Could not get 2d context');
-
-    // Apply Filtering (Blur)
-    if (blur > 0) {
-        ctx.filter = `blur(${blur}px)`;
-    }
-    ctx.drawImage(image, 0, 0, width, height);
-    const imageData = ctx.getImageData(0, 0, width, height);
-
-    return {
-        imageData,
-        meta: { originalWidth: image.width, originalHeight: image.height }
-    };
+// V69: RGBA pixels without the DOM type, so decoded images (CLI) can be traced too.
+// ImageData fits this shape.
+export interface RasterImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray; // RGBA, row by row
 }
 
-export const processImage = (
-    image: HTMLImageElement,
-    options: ProcessOptions
-): TraceResult => {
-    // Synchronous fallback (uses prepare + process)
-    const { imageData, meta } = prepareImageForTrace(image, options);
-    return processImageData(imageData, options, meta);
+/**
+ * Size the image is traced at: large images are scaled down to fit.
+ */
+export const traceSize = (width: number, height: number, highRes: boolean): { width: number, height: number } => {
+    const MAX_DIM = highRes ? 2500 : 1024; // V32: High Res Mode
+    if (width <= MAX_DIM && height <= MAX_DIM) return { width, height };
+    const ratio = Math.min(MAX_DIM / width, MAX_DIM / height);
+    return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
 };
 
 // Pure logic function (Worker Friendly)
 export const processImageData = (
-    imageData: ImageData,
+    imageData: RasterImage,
     options: ProcessOptions,
     meta: { originalWidth: number, originalHeight: number }
 ): TraceResult => {
@@ -104,130 +73,93 @@ export const processImageData = (
     const { width, height } = imageData;
     const data = imageData.data; // Uint8ClampedArray
 
-    // Note: Blur was previously done via Context2D filter.
-    // Inside worker we cannot use Context2D.
-    // If we move to worker, we must implement Gaussian Blur manually or accept that blur happens on main thread before sending?
-    // Doing blur on Main Thread (via canvas filter) is FAST (GPU/Browser native). Doing manual blur in JS is slow.
-    // DECISION: Perform Blur in 'prepare' step (Main Thread) before getting ImageData.
+    // Blur is done in the 'prepare' step (canvas filter or blurRaster) before we get the pixels.
 
-    // ... The rest of the logic ...
-
-    let grid: number[][] = [];
+    // V71: Instead of a binary grid, every mode fills a field that is positive
+    // inside and crosses zero at the threshold, so the tracer can interpolate
+    // the edge between pixels. `sign` flips it for inverted tracing.
+    const field = new Float32Array(width * height);
+    const sign = invert ? -1 : 1;
+    const luma = (idx: number) => 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
 
     // V39: Standard vs Adaptive
     if (adaptive) {
-        // [Logic preserved from original]
+        // Darker than the local mean by T
         const integral = computeIntegralImage(data, width, height);
         const S = Math.round(width / 20);
         const s2 = Math.floor(S / 2);
         const T = 0.15;
 
         for (let y = 0; y < height; y++) {
-            const row: number[] = [];
             for (let x = 0; x < width; x++) {
-                const x1 = x - s2;
-                const x2 = x + s2;
-                const y1 = y - s2;
-                const y2 = y + s2;
-
-                const count = (Math.min(x2, width - 1) - Math.max(0, x1) + 1) * (Math.min(y2, height - 1) - Math.max(0, y1) + 1);
-
-                // Helper inline (since getIntegralSum needs height which I didn't pass, oops)
-                const X1 = Math.max(0, x1);
-                const Y1 = Math.max(0, y1);
-                const X2 = Math.min(width - 1, x2);
-                const Y2 = Math.min(height - 1, y2);
+                const X1 = Math.max(0, x - s2);
+                const Y1 = Math.max(0, y - s2);
+                const X2 = Math.min(width - 1, x + s2);
+                const Y2 = Math.min(height - 1, y + s2);
+                const count = (X2 - X1 + 1) * (Y2 - Y1 + 1);
 
                 const valA = (X1 > 0 && Y1 > 0) ? integral[(Y1 - 1) * width + (X1 - 1)] : 0;
                 const valB = (Y1 > 0) ? integral[(Y1 - 1) * width + X2] : 0;
                 const valC = (X1 > 0) ? integral[Y2 * width + (X1 - 1)] : 0;
                 const valD = integral[Y2 * width + X2];
+                const mean = (valD - valB - valC + valA) / count;
 
-                const sum = valD - valB - valC + valA;
-                const mean = sum / count;
-
-                const idx = (y * width + x) * 4;
-                const pxVal = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-
-                let val = pxVal < (mean * (1 - T)) ? 1 : 0;
-                if (invert) val = 1 - val;
-                row.push(val);
+                const i = y * width + x;
+                field[i] = sign * (mean * (1 - T) - luma(i * 4));
             }
-            grid.push(row);
         }
     } else if (mode === 'edges') {
-        // [Logic preserved]
+        // Sobel gradient magnitude above the threshold
         const gray = new Uint8Array(width * height);
-        for (let i = 0; i < width * height; i++) {
-            const idx = i * 4;
-            gray[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-        }
+        for (let i = 0; i < width * height; i++) gray[i] = luma(i * 4);
+
         for (let y = 0; y < height; y++) {
-            const row: number[] = [];
             for (let x = 0; x < width; x++) {
+                const i = y * width + x;
                 if (x === 0 || x === width - 1 || y === 0 || y === height - 1) {
-                    row.push(0);
+                    field[i] = -Infinity; // No gradient on the border, even inverted
                     continue;
                 }
-                const gx = (-1 * gray[(y - 1) * width + (x - 1)]) + (1 * gray[(y - 1) * width + (x + 1)]) +
-                    (-2 * gray[y * width + (x - 1)]) + (2 * gray[y * width + (x + 1)]) +
-                    (-1 * gray[(y + 1) * width + (x - 1)]) + (1 * gray[(y + 1) * width + (x + 1)]);
-                const gy = (-1 * gray[(y - 1) * width + (x - 1)]) + (-2 * gray[(y - 1) * width + x]) + (-1 * gray[(y - 1) * width + (x + 1)]) +
-                    (1 * gray[(y + 1) * width + (x - 1)]) + (2 * gray[(y + 1) * width + x]) + (1 * gray[(y + 1) * width + (x + 1)]);
-                const mag = Math.sqrt(gx * gx + gy * gy);
-                let val = mag > threshold ? 1 : 0;
-                if (invert) val = 1 - val;
-                row.push(val);
+                const gx = (-1 * gray[i - width - 1]) + (1 * gray[i - width + 1]) +
+                    (-2 * gray[i - 1]) + (2 * gray[i + 1]) +
+                    (-1 * gray[i + width - 1]) + (1 * gray[i + width + 1]);
+                const gy = (-1 * gray[i - width - 1]) + (-2 * gray[i - width]) + (-1 * gray[i - width + 1]) +
+                    (1 * gray[i + width - 1]) + (2 * gray[i + width]) + (1 * gray[i + width + 1]);
+                field[i] = sign * (Math.sqrt(gx * gx + gy * gy) - threshold);
             }
-            grid.push(row);
         }
     } else {
-        // Standard Luminance
-        for (let y = 0; y < height; y++) {
-            const row: number[] = [];
-            for (let x = 0; x < width; x++) {
-                const idx = (y * width + x) * 4;
-                const a = data[idx + 3];
-                if (a < 50) {
-                    row.push(0);
-                    continue;
-                }
-                const luma = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-                let val = luma < threshold ? 1 : 0;
-                if (invert) val = 1 - val;
-                row.push(val);
-            }
-            grid.push(row);
+        // Standard Luminance: darker than the threshold, and (nearly) transparent
+        // pixels are always outside
+        for (let i = 0; i < width * height; i++) {
+            field[i] = Math.min(sign * (threshold - luma(i * 4)), data[i * 4 + 3] - 50);
         }
     }
 
-    // Morphology
+    // Morphology: closing (dilate, then erode) with a cross, on the field itself
     if (morphology) {
-        // [Logic preserved]
-        let dilated = grid.map(row => [...row]);
-        for (let y = 1; y < height - 1; y++) {
-            for (let x = 1; x < width - 1; x++) {
-                if (grid[y][x] === 1) {
-                    dilated[y - 1][x] = 1; dilated[y + 1][x] = 1;
-                    dilated[y][x - 1] = 1; dilated[y][x + 1] = 1;
-                }
-            }
-        }
-        let closed = dilated.map(row => [...row]);
-        for (let y = 1; y < height - 1; y++) {
-            for (let x = 1; x < width - 1; x++) {
-                if (dilated[y][x] === 1) {
-                    if (dilated[y - 1][x] === 0 || dilated[y + 1][x] === 0 ||
-                        dilated[y][x - 1] === 0 || dilated[y][x + 1] === 0) {
-                        closed[y][x] = 0;
-                    }
+        const cross = (src: Float32Array, pick: (a: number, b: number) => number) => {
+            const out = new Float32Array(src.length);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = y * width + x;
+                    let v = src[i];
+                    if (y > 0) v = pick(v, src[i - width]);
+                    if (y < height - 1) v = pick(v, src[i + width]);
+                    if (x > 0) v = pick(v, src[i - 1]);
+                    if (x < width - 1) v = pick(v, src[i + 1]);
+                    out[i] = v;
                 }
             }
-        }
-        grid = closed;
+            return out;
+        };
+        field.set(cross(cross(field, Math.max), Math.min));
     }
 
-    const contours = extractContours(grid, width, height);
+    // V71: Marching squares; a quarter-pixel simplification drops the points
+    // of straight runs and keeps the sub-pixel fit
+    const traced = traceIsolines(field, width, height, MIN_CONTOUR_AREA);
+    const contours = traced.contours.map(c => simplifyContour(c, 0.25));
 
     // Resizing logic
     const { originalWidth, originalHeight } = meta;
@@ -238,194 +170,18 @@ export const processImageData = (
         const scaledContours = contours.map(c =>
             c.map(p => new THREE.Vector2(p.x * scaleX, p.y * scaleY))
         );
-        return { contours: scaledContours, width: originalWidth, height: originalHeight };
-    }
-
-    return { contours, width, height };
-};
-
-// smoothContour was defined below, but we replaced the implementation above.
-// Wait, I replaced simplifyContour above, but smoothContour was earlier in the file.
-// I should check if I introduced a duplicate or need to move things.
-// The file provided had processImage -> smoothContour -> extractContours -> simplifyContour.
-// My previous edit replaced lines 274-293 (simplifyContour).
-// I also included smoothContour in the replacement content?
-// Ah, I mistakenly included smoothContour implementation in the previous 'ReplacementContent'
-// BUT I targeted 'simplifyContour' lines at the end of the file.
-// So I appended smoothContour at the end?
-// The generic smoothContour was at lines 89-116.
-// Let me verify where I wrote.
-// I wrote 'simplifyContour' and 'smoothContour' in the replacement for lines 274-293.
-// So I likely duplicated smoothContour at the bottom.
-// I need to remove the first smoothContour if that's the case, or fix the imports.
-// Actually, I should remove the OLD smoothContour at lines 89-116 to avoid duplicates/errors.
-
-// Update trace to use smoothing? No, trace should return raw. App or Consumer calls smooth.
-// Actually let's return smoothed contours from processImage? 
-// The user might want toggle. Let's export smoothContour and apply it if requested. 
-// For now, let's keep processImage raw tracing but optimized.
-
-
-// Simple Marching Squares or similar contour tracing
-// Using a basic Moore-Neighbor tracing or similar for single connected components
-// For robustness, let's look for edge transitions.
-const extractContours = (grid: number[][], width: number, height: number): THREE.Vector2[][] => {
-    const contours: THREE.Vector2[][] = [];
-    const visited = new Set<string>();
-
-    // Helper to get value securely
-    const getVal = (x: number, y: number) => {
-        if (x < 0 || y < 0 || x >= width || y >= height) return 0;
-        return grid[y][x];
-    };
-
-    // Moore-Neighbor Tracing
-    for (let y = 0; y < height; y++) {
-        for (let x = 0; x < width; x++) {
-            if (grid[y][x] === 1 && !visited.has(`${x},${y}`)) {
-                // Found a start point of a new component (or hole? we treat 1 as solid)
-                // Check if it's a boundary pixel (at least one 0 neighbor)
-                let isBoundary = false;
-                for (let dy = -1; dy <= 1; dy++) {
-                    for (let dx = -1; dx <= 1; dx++) {
-                        if (getVal(x + dx, y + dy) === 0) isBoundary = true;
-                    }
-                }
-
-                if (isBoundary) {
-                    // Start tracing
-                    const contour = traceBoundary(x, y, grid, width, height, visited);
-                    if (contour.length > 10) { // Filter tiny noise
-                        contours.push(contour);
-                    }
-                } else {
-                    // Internal pixel, just mark visited
-                    visited.add(`${x},${y}`);
-                }
-            }
-        }
+        return { contours: scaledContours, parents: traced.parents, width: originalWidth, height: originalHeight };
     }
 
-    return contours;
+    return { contours, parents: traced.parents, width, height };
 };
 
-const traceBoundary = (
-    startX: number,
-    startY: number,
-    grid: number[][],
-    width: number,
-    height: number,
-    visited: Set<string>
-): THREE.Vector2[] => {
-    const contour: THREE.Vector2[] = [];
-
-    // Moore-Neighbor Tracing
-    // Directions: N, NE, E, SE, S, SW, W, NW
-    const dx = [0, 1, 1, 1, 0, -1, -1, -1];
-    const dy = [-1, -1, 0, 1, 1, 1, 0, -1];
-
-    let x = startX;
-    let y = startY;
-
-    // Helper to check valid and solid
-    const isSolid = (cx: number, cy: number) => {
-        if (cx < 0 || cy < 0 || cx >= width || cy >= height) return false;
-        return grid[cy][cx] === 1;
-    };
-
-    // 1. Backtrack to find a 0 neighbor to start search from
-    // We scan W then NW then N... Since we enter from West (scanline), (x-1, y) should be 0 or visited?
-    // Let's just find *any* 0 neighbor to serve as "from" direction.
-    // Standard: Backtrack is West (6).
-
-    contour.push(new THREE.Vector2(x, y));
-    visited.add(`${x},${y}`);
-
-    let currentX = x;
-    let currentY = y;
-    // Enter direction (where we came from, pointing to current).
-    // Initial: we came from West (x-1), so we point East (2).
-    // So "backtrack" is West (6).
-    // Warning: Start pixel must be boundary.
-
-    let prevBacktrack = 6; // Start by looking at West
-
-    // Max iterations to prevent infinite loop
-    let iter = 0;
-    const maxIter = width * height * 2;
-
-    while (iter < maxIter) {
-        iter++;
-
-        let foundNext = false;
-        // Search clockwise around current pixel, starting from prevBacktrack
-        for (let i = 0; i < 8; i++) {
-            const checkDir = (prevBacktrack + i) % 8;
-            const nx = currentX + dx[checkDir];
-            const ny = currentY + dy[checkDir];
-
-            if (isSolid(nx, ny)) {
-                // Found next boundary point
-                currentX = nx;
-                currentY = ny;
-                contour.push(new THREE.Vector2(currentX, currentY));
-                visited.add(`${currentX},${currentY}`);
-
-                // New backtrack direction is the opposite of the direction we just moved
-                // Actually, Moore algorithm: enter from direction D, start search from (D + 4 + 1) % 8 ? No.
-                // Standard: Backtrack is (checkDir + 4) % 8. 
-                // Next search starts from (checkDir + 4 + 1) % 8 ???
-                // Jacobsen's: "Enter P from b. Set c = b. Rotate c clockwise until neighbor is black."
-                // Here 'checkDir' is the neighbor direction. We moved TO checkDir.
-                // So we entered NEW pixel FROM (checkDir + 4) % 8.
-                // Next search starts from (checkDir + 4 + 1) % 8 ?
-                // Actually, standard is: Start search from (checkDir + 4 + 2) % 8 (Counter-Clockwise relative to entry)?
-                // Let's stick to: Start search from 'previous white neighbor'.
-                // If we moved to checkDir, the one *before* checkDir in the sweep was 0 (white).
-                // So start search from (checkDir + 4 + 1) in CCW? Or (checkDir - 1) in CW?
-
-                // Let's use simple logic:
-                // We moved in direction 'checkDir'.
-                // The direction *before* 'checkDir' (counter-clockwise) was empty.
-                // So relative to the NEW pixel, that empty space is at (checkDir + 4 + 1)?
-
-                // Let's try: Search start = (checkDir + 4 + 1) % 8? NO.
-                // Works well: Search start = (checkDir + 5) % 8 (which is -3 from direction).
-                prevBacktrack = (checkDir + 5) % 8;
-
-                foundNext = true;
-                break;
-            }
-        }
-
-        if (!foundNext) {
-            // Isolated pixel?
-            break;
-        }
-
-        if (currentX === startX && currentY === startY) {
-            // Check if we essentially closed the loop in similar direction?
-            // Simple check: returned to start.
-            // But we might touch start multiple times (figure 8).
-            // Usually stopping at start is enough for simple shapes.
-            break;
-        }
-    }
-
-    // V39: Smart Simplification
-    // Small detailed text needs LESS simplification to avoid turning 'o' into square.
-    // We estimate "smallness" by contour length.
-    if (contour.length < 50) {
-        // Very small detail: Minimal simplification
-        return simplifyContour(contour, 0.4);
-    } else if (contour.length < 200) {
-        // Medium detail (Letters?)
-        return simplifyContour(contour, 0.8);
-    } else {
-        // Large shapes
-        return simplifyContour(contour, 1.5);
-    }
-};
+/**
+ * Roles of traced contours: holes (inside another contour and wound the other
+ * way) become voids, everything else, islands in holes included, is solid.
+ */
+export const tracedRoles = (result: Pick<TraceResult, 'contours' | 'parents'>): ContourRole[] =>
+    result.contours.map((contour, i) => result.parents[i] >= 0 && contourArea(contour) < 0 ? 'void' : 'auto');
 
 // Ramer-Douglas-Peucker Algorithm
 // Reduces the number of points in a curve that is approximated by a series of points.
@@ -512,6 +268,19 @@ export const smoothContour = (points: THREE.Vector2[], iterations: number = 2):
     return currentPoints;
 };
 
+// V68: Clean-up applied to traced contours before they reach the editor
+// (worker output is plain {x, y} objects, so points are rehydrated here).
+export const optimizeTracedContours = (contours: { x: number, y: number }[][]): THREE.Vector2[][] =>
+    contours.map(c => {
+        const points = c.map(p => new THREE.Vector2(p.x, p.y));
+        // V71: Sub-pixel contours have no staircase to hide: light reduction
+        // and one smoothing pass keep the area within about 1%
+        let pts = simplifyContour(points, 0.5);
+        pts = smoothContour(pts, 1);
+        // Final point reduction
+        return simplifyContour(pts, 0.5);
+    });
+
 export type TracePresetType = 'logo' | 'sketch' | 'photo';
 
 export interface TracePreset {
@@ -522,20 +291,16 @@ export interface TracePreset {
     morphology: boolean;
 }
 
-export const analyzeImage = (image: HTMLImageElement): TracePreset => {
-    // 1. Draw small sample to canvas
-    const sampleSize = 64;
-    const canvas = document.createElement('canvas');
-    canvas.width = sampleSize;
-    canvas.height = sampleSize;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return { type: 'logo', blur: 0, threshold: 128, adaptive: false, morphology: false }; // Fallback
-
-    ctx.drawImage(image, 0, 0, sampleSize, sampleSize);
-    const data = ctx.getImageData(0, 0, sampleSize, sampleSize).data;
-    const pixelCount = sampleSize * sampleSize;
+/**
+ * Guesses the kind of picture from a small sample of its pixels (64x64 is
+ * plenty) and returns trace settings that suit it.
+ */
+export const analyzeRaster = (sample: RasterImage): TracePreset => {
+    // V70: Works on plain pixels; the browser adapter draws the sample on a canvas
+    const data = sample.data;
+    const pixelCount = sample.width * sample.height;
 
-    // 2. Metrics
+    // 1. Metrics
     let alphaSum = 0;
     let graySum = 0;
     let graySqSum = 0;
@@ -557,7 +322,7 @@ export const analyzeImage = (image: HTMLImageElement): TracePreset => {
     // const meanGray = graySum / pixelCount;
     // const variance = (graySqSum / pixelCount) - (meanGray * meanGray);
 
-    // 3. Heuristics
+    // 2. Heuristics
 
     // A. Alpha Check: High transparency -> Likely a Logo/Clipart
     // If mean alpha < 250 (allowing some softness), it has transparency.
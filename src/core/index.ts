@@ -0,0 +1,107 @@
+// V70: Core Library
+// The public API of the cutter/keychain generator. Everything exported here is
+// free of the DOM: it runs in the app, in Web Workers and in Node (the CLI).
+// Browser-only pieces (image decoding with <img>/canvas, IndexedDB, FontFace,
+// DOMParser) live in src/browser and build on this module.
+//
+// Coordinates: designs are in editor pixels with Y down; generated parts and
+// exports are in millimetres, Z up.
+//
+// The manifold export pulls in a WebAssembly module, so it is not re-exported:
+// load it on demand with `import('./core/manifold-union')`.
+
+// --- Design model ---
+// A design is a list of closed contours plus per-contour role, node types,
+// Bezier handles, boolean compounds and layer items (ids, groups, flags).
+
+export { flattenContour, serializeDesign, deserializeDesign } from './design-state';
+export type { ContourRole, ContourHandle, DesignState, SerializedDesign } from './design-state';
+export { interpolateContour, snapPoint, sampleBezierPath } from './curve-utils';
+export type { NodeType, HandleType, BezierNode, SnapResult } from './curve-utils';
+export { SubpathBuilder, subpathsToDesign } from './bezier-path';
+export type { FillRule, PathNode, Subpath } from './bezier-path';
+export { applyTransformToContour } from './transform-utils';
+export { generateCircle, generateStar, generateHeart, generateRectangle } from './shape-templates';
+export {
+    createItemId, itemLabel, matchContours, syncItems, withItems, indexById, groupChain, resolveItemFlags,
+    groupItems, ungroup, moveItemsToGroup
+} from './design-layers';
+export type { ContourItem, DesignGroup } from './design-layers';
+export { diffDesigns, applyPatch, patchSize, describePatch } from './design-history';
+export type { HistoryMeta, DesignPatch } from './design-history';
+
+// --- Trace ---
+// Raster images (RGBA pixels, ImageData fits) to contours. Prepare the pixels
+// (scale, blur), trace them, then clean the polylines up or fit them with
+// Bezier curves.
+
+export {
+    traceSize, processImageData, tracedRoles, simplifyContour, smoothContour, optimizeTracedContours, analyzeRaster
+} from './image-processing';
+export type { TraceResult, ProcessOptions, RasterImage, TracePresetType, TracePreset } from './image-processing';
+export { resizeRaster, blurRaster, prepareRasterForTrace } from './raster';
+export { traceIsolines, contourArea } from './marching-squares';
+export type { ContourTree } from './marching-squares';
+export { DEFAULT_CURVE_FIT, fitBezierNodes, fitContourCurves } from './curve-fit';
+export type { CurveFitOptions } from './curve-fit';
+
+// --- Vector input ---
+
+export { importSvgElement, parseTransform } from './svg-import';
+export type { SvgImportResult, SvgElement } from './svg-import';
+export { DEFAULT_TEXT_LAYOUT, loadFont, textToDesign } from './text-outline';
+export type { Font, TextAlign, TextLayoutOptions } from './text-outline';
+
+// --- Booleans and offsets ---
+
+export {
+    toPolygons, booleanOp, unionContours, diffContours, intersectContours, xorContours, booleanReduce,
+    flattenPolygons, polygonsToContours
+} from './boolean-ops';
+export type { PolygonWithHoles, BooleanOperation, BooleanOperand } from './boolean-ops';
+export { remapCompounds, compoundMembership, evaluateCompounds, expandCompound } from './compound-shapes';
+export type { CompoundShape, EvaluatedDesign } from './compound-shapes';
+export { offsetPolygon, splitLoops } from './polygon-offset';
+export type { JoinType, OffsetOptions } from './polygon-offset';
+
+// --- Generate ---
+// Design -> GenerationInput (flattened, Y up, compounds evaluated, hidden
+// contours dropped) -> CutterPart[] (three.js geometries with provenance).
+
+export { buildGenerationInput } from './generation-input';
+export type { GenerationInput } from './generation-input';
+export { DEFAULT_SETTINGS, generateGeometry, getExportGeometries } from './geometry-generator';
+export type {
+    CutterSettings, ShapeType, PartType, PartOperation, ProvenanceStep, ContourSource, CutterPart,
+    GenerationStage, GenerationProgressCallback
+} from './geometry-generator';
+export { MIN_WALL_LINES, checkManufacturability, checkMeshReport } from './manufacturability';
+export type { IssueKind, IssueSeverity, ManufacturabilityIssue } from './manufacturability';
+export { weldVertices, analyzeMesh, orientFaces } from './mesh-repair';
+export type { MeshReport } from './mesh-repair';
+export { serializeParts, deserializeParts } from './geometry-transfer';
+export type { SerializedAttribute, SerializedPart } from './geometry-transfer';
+
+// --- Export ---
+// Mesh exporters return a Blob, vector exporters return the file text.
+// GLB export needs FileReader (three's GLTFExporter) and is in src/browser.
+
+export { geometryToSTL, exportToSTL } from './geometry-generator';
+export { exportTo3MF } from './export-3mf';
+export { buildExportScene, exportToOBJ } from './export-scene';
+export { exportToSVG, exportToDXF } from './vector-export';
+export { splitPrintKit, printKitName } from './print-kit';
+export type { PrintKitFile } from './print-kit';
+export { DEFAULT_PART_COLORS, HANDLE_COLOR, DEFAULT_PART_COLOR, getPartColor, PART_NAMES } from './part-colors';
+export type { PartColors } from './part-colors';
+
+// --- Projects and batches ---
+
+export {
+    PROJECT_FILE_VERSION, ProjectValidationError, migrateProjectFile, validateSettings, validateProjectFile,
+    parseProjectFile, createProjectFile
+} from './project-file';
+export type { ProjectMode, ProjectView, ProjectFile } from './project-file';
+export { encodeSharePayload, buildShareUrl, readShareFragment, decodeSharePayload } from './share-link';
+export { parseNameList, frameDesign, uniqueFileNames, partsSize, buildBatchSummary } from './batch';
+export type { NameEntry, BatchSummaryRow } from './batch';
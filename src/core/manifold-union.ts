@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import Module, { type Manifold, type ManifoldToplevel } from 'manifold-3d';
+import { analyzeMesh, orientFaces, weldVertices, type MeshReport } from './mesh-repair';
+import { geometryToSTL, getExportGeometries, type CutterPart } from './geometry-generator';
+
+// V51: Boolean union of all shells of a print body into one closed 2-manifold.
+// Parts are welded and re-oriented first, since the manifold kernel rejects
+// open or inconsistently wound input.
+
+let manifoldModule: Promise<ManifoldToplevel> | null = null;
+
+/**
+ * Loads the manifold WASM module once.
+ * @param locateFile Returns the URL of manifold.wasm (needed when bundled for the browser)
+ */
+export const loadManifold = (locateFile?: () => string): Promise<ManifoldToplevel> => {
+    if (!manifoldModule) {
+        manifoldModule = Module(locateFile ? { locateFile } : undefined).then(wasm => {
+            wasm.setup();
+            return wasm;
+        }).catch(err => {
+            manifoldModule = null; // Allow a retry on the next export
+            throw err;
+        });
+    }
+    return manifoldModule;
+};
+
+export const unionToManifold = async (
+    geometries: THREE.BufferGeometry[],
+    locateFile?: () => string
+): Promise<{ geometry: THREE.BufferGeometry, report: MeshReport }> => {
+    const wasm = await loadManifold(locateFile);
+    const solids: Manifold[] = [];
+
+    try {
+        geometries.forEach((g, i) => {
+            const welded = orientFaces(weldVertices(g));
+            if (!welded.index || welded.index.count === 0) return;
+
+            const mesh = new wasm.Mesh({
+                numProp: 3,
+                vertProperties: new Float32Array(welded.getAttribute('position').array),
+                triVerts: new Uint32Array(welded.index.array)
+            });
+            mesh.merge(); // Close seams the weld tolerance missed
+
+            try {
+                solids.push(new wasm.Manifold(mesh));
+            } catch {
+                throw new Error(`La pieza ${i + 1} no es un sólido cerrado y no se puede unir.`);
+            }
+        });
+
+        if (solids.length === 0) {
+            const empty = new THREE.BufferGeometry();
+            return { geometry: empty, report: analyzeMesh(empty) };
+        }
+
+        const union = wasm.Manifold.union(solids);
+        solids.push(union); // Freed together with the inputs
+        const mesh = union.getMesh();
+
+        // Keep only xyz from the interleaved vertex properties
+        const vertexCount = mesh.vertProperties.length / mesh.numProp;
+        const positions = new Float32Array(vertexCount * 3);
+        for (let v = 0; v < vertexCount; v++) {
+            positions[v * 3] = mesh.vertProperties[v * mesh.numProp];
+            positions[v * 3 + 1] = mesh.vertProperties[v * mesh.numProp + 1];
+            positions[v * 3 + 2] = mesh.vertProperties[v * mesh.numProp + 2];
+        }
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+        geometry.setIndex(new THREE.BufferAttribute(new Uint32Array(mesh.triVerts), 1));
+
+        return { geometry, report: analyzeMesh(geometry) };
+    } finally {
+        // WASM objects are not garbage collected
+        solids.forEach(s => s.delete());
+    }
+};
+
+/**
+ * Same as exportToSTL, but the visible parts are unioned into a single
+ * watertight solid first. Overlapping walls, markers and bases lose their
+ * internal faces, which slicers otherwise have to guess about. The report
+ * says whether that worked; showing it is up to the caller.
+ */
+export const exportToManifoldSTL = async (
+    parts: CutterPart[],
+    hiddenIds?: Set<string>,
+    locateFile?: () => string
+): Promise<{ blob: Blob, report: MeshReport }> => {
+    const { geometry, report } = await unionToManifold(getExportGeometries(parts, hiddenIds), locateFile);
+    return { blob: report.triangles > 0 ? geometryToSTL(geometry) : new Blob([]), report };
+};
@@ -0,0 +1,346 @@
+import * as THREE from 'three';
+import type { CutterPart, CutterSettings } from './geometry-generator';
+import type { MeshReport } from './mesh-repair';
+import { offsetPolygon } from './polygon-offset';
+
+// V52: Pre-export manufacturability checks.
+// Runs on the generated parts plus the source contours (editor pixels) and
+// reports what a slicer or the kitchen will struggle with. Nothing is fixed
+// here: every issue points back at a contour and/or a part so the UI can
+// highlight it.
+
+export type IssueKind =
+    | 'thin-wall'
+    | 'thin-feature'
+    | 'narrow-gap'
+    | 'marker-height'
+    | 'empty-part'
+    | 'degenerate-triangles'
+    | 'floating'
+    | 'non-manifold';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ManufacturabilityIssue {
+    id: string; // Stable key for lists
+    kind: IssueKind;
+    severity: IssueSeverity;
+    message: string;
+    contourIndex: number; // -1 when the issue is not tied to a contour
+    partId?: string;
+}
+
+// A wall needs at least this many extrusion lines to print reliably
+export const MIN_WALL_LINES = 2;
+
+const DEGENERATE_AREA = 1e-8; // mm²
+const GAP_EPSILON = 1e-3; // mm
+
+const formatMM = (value: number) => `${value.toFixed(2)} mm`;
+
+const polygonArea = (loops: THREE.Vector2[][]) =>
+    loops.reduce((sum, loop) => sum + THREE.ShapeUtils.area(loop), 0);
+
+// Offsets every loop and keeps the union (loops come from a single contour, so they don't overlap).
+// Miter joins keep sharp corners intact, so only genuinely thin regions change area.
+const offsetLoops = (loops: THREE.Vector2[][], distance: number) =>
+    loops.flatMap(loop => offsetPolygon(loop, distance, { joinType: 'miter', miterLimit: 10 }));
+
+const isPointInPolygon = (p: THREE.Vector2, polygon: THREE.Vector2[]) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const xi = polygon[i].x, yi = polygon[i].y;
+        const xj = polygon[j].x, yj = polygon[j].y;
+        const intersect = ((yi > p.y) !== (yj > p.y)) &&
+            (p.x < (xj - xi) * (p.y - yi) / (yj - yi) + xi);
+        if (intersect) inside = !inside;
+    }
+    return inside;
+};
+
+const segmentsIntersect = (a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2, d: THREE.Vector2) => {
+    const cross = (o: THREE.Vector2, p: THREE.Vector2, q: THREE.Vector2) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+    const d1 = cross(c, d, a), d2 = cross(c, d, b), d3 = cross(a, b, c), d4 = cross(a, b, d);
+    return ((d1 > 0) !== (d2 > 0)) && ((d3 > 0) !== (d4 > 0));
+};
+
+const pointSegmentDistance = (p: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) => {
+    const abx = b.x - a.x, aby = b.y - a.y;
+    const lenSq = abx * abx + aby * aby;
+    const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * abx + (p.y - a.y) * aby) / lenSq));
+    const dx = a.x + abx * t - p.x, dy = a.y + aby * t - p.y;
+    return Math.sqrt(dx * dx + dy * dy);
+};
+
+/**
+ * Shortest distance between two closed polylines (0 if they cross).
+ * Returns Infinity without scanning when the bounding boxes are further apart than `limit`.
+ */
+const contourDistance = (a: THREE.Vector2[], b: THREE.Vector2[], limit: number) => {
+    const boxA = new THREE.Box2().setFromPoints(a).expandByScalar(limit);
+    if (!boxA.intersectsBox(new THREE.Box2().setFromPoints(b))) return Infinity;
+
+    let min = Infinity;
+    for (let i = 0; i < a.length; i++) {
+        const a1 = a[i], a2 = a[(i + 1) % a.length];
+        for (let j = 0; j < b.length; j++) {
+            const b1 = b[j], b2 = b[(j + 1) % b.length];
+            if (segmentsIntersect(a1, a2, b1, b2)) return 0;
+            min = Math.min(min, pointSegmentDistance(a1, b1, b2), pointSegmentDistance(b1, a1, a2));
+        }
+    }
+    return min;
+};
+
+const countDegenerateTriangles = (geometry: THREE.BufferGeometry) => {
+    const position = geometry.getAttribute('position');
+    if (!position) return 0;
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    let degenerate = 0;
+    for (let t = 0; t + 2 < count; t += 3) {
+        a.fromBufferAttribute(position, index ? index.getX(t) : t);
+        b.fromBufferAttribute(position, index ? index.getX(t + 1) : t + 1);
+        c.fromBufferAttribute(position, index ? index.getX(t + 2) : t + 2);
+        if (b.sub(a).cross(c.sub(a)).length() / 2 < DEGENERATE_AREA) degenerate++;
+    }
+    return degenerate;
+};
+
+const triangleCount = (geometry: THREE.BufferGeometry) => {
+    const position = geometry.getAttribute('position');
+    if (!position) return 0;
+    return Math.floor((geometry.index ? geometry.index.count : position.count) / 3);
+};
+
+/**
+ * Checks generated parts and the contours they were built from before export.
+ * @param parts Output of generateGeometry
+ * @param contours The generator's input contours in pixels (see buildGenerationInput)
+ * @param roles Contour roles (voids and manual bases are not walls)
+ * @param imgWidth Canvas width in pixels (for the pixel to mm scale)
+ * @param imgHeight Canvas height in pixels
+ * @param settings Generation settings
+ * @param origins Design contour of each input contour; issues report those indices
+ */
+export const checkManufacturability = (
+    parts: CutterPart[],
+    contours: THREE.Vector2[][],
+    roles: ('cut' | 'stamp' | 'auto' | 'base' | 'void')[] | undefined,
+    imgWidth: number,
+    imgHeight: number,
+    settings: CutterSettings,
+    origins?: number[]
+): ManufacturabilityIssue[] => {
+    const issues: ManufacturabilityIssue[] = [];
+    const designIndex = (i: number) => i < 0 ? -1 : origins?.[i] ?? i;
+    const add = (issue: Omit<ManufacturabilityIssue, 'id'>) => {
+        const contourIndex = designIndex(issue.contourIndex);
+        issues.push({ ...issue, contourIndex, id: `${issue.kind}-${contourIndex}-${issue.partId ?? ''}-${issues.length}` });
+    };
+
+    const nozzle = settings.nozzleDiameter ?? 0.4;
+    const minWall = nozzle * MIN_WALL_LINES;
+    const isCutter = settings.outputType === 'cutter';
+
+    // Same scale as generateGeometry (mirroring doesn't change distances)
+    const scale = settings.size / Math.max(imgWidth, imgHeight);
+    const mmContours = contours.map(c => c.map(p => new THREE.Vector2(p.x * scale, p.y * scale)));
+
+    // 1. Per-part geometry checks
+    parts.forEach(part => {
+        const triangles = triangleCount(part.geometry);
+        if (triangles === 0) {
+            add({ kind: 'empty-part', severity: 'error', message: `La pieza "${part.id}" está vacía (sin triángulos).`, contourIndex: part.contourIndex, partId: part.id });
+            return;
+        }
+        const degenerate = countDegenerateTriangles(part.geometry);
+        if (degenerate > 0) {
+            add({ kind: 'degenerate-triangles', severity: 'warning', message: `La pieza "${part.id}" tiene ${degenerate} triángulos degenerados.`, contourIndex: part.contourIndex, partId: part.id });
+        }
+    });
+
+    // 2. Wall thickness vs nozzle (cutter walls and markers)
+    const wallTypes = new Map<number, 'outer' | 'inner'>(); // Contour index -> wall kind
+    parts.forEach(part => {
+        if (part.contourIndex < 0 || part.contourIndex >= contours.length) return;
+        if (part.type === 'outer') wallTypes.set(part.contourIndex, 'outer');
+        else if (part.type === 'inner' && !wallTypes.has(part.contourIndex)) wallTypes.set(part.contourIndex, 'inner');
+    });
+    const wallThickness = (i: number) => wallTypes.get(i) === 'outer' ? settings.cutterThickness : settings.markerThickness;
+
+    if (isCutter) {
+        parts.forEach(part => {
+            if (part.type !== 'outer' && part.type !== 'inner') return;
+            const thickness = part.type === 'outer' ? settings.cutterThickness : settings.markerThickness;
+            if (thickness < minWall) {
+                add({
+                    kind: 'thin-wall',
+                    severity: 'warning',
+                    message: `Pared de ${formatMM(thickness)}, menor que el mínimo de ${formatMM(minWall)} para una boquilla de ${formatMM(nozzle)}.`,
+                    contourIndex: part.contourIndex,
+                    partId: part.id
+                });
+            }
+        });
+
+        // 3. Markers taller than the blade would stamp before the blade cuts
+        let bladeTop = 0;
+        parts.forEach(part => {
+            if (part.type !== 'outer') return;
+            part.geometry.computeBoundingBox();
+            bladeTop = Math.max(bladeTop, part.geometry.boundingBox!.max.z + (part.position?.[2] ?? 0));
+        });
+        if (bladeTop === 0) bladeTop = settings.cutterHeight;
+
+        parts.forEach(part => {
+            if (part.type !== 'inner') return;
+            part.geometry.computeBoundingBox();
+            const top = part.geometry.boundingBox!.max.z + (part.position?.[2] ?? 0);
+            if (top > bladeTop + GAP_EPSILON) {
+                add({
+                    kind: 'marker-height',
+                    severity: 'error',
+                    message: `El marcador mide ${formatMM(top)}, más que la cuchilla (${formatMM(bladeTop)}).`,
+                    contourIndex: part.contourIndex,
+                    partId: part.id
+                });
+            }
+        });
+    }
+
+    // 4. Contour checks (only contours that became walls or relief)
+    const wallIndices = Array.from(wallTypes.keys()).filter(i => !roles || (roles[i] !== 'void' && roles[i] !== 'base'));
+    const partIdFor = (i: number) => parts.find(p => p.contourIndex === i && (p.type === 'outer' || p.type === 'inner'))?.id;
+    const gapLimit = settings.cutterThickness;
+
+    wallIndices.forEach(i => {
+        const contour = mmContours[i];
+        if (contour.length < 3) return;
+        const loops = [contour];
+        const area = Math.abs(polygonArea(loops));
+
+        // Features narrower than the nozzle minimum vanish in an opening (inset, then outset)
+        if (!isCutter) {
+            const opened = offsetLoops(offsetLoops(loops, -minWall / 2), minWall / 2);
+            if (area - Math.abs(polygonArea(opened)) > minWall * minWall) {
+                add({ kind: 'thin-feature', severity: 'warning', message: `Hay detalles más finos que ${formatMM(minWall)} que no se imprimirán.`, contourIndex: i, partId: partIdFor(i) });
+            }
+        }
+
+        // Slots the walls almost close: the closing with the wall thickness fills
+        // the merged ones, the extra area with wall + gap is the narrow gaps.
+        const t = wallThickness(i);
+        const closedByWall = offsetLoops(offsetLoops(loops, t), -t);
+        const closedByGap = offsetLoops(offsetLoops(loops, t + gapLimit / 2), -(t + gapLimit / 2));
+        if (Math.abs(polygonArea(closedByGap)) - Math.abs(polygonArea(closedByWall)) > gapLimit * gapLimit) {
+            add({ kind: 'narrow-gap', severity: 'warning', message: `El contorno tiene huecos más estrechos que el grosor de pared (${formatMM(gapLimit)}).`, contourIndex: i, partId: partIdFor(i) });
+        }
+    });
+
+    // Gaps between walls of different contours. Walls grow outward, so a contour
+    // nested inside another only brings its own wall into the gap.
+    const nested = (inner: number, outer: number) => isPointInPolygon(mmContours[inner][0], mmContours[outer]);
+    const touching = new Map<number, Set<number>>();
+    const link = (a: number, b: number) => {
+        if (!touching.has(a)) touching.set(a, new Set());
+        if (!touching.has(b)) touching.set(b, new Set());
+        touching.get(a)!.add(b);
+        touching.get(b)!.add(a);
+    };
+
+    for (let x = 0; x < wallIndices.length; x++) {
+        for (let y = x + 1; y < wallIndices.length; y++) {
+            const a = wallIndices[x], b = wallIndices[y];
+            if (mmContours[a].length < 3 || mmContours[b].length < 3) continue;
+
+            const reach = nested(a, b) ? wallThickness(a) : nested(b, a) ? wallThickness(b) : wallThickness(a) + wallThickness(b);
+            const distance = contourDistance(mmContours[a], mmContours[b], reach + gapLimit);
+            if (distance === Infinity) continue;
+
+            const gap = distance - reach;
+            if (gap <= GAP_EPSILON) {
+                link(a, b);
+            } else if (gap < gapLimit) {
+                add({
+                    kind: 'narrow-gap',
+                    severity: 'warning',
+                    message: `Separación de ${formatMM(gap)} entre contornos ${designIndex(a) + 1} y ${designIndex(b) + 1} (mínimo ${formatMM(gapLimit)}).`,
+                    contourIndex: b,
+                    partId: partIdFor(b)
+                });
+            }
+        }
+    }
+
+    // 5. Floating markers (single-piece cutter only: everywhere else a plate holds them)
+    if (isCutter && settings.generationMode === 'single') {
+        const solidFloor = settings.withBase && settings.solidBase;
+        const anchored = new Set<number>();
+        const queue: number[] = [];
+        wallIndices.forEach(i => {
+            if (wallTypes.get(i) === 'outer') {
+                anchored.add(i);
+                queue.push(i);
+            }
+        });
+
+        // Bridges tie a contour to the smallest contour around it
+        const bridged = new Set(parts.filter(p => p.type === 'bridge').map(p => p.contourIndex));
+        wallIndices.forEach(i => {
+            if (anchored.has(i)) return;
+            const parents = wallIndices.filter(j => j !== i && nested(i, j));
+            if (solidFloor && parents.some(j => wallTypes.get(j) === 'outer')) {
+                anchored.add(i);
+                queue.push(i);
+            } else if (bridged.has(i) && parents.length > 0) {
+                const parent = parents.reduce((best, j) => Math.abs(polygonArea([mmContours[j]])) < Math.abs(polygonArea([mmContours[best]])) ? j : best);
+                link(i, parent);
+            }
+        });
+
+        while (queue.length > 0) {
+            const i = queue.pop()!;
+            touching.get(i)?.forEach(j => {
+                if (anchored.has(j)) return;
+                anchored.add(j);
+                queue.push(j);
+            });
+        }
+
+        wallIndices.forEach(i => {
+            if (anchored.has(i)) return;
+            add({
+                kind: 'floating',
+                severity: 'error',
+                message: `El marcador ${designIndex(i) + 1} queda suelto: no toca la cuchilla ni tiene puente o base.`,
+                contourIndex: i,
+                partId: partIdFor(i)
+            });
+        });
+    }
+
+    return issues;
+};
+
+/**
+ * Issue for a unioned STL (V51) that did not come out as a closed 2-manifold,
+ * or null when it did. Found at export time, after the file is written.
+ * @param file Name of the exported file, when there are several
+ */
+export const checkMeshReport = (report: MeshReport, file?: string): ManufacturabilityIssue | null => {
+    if (report.isManifold) return null;
+    const problems = [
+        report.boundaryEdges > 0 && `${report.boundaryEdges} bordes abiertos`,
+        report.nonManifoldEdges > 0 && `${report.nonManifoldEdges} aristas compartidas por más de dos caras`,
+        report.inconsistentEdges > 0 && `${report.inconsistentEdges} aristas con caras invertidas`
+    ].filter(Boolean).join(', ');
+    return {
+        id: `mesh-${file ?? 'stl'}`,
+        kind: 'non-manifold',
+        severity: 'warning',
+        message: `La malla unida${file ? ` de "${file}"` : ''} no es un sólido cerrado: ${problems}.`,
+        contourIndex: -1
+    };
+};
@@ -0,0 +1,128 @@
+import * as THREE from 'three';
+
+// V71: Sub-pixel Contour Extraction
+// Marching squares over a scalar field sampled at pixel centres. Positive
+// samples are inside; every contour crosses the cell edges where the field
+// changes sign, at the linearly interpolated zero. The image is padded with
+// an outside border so shapes touching it still close (along the pixel edge).
+
+export interface ContourTree {
+    contours: THREE.Vector2[][];
+    parents: number[]; // Index of the enclosing contour, -1 for outer ones
+}
+
+/**
+ * Signed area with the shoelace formula (pixels, Y down).
+ */
+export const contourArea = (points: { x: number, y: number }[]) => {
+    let area = 0;
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        area += (points[j].x - points[i].x) * (points[j].y + points[i].y);
+    }
+    return area / 2;
+};
+
+const contains = (polygon: THREE.Vector2[], x: number, y: number) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i], b = polygon[j];
+        if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Traces the zero level of `field` (row by row, `width * height` samples).
+ * Contours don't cross, wind with the inside on their right (outer contours
+ * have a positive area, holes a negative one) and come largest first, so a
+ * parent always precedes its children. Loops smaller than `minArea` square
+ * pixels are dropped as noise, and so is an outer loop that only runs along
+ * the image border (a background that fills the frame, e.g. when inverted).
+ */
+export const traceIsolines = (field: Float32Array, width: number, height: number, minArea: number = 0): ContourTree => {
+    // Padded copy: the border row/column is outside
+    const pw = width + 2;
+    const ph = height + 2;
+    const samples = new Float32Array(pw * ph).fill(-Infinity);
+    for (let y = 0; y < height; y++) {
+        samples.set(field.subarray(y * width, (y + 1) * width), (y + 1) * pw + 1);
+    }
+
+    // Cell edges are numbered from their first sample: 2k is the horizontal
+    // edge to the right of sample k, 2k + 1 the vertical edge below it.
+    // next[e] is the edge the contour leaves through after entering at e.
+    const next = new Int32Array(2 * pw * ph).fill(-1);
+    const inside = [false, false, false, false];
+    const edges = [0, 0, 0, 0];
+
+    for (let cy = 0; cy < ph - 1; cy++) {
+        for (let cx = 0; cx < pw - 1; cx++) {
+            const k = cy * pw + cx;
+            // Corners and edges clockwise from the top-left: T, R, B, L
+            const tl = samples[k], tr = samples[k + 1], br = samples[k + pw + 1], bl = samples[k + pw];
+            inside[0] = tl > 0; inside[1] = tr > 0; inside[2] = br > 0; inside[3] = bl > 0;
+            if (inside[0] === inside[1] && inside[1] === inside[2] && inside[2] === inside[3]) continue;
+
+            edges[0] = 2 * k; edges[1] = 2 * (k + 1) + 1; edges[2] = 2 * (k + pw); edges[3] = 2 * k + 1;
+
+            // Saddle: the cell centre decides whether the inside corners connect
+            const saddle = inside[0] === inside[2] && inside[1] === inside[3];
+            const step = saddle && (tl + tr + br + bl) / 4 > 0 ? 1 : 3;
+
+            // Walking clockwise, an edge from an inside to an outside corner is
+            // where the contour enters the cell; it leaves through the
+            // matching edge from outside to inside.
+            for (let e = 0; e < 4; e++) {
+                if (!inside[e] || inside[(e + 1) % 4]) continue;
+                let exit = e;
+                do exit = (exit + step) % 4;
+                while (inside[exit] || !inside[(exit + 1) % 4]);
+                next[edges[e]] = edges[exit];
+            }
+        }
+    }
+
+    // Zero crossing along an edge, in pixel coordinates (centres at +0.5)
+    const crossing = (edge: number) => {
+        const k = edge >> 1;
+        const vertical = (edge & 1) === 1;
+        const a = samples[k], b = samples[vertical ? k + pw : k + 1];
+        const t = Number.isFinite(a) && Number.isFinite(b) ? a / (a - b) : 0.5; // Border: the pixel edge
+        const x = k % pw, y = (k - x) / pw;
+        return new THREE.Vector2(x - 0.5 + (vertical ? 0 : t), y - 0.5 + (vertical ? t : 0));
+    };
+
+    const onFrame = (p: THREE.Vector2) => p.x <= 0 || p.y <= 0 || p.x >= width || p.y >= height;
+
+    const loops: { points: THREE.Vector2[], area: number }[] = [];
+    const visited = new Uint8Array(next.length);
+    for (let start = 0; start < next.length; start++) {
+        if (next[start] < 0 || visited[start]) continue;
+        const points: THREE.Vector2[] = [];
+        let edge = start;
+        while (edge >= 0 && !visited[edge]) {
+            visited[edge] = 1;
+            const p = crossing(edge);
+            const last = points[points.length - 1];
+            if (!last || last.distanceToSquared(p) > 1e-12) points.push(p); // Zero samples repeat a point
+            edge = next[edge];
+        }
+        if (points.length < 3) continue;
+        const area = contourArea(points);
+        if (Math.abs(area) < minArea || (area > 0 && points.every(onFrame))) continue;
+        loops.push({ points, area });
+    }
+
+    // Nesting: the parent is the smallest larger loop around any of the points
+    loops.sort((a, b) => Math.abs(b.area) - Math.abs(a.area));
+    const boxes = loops.map(l => new THREE.Box2().setFromPoints(l.points));
+    const parents = loops.map((loop, i) => {
+        const p = loop.points[0];
+        for (let j = i - 1; j >= 0; j--) {
+            if (boxes[j].containsPoint(p) && contains(loops[j].points, p.x, p.y)) return j;
+        }
+        return -1;
+    });
+
+    return { contours: loops.map(l => l.points), parents };
+};
@@ -0,0 +1,207 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+
+// V51: Mesh welding and topology checks for watertight export
+
+export interface MeshReport {
+    triangles: number;
+    boundaryEdges: number; // Edges used by a single face (holes in the surface)
+    nonManifoldEdges: number; // Edges shared by more than two faces
+    inconsistentEdges: number; // Edges whose two faces run in the same direction (flipped winding)
+    isClosed: boolean;
+    isConsistent: boolean;
+    isManifold: boolean;
+    volume: number; // Signed; positive when the faces point outward
+}
+
+// Directed edges grouped by their undirected key
+const collectEdges = (index: ArrayLike<number>) => {
+    const edges = new Map<string, { tri: number, from: number }[]>();
+    for (let t = 0; t < index.length; t += 3) {
+        for (let k = 0; k < 3; k++) {
+            const a = index[t + k];
+            const b = index[t + (k + 1) % 3];
+            const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+            let list = edges.get(key);
+            if (!list) {
+                list = [];
+                edges.set(key, list);
+            }
+            list.push({ tri: t / 3, from: a });
+        }
+    }
+    return edges;
+};
+
+// Cap triangulations can bridge a hole along one of its own edges, leaving a
+// vertex in the middle of an edge of the neighbouring face (T-junction).
+// Open edges are split at any open vertex lying on them until none remain.
+const splitTJunctions = (index: number[], position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, tolerance: number) => {
+    const tris = index.slice();
+    const p = new THREE.Vector3(), a = new THREE.Vector3(), b = new THREE.Vector3();
+    const segment = new THREE.Line3();
+
+    for (let pass = 0; pass < 8; pass++) {
+        const open: { tri: number, from: number, to: number }[] = [];
+        const openVertices = new Set<number>();
+        collectEdges(tris).forEach(uses => {
+            if (uses.length !== 1) return;
+            const { tri, from } = uses[0];
+            const k = tris.indexOf(from, tri * 3) - tri * 3;
+            const to = tris[tri * 3 + (k + 1) % 3];
+            open.push({ tri, from, to });
+            openVertices.add(from);
+            openVertices.add(to);
+        });
+        if (open.length === 0) break;
+
+        const splitTris = new Set<number>();
+        open.forEach(({ tri, from, to }) => {
+            if (splitTris.has(tri)) return; // Re-checked on the next pass
+            a.fromBufferAttribute(position, from);
+            b.fromBufferAttribute(position, to);
+            segment.set(a, b);
+
+            for (const v of openVertices) {
+                if (v === from || v === to) continue;
+                p.fromBufferAttribute(position, v);
+                const t = segment.closestPointToPointParameter(p, true);
+                if (t <= 0 || t >= 1 || segment.at(t, new THREE.Vector3()).distanceTo(p) > tolerance) continue;
+
+                // (from, to, apex) -> (from, v, apex) + (v, to, apex)
+                const k = tris.indexOf(from, tri * 3) - tri * 3;
+                const apex = tris[tri * 3 + (k + 2) % 3];
+                tris[tri * 3] = from;
+                tris[tri * 3 + 1] = v;
+                tris[tri * 3 + 2] = apex;
+                tris.push(v, to, apex);
+                splitTris.add(tri);
+                break;
+            }
+        });
+        if (splitTris.size === 0) break;
+    }
+    return tris;
+};
+
+/**
+ * Merges vertices closer than `tolerance`, drops the triangles that collapse
+ * and splits T-junctions. Returns an indexed geometry with positions only.
+ */
+export const weldVertices = (geometry: THREE.BufferGeometry, tolerance: number = 1e-4): THREE.BufferGeometry => {
+    const positionOnly = new THREE.BufferGeometry();
+    positionOnly.setAttribute('position', geometry.getAttribute('position').clone());
+    if (geometry.index) positionOnly.setIndex(geometry.index.clone());
+
+    const welded = mergeVertices(positionOnly, tolerance);
+    const index = welded.index!;
+
+    const kept: number[] = [];
+    for (let t = 0; t < index.count; t += 3) {
+        const a = index.getX(t), b = index.getX(t + 1), c = index.getX(t + 2);
+        if (a === b || b === c || c === a) continue; // Collapsed by the weld
+        kept.push(a, b, c);
+    }
+    welded.setIndex(splitTJunctions(kept, welded.getAttribute('position'), tolerance));
+    return welded;
+};
+
+const signedVolume = (position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute, index: ArrayLike<number>, tris?: number[]) => {
+    const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+    let volume = 0;
+    const count = tris ? tris.length : index.length / 3;
+    for (let i = 0; i < count; i++) {
+        const t = tris ? tris[i] : i;
+        a.fromBufferAttribute(position, index[t * 3]);
+        b.fromBufferAttribute(position, index[t * 3 + 1]);
+        c.fromBufferAttribute(position, index[t * 3 + 2]);
+        volume += a.dot(b.cross(c)) / 6;
+    }
+    return volume;
+};
+
+/**
+ * Topology report of an indexed (welded) geometry.
+ */
+export const analyzeMesh = (geometry: THREE.BufferGeometry): MeshReport => {
+    const index = geometry.index ? Array.from(geometry.index.array) : [];
+    let boundaryEdges = 0;
+    let nonManifoldEdges = 0;
+    let inconsistentEdges = 0;
+
+    collectEdges(index).forEach(uses => {
+        if (uses.length === 1) boundaryEdges++;
+        else if (uses.length > 2) nonManifoldEdges++;
+        else if (uses[0].from === uses[1].from) inconsistentEdges++;
+    });
+
+    const isClosed = boundaryEdges === 0;
+    const isConsistent = inconsistentEdges === 0;
+    return {
+        triangles: index.length / 3,
+        boundaryEdges,
+        nonManifoldEdges,
+        inconsistentEdges,
+        isClosed,
+        isConsistent,
+        isManifold: isClosed && isConsistent && nonManifoldEdges === 0,
+        volume: signedVolume(geometry.getAttribute('position'), index)
+    };
+};
+
+/**
+ * Makes the face winding consistent across each connected component
+ * (flood fill over shared edges), then flips any component whose signed
+ * volume is negative so all normals point outward. Works in place.
+ */
+export const orientFaces = (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+    if (!geometry.index) return geometry;
+    const index = Array.from(geometry.index.array);
+    const triCount = index.length / 3;
+    const edges = collectEdges(index);
+
+    // Neighbours across 2-manifold edges only
+    const neighbours: { tri: number, sameDirection: boolean }[][] = Array.from({ length: triCount }, () => []);
+    edges.forEach(uses => {
+        if (uses.length !== 2) return;
+        const [u, v] = uses;
+        const sameDirection = u.from === v.from;
+        neighbours[u.tri].push({ tri: v.tri, sameDirection });
+        neighbours[v.tri].push({ tri: u.tri, sameDirection });
+    });
+
+    const flip = (t: number) => {
+        const tmp = index[t * 3 + 1];
+        index[t * 3 + 1] = index[t * 3 + 2];
+        index[t * 3 + 2] = tmp;
+    };
+
+    const visited = new Uint8Array(triCount);
+    const flipped = new Uint8Array(triCount);
+    const position = geometry.getAttribute('position');
+
+    for (let seed = 0; seed < triCount; seed++) {
+        if (visited[seed]) continue;
+        const component: number[] = [];
+        const queue = [seed];
+        visited[seed] = 1;
+
+        while (queue.length > 0) {
+            const t = queue.pop()!;
+            component.push(t);
+            neighbours[t].forEach(n => {
+                if (visited[n.tri]) return;
+                visited[n.tri] = 1;
+                // Same direction means one of the two is flipped relative to the other
+                flipped[n.tri] = (n.sameDirection ? 1 : 0) ^ flipped[t];
+                queue.push(n.tri);
+            });
+        }
+
+        component.forEach(t => { if (flipped[t]) flip(t); });
+        if (signedVolume(position, index, component) < 0) component.forEach(flip);
+    }
+
+    geometry.setIndex(index);
+    return geometry;
+};
@@ -0,0 +1,37 @@
+import type { PartType } from './geometry-generator';
+
+// V53: Part colors shared by the viewer and the colored exports (3MF)
+
+export interface PartColors {
+    baseColor: string;
+    outerColor: string;
+    innerColor: string;
+}
+
+// Viewer defaults, also used for colored exports made outside the app (CLI)
+export const DEFAULT_PART_COLORS: PartColors = {
+    baseColor: '#ff6347',
+    outerColor: '#3b82f6',
+    innerColor: '#10b981'
+};
+
+export const HANDLE_COLOR = '#f59e0b'; // Amber for handle
+export const DEFAULT_PART_COLOR = '#ffffff';
+
+export const getPartColor = (type: PartType, colors: PartColors): string => {
+    switch (type) {
+        case 'base': return colors.baseColor;
+        case 'outer': return colors.outerColor;
+        case 'inner': return colors.innerColor;
+        case 'handle': return HANDLE_COLOR;
+        default: return DEFAULT_PART_COLOR;
+    }
+};
+
+export const PART_NAMES: Record<PartType, string> = {
+    base: 'Base',
+    outer: 'Cortador',
+    inner: 'Marcador',
+    handle: 'Asa',
+    bridge: 'Puente'
+};
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import ClipperLib from 'clipper-lib';
+
+// V50: Polygon Offset Engine
+// Replaces the old per-vertex bisector offset, which folded over itself on sharp
+// corners and concave notches. Clipper builds the offset with a proper join at
+// every vertex and resolves the self-intersections, so the result can split into
+// several loops or gain holes instead of overlapping.
+
+export type JoinType = 'round' | 'miter' | 'square';
+
+export interface OffsetOptions {
+    joinType?: JoinType; // Default 'miter'
+    miterLimit?: number; // Max miter length as a multiple of |distance|. Default 2
+    arcTolerance?: number; // Max deviation of round joins from the true arc (same units). Default 0.02
+}
+
+// Clipper works on integers: 1 unit = 1/1000 of a contour unit (µm for mm contours)
+const SCALE = 1000;
+
+const JOIN_TYPES: Record<JoinType, ClipperLib.JoinType> = {
+    round: ClipperLib.JoinType.jtRound,
+    miter: ClipperLib.JoinType.jtMiter,
+    square: ClipperLib.JoinType.jtSquare
+};
+
+const toClipperPath = (contour: THREE.Vector2[]): ClipperLib.Path =>
+    contour.map(p => ({ X: Math.round(p.x * SCALE), Y: Math.round(p.y * SCALE) }));
+
+const fromClipperPath = (path: ClipperLib.Path): THREE.Vector2[] =>
+    path.map(p => new THREE.Vector2(p.X / SCALE, p.Y / SCALE));
+
+/**
+ * Offsets a closed contour by `distance`. Positive distances grow the shape,
+ * negative ones shrink it, whatever the winding of the input.
+ * The result can hold several loops: outer boundaries are counter-clockwise
+ * and holes are clockwise (e.g. when an inset splits a shape in two, or an
+ * outset closes a narrow gap).
+ * @param contour Closed polygon
+ * @param distance Offset distance
+ * @param options Join type, miter limit and arc tolerance
+ */
+export const offsetPolygon = (contour: THREE.Vector2[], distance: number, options: OffsetOptions = {}): THREE.Vector2[][] => {
+    if (contour.length < 3) return [];
+
+    const path = ClipperLib.Clipper.CleanPolygon(toClipperPath(contour), 1);
+    if (path.length < 3) return [];
+
+    const offset = new ClipperLib.ClipperOffset(
+        Math.max(1, options.miterLimit ?? 2),
+        Math.max(1, (options.arcTolerance ?? 0.02) * SCALE)
+    );
+    offset.AddPath(path, JOIN_TYPES[options.joinType ?? 'miter'], ClipperLib.EndType.etClosedPolygon);
+
+    // A zero offset still runs through Clipper so self-intersecting input gets cleaned up
+    const solution: ClipperLib.Paths = [];
+    offset.Execute(solution, distance * SCALE);
+
+    return solution
+        .filter(p => p.length >= 3)
+        .map(fromClipperPath);
+};
+
+/**
+ * Splits offset loops into outer boundaries (counter-clockwise) and holes (clockwise).
+ */
+export const splitLoops = (loops: THREE.Vector2[][]): { outers: THREE.Vector2[][], holes: THREE.Vector2[][] } => {
+    const outers: THREE.Vector2[][] = [];
+    const holes: THREE.Vector2[][] = [];
+    loops.forEach(loop => {
+        if (THREE.ShapeUtils.area(loop) >= 0) outers.push(loop);
+        else holes.push(loop);
+    });
+    return { outers, holes };
+};
@@ -0,0 +1,28 @@
+import type { CutterPart, CutterSettings } from './geometry-generator';
+
+// V69: Print Kit
+// How the zip export splits the visible parts into separate print bodies:
+// the blade apart from the marker for cutters, the backing apart from the
+// relief for (multicolor) keychains.
+
+export interface PrintKitFile {
+    name: string; // File name without extension
+    parts: CutterPart[];
+}
+
+export const splitPrintKit = (parts: CutterPart[], outputType: CutterSettings['outputType'], hiddenIds?: Set<string>): PrintKitFile[] => {
+    const visible = parts.filter(p => !hiddenIds?.has(p.id));
+    const files: PrintKitFile[] = outputType === 'cutter'
+        ? [
+            { name: 'cortador', parts: visible.filter(p => p.type === 'outer') }, // Blade only
+            { name: 'marcador', parts: visible.filter(p => p.type === 'inner' || p.type === 'base' || p.type === 'handle') }
+        ]
+        : [
+            { name: 'base', parts: visible.filter(p => p.type === 'base') },
+            { name: 'relieve', parts: visible.filter(p => p.type !== 'base') }
+        ];
+    return files.filter(f => f.parts.length > 0);
+};
+
+export const printKitName = (outputType: CutterSettings['outputType']): string =>
+    outputType === 'cutter' ? 'cortador-kit' : 'llavero-multicolor';
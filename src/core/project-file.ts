@@ -0,0 +1,374 @@
+import type { CutterSettings } from './geometry-generator';
+import type { NodeType } from './curve-utils';
+import type { ContourRole, SerializedDesign } from './design-state';
+import type { BooleanOperation } from './boolean-ops';
+import type { JoinType } from './polygon-offset';
+
+// V60: Versioned .ccg Project Files
+// Every file is migrated step by step to the current version and then
+// validated field by field, so an old or hand-edited file either loads in a
+// consistent state or fails with the exact path of the problem.
+
+export const PROJECT_FILE_VERSION = 2;
+
+export type ProjectMode = 'cutter' | 'keychain' | 'free';
+
+export interface ProjectView {
+    viewer?: { baseColor: string; outerColor: string; innerColor: string };
+    hiddenPartIds?: string[];
+    show3DPreview?: boolean;
+}
+
+export interface ProjectFile {
+    version: string;
+    timestamp: number;
+    name: string;
+    mode: ProjectMode;
+    settings: CutterSettings;
+    design: SerializedDesign;
+    imageDims: { width: number; height: number } | null;
+    referenceImage?: string; // Data URL
+    view?: ProjectView;
+}
+
+export class ProjectValidationError extends Error {
+    path: string;
+
+    constructor(path: string, message: string) {
+        super(path ? `${path}: ${message}` : message);
+        this.name = 'ProjectValidationError';
+        this.path = path;
+    }
+}
+
+type Json = Record<string, unknown>;
+
+// --- Migrations ---
+
+const isObject = (value: unknown): value is Json =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Each entry upgrades a file from version N to N + 1.
+ */
+const MIGRATIONS: Record<number, (json: Json) => Json> = {
+    // 1 -> 2: design fields move out of `data`, mode becomes explicit
+    1: (json) => {
+        const data = isObject(json.data) ? json.data : {};
+        const { imageDims, ...design } = data;
+        // Designs without curves were saved with empty `nodeTypes`/`handles`/`roles` lists
+        const count = Array.isArray(design.contours) ? design.contours.length : 0;
+        const isEmptyList = (v: unknown) => Array.isArray(v) && v.length === 0 && count > 0;
+        if (isEmptyList(design.nodeTypes)) delete design.nodeTypes;
+        if (isEmptyList(design.handles)) delete design.handles;
+        if (isEmptyList(design.roles)) design.roles = new Array(count).fill('auto');
+        return {
+            version: '2.0',
+            timestamp: json.timestamp ?? Date.now(),
+            name: json.name ?? 'Mi Proyecto',
+            mode: 'cutter', // V48 files were always opened in cutter mode
+            settings: json.settings ?? {},
+            design,
+            imageDims: imageDims ?? null
+        };
+    }
+};
+
+const majorVersion = (version: unknown): number => {
+    const major = parseInt(String(version), 10);
+    if (!Number.isFinite(major) || major < 1) throw new ProjectValidationError('version', `versión desconocida "${String(version)}"`);
+    return major;
+};
+
+/**
+ * Runs the migration chain up to PROJECT_FILE_VERSION.
+ */
+export const migrateProjectFile = (json: unknown): Json => {
+    if (!isObject(json)) throw new ProjectValidationError('', 'el archivo no contiene un proyecto');
+    if (json.version === undefined) throw new ProjectValidationError('version', 'falta la versión del formato');
+
+    let current = json;
+    let version = majorVersion(current.version);
+    if (version > PROJECT_FILE_VERSION) {
+        throw new ProjectValidationError('version', `el proyecto es de una versión más reciente (${String(current.version)}); actualiza la aplicación`);
+    }
+    while (version < PROJECT_FILE_VERSION) {
+        const migrate = MIGRATIONS[version];
+        if (!migrate) throw new ProjectValidationError('version', `no hay migración desde la versión ${version}`);
+        current = migrate(current);
+        version = majorVersion(current.version);
+    }
+    return current;
+};
+
+// --- Validation ---
+
+const CONTOUR_ROLES: ContourRole[] = ['cut', 'stamp', 'auto', 'base', 'void'];
+const PROJECT_MODES: ProjectMode[] = ['cutter', 'keychain', 'free'];
+const NODE_TYPES: NodeType[] = ['corner', 'smooth'];
+
+const BOOLEAN_OPERATIONS: BooleanOperation[] = ['union', 'diff', 'intersection', 'xor'];
+
+// Allowed values of the text settings
+const SETTING_OPTIONS: Partial<Record<keyof CutterSettings, readonly string[]>> = {
+    generationMode: ['single', 'dual'],
+    bladeProfile: ['standard', 'stepped'],
+    outputType: ['cutter', 'keychain'],
+    keychainShape: ['silhouette', 'circle', 'square', 'hexagon', 'heart'],
+    offsetJoin: ['round', 'miter', 'square'] satisfies JoinType[]
+};
+
+// Lower bounds of the numeric settings: sizes and thicknesses must be
+// positive, heights, gaps and the hole can be zero
+const SETTING_MINIMUMS: Partial<Record<keyof CutterSettings, { min: number, exclusive?: boolean }>> = {
+    size: { min: 0, exclusive: true },
+    cutterHeight: { min: 0, exclusive: true },
+    cutterThickness: { min: 0, exclusive: true },
+    baseHeight: { min: 0 },
+    baseThickness: { min: 0, exclusive: true },
+    markerHeight: { min: 0 },
+    markerThickness: { min: 0, exclusive: true },
+    stampTolerance: { min: 0 },
+    handleHeight: { min: 0 },
+    handleThickness: { min: 0, exclusive: true },
+    keychainHoleDiameter: { min: 0 },
+    keychainBasePadding: { min: 0 },
+    keychainBevelSize: { min: 0 },
+    offsetMiterLimit: { min: 1 },
+    nozzleDiameter: { min: 0, exclusive: true }
+};
+
+const expectObject = (value: unknown, path: string): Json => {
+    if (!isObject(value)) throw new ProjectValidationError(path, 'se esperaba un objeto');
+    return value;
+};
+
+const expectArray = (value: unknown, path: string, length?: number): unknown[] => {
+    if (!Array.isArray(value)) throw new ProjectValidationError(path, 'se esperaba una lista');
+    if (length !== undefined && value.length !== length) {
+        throw new ProjectValidationError(path, `se esperaban ${length} elementos y hay ${value.length}`);
+    }
+    return value;
+};
+
+const expectNumber = (value: unknown, path: string): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) throw new ProjectValidationError(path, 'se esperaba un número');
+    return value;
+};
+
+const expectString = (value: unknown, path: string): string => {
+    if (typeof value !== 'string') throw new ProjectValidationError(path, 'se esperaba un texto');
+    return value;
+};
+
+const expectOneOf = <T extends string>(value: unknown, options: readonly T[], path: string): T => {
+    if (!options.includes(value as T)) throw new ProjectValidationError(path, `valor no válido "${String(value)}" (${options.join(', ')})`);
+    return value as T;
+};
+
+const expectAtLeast = (value: number, bound: { min: number, exclusive?: boolean }, path: string): number => {
+    if (bound.exclusive ? value <= bound.min : value < bound.min) {
+        throw new ProjectValidationError(path, bound.exclusive ? `debe ser mayor que ${bound.min}` : `debe ser al menos ${bound.min}`);
+    }
+    return value;
+};
+
+const optionalString = (value: unknown, path: string): string | undefined =>
+    value === undefined ? undefined : expectString(value, path);
+
+const optionalFlag = (value: unknown, path: string): boolean | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') throw new ProjectValidationError(path, 'se esperaba verdadero/falso');
+    return value;
+};
+
+const validatePoint = (value: unknown, path: string) => {
+    const p = expectObject(value, path);
+    return { x: expectNumber(p.x, `${path}.x`), y: expectNumber(p.y, `${path}.y`) };
+};
+
+const validateDesign = (value: unknown, path: string): SerializedDesign => {
+    const d = expectObject(value, path);
+    const contours = expectArray(d.contours, `${path}.contours`).map((c, i) =>
+        expectArray(c, `${path}.contours[${i}]`).map((p, j) => validatePoint(p, `${path}.contours[${i}][${j}]`))
+    );
+
+    const roles = expectArray(d.roles, `${path}.roles`, contours.length).map((r, i) =>
+        expectOneOf(r, CONTOUR_ROLES, `${path}.roles[${i}]`)
+    );
+
+    // Node types and handles are optional, but must line up with the contours when present
+    const nodeTypes = d.nodeTypes === undefined ? undefined : expectArray(d.nodeTypes, `${path}.nodeTypes`, contours.length).map((row, i) =>
+        expectArray(row, `${path}.nodeTypes[${i}]`, contours[i].length).map((t, j) =>
+            expectOneOf(t, NODE_TYPES, `${path}.nodeTypes[${i}][${j}]`)
+        )
+    );
+
+    const handles = d.handles === undefined ? undefined : expectArray(d.handles, `${path}.handles`, contours.length).map((row, i) =>
+        expectArray(row, `${path}.handles[${i}]`, contours[i].length).map((h, j) => {
+            if (h === null) return null;
+            const hp = `${path}.handles[${i}][${j}]`;
+            const handle = expectObject(h, hp);
+            return { in: validatePoint(handle.in, `${hp}.in`), out: validatePoint(handle.out, `${hp}.out`) };
+        })
+    );
+
+    // V65: Compound operands are contour indices, each used by one compound at most
+    const used = new Set<number>();
+    const compounds = d.compounds === undefined ? undefined : expectArray(d.compounds, `${path}.compounds`).map((c, i) => {
+        const cp = `${path}.compounds[${i}]`;
+        const compound = expectObject(c, cp);
+        const operands = expectArray(compound.operands, `${cp}.operands`).map((o, j) => {
+            const op = `${cp}.operands[${j}]`;
+            const index = expectNumber(o, op);
+            if (!Number.isInteger(index) || index < 0 || index >= contours.length) {
+                throw new ProjectValidationError(op, `índice de contorno fuera de rango (0-${contours.length - 1})`);
+            }
+            if (used.has(index)) throw new ProjectValidationError(op, 'el contorno ya pertenece a otra forma compuesta');
+            used.add(index);
+            return index;
+        });
+        if (operands.length < 2) throw new ProjectValidationError(`${cp}.operands`, 'se necesitan al menos 2 formas');
+        return {
+            id: expectString(compound.id, `${cp}.id`),
+            operation: expectOneOf(compound.operation, BOOLEAN_OPERATIONS, `${cp}.operation`),
+            operands
+        };
+    });
+
+    // V66: Layer data; IDs must be unique across contours and groups
+    const ids = new Set<string>();
+    const uniqueId = (value: unknown, idPath: string) => {
+        const id = expectString(value, idPath);
+        if (ids.has(id)) throw new ProjectValidationError(idPath, `ID repetido "${id}"`);
+        ids.add(id);
+        return id;
+    };
+    const flags = (o: Record<string, unknown>, p: string) => ({
+        locked: optionalFlag(o.locked, `${p}.locked`),
+        hidden: optionalFlag(o.hidden, `${p}.hidden`)
+    });
+
+    const items = d.items === undefined ? undefined : expectArray(d.items, `${path}.items`, contours.length).map((value, i) => {
+        const ip = `${path}.items[${i}]`;
+        const item = expectObject(value, ip);
+        return {
+            id: uniqueId(item.id, `${ip}.id`),
+            name: optionalString(item.name, `${ip}.name`),
+            groupId: optionalString(item.groupId, `${ip}.groupId`),
+            ...flags(item, ip)
+        };
+    });
+
+    const groups = d.groups === undefined ? undefined : expectArray(d.groups, `${path}.groups`).map((value, i) => {
+        const gp = `${path}.groups[${i}]`;
+        const group = expectObject(value, gp);
+        return {
+            id: uniqueId(group.id, `${gp}.id`),
+            name: expectString(group.name, `${gp}.name`),
+            parentId: optionalString(group.parentId, `${gp}.parentId`),
+            ...flags(group, gp)
+        };
+    });
+
+    return { contours, roles, nodeTypes, handles, compounds, items, groups };
+};
+
+/**
+ * Known settings are type-checked against the defaults, text settings must be
+ * one of their options and numbers within their range; unknown keys are
+ * dropped and missing ones take the default value.
+ */
+export const validateSettings = (value: unknown, defaults: CutterSettings): CutterSettings => {
+    const s = expectObject(value, 'settings');
+    const result: Record<string, unknown> = { ...defaults };
+    for (const [key, fallback] of Object.entries(defaults)) {
+        const v = s[key];
+        if (v === undefined) continue;
+        const path = `settings.${key}`;
+        if (isObject(fallback)) {
+            const o = expectObject(v, path);
+            result[key] = Object.fromEntries(Object.keys(fallback).map(k => [k, expectNumber(o[k], `${path}.${k}`)]));
+        } else if (typeof fallback === 'number') {
+            const bound = SETTING_MINIMUMS[key as keyof CutterSettings];
+            result[key] = bound ? expectAtLeast(expectNumber(v, path), bound, path) : expectNumber(v, path);
+        } else if (SETTING_OPTIONS[key as keyof CutterSettings]) {
+            result[key] = expectOneOf(v, SETTING_OPTIONS[key as keyof CutterSettings]!, path);
+        } else if (typeof v !== typeof fallback) {
+            throw new ProjectValidationError(path, `se esperaba ${typeof fallback === 'boolean' ? 'verdadero/falso' : 'un texto'}`);
+        } else {
+            result[key] = v;
+        }
+    }
+    return result as unknown as CutterSettings;
+};
+
+const validateView = (value: unknown): ProjectView => {
+    const v = expectObject(value, 'view');
+    const view: ProjectView = {};
+    if (v.viewer !== undefined) {
+        const c = expectObject(v.viewer, 'view.viewer');
+        view.viewer = {
+            baseColor: expectString(c.baseColor, 'view.viewer.baseColor'),
+            outerColor: expectString(c.outerColor, 'view.viewer.outerColor'),
+            innerColor: expectString(c.innerColor, 'view.viewer.innerColor')
+        };
+    }
+    if (v.hiddenPartIds !== undefined) {
+        view.hiddenPartIds = expectArray(v.hiddenPartIds, 'view.hiddenPartIds').map((id, i) => expectString(id, `view.hiddenPartIds[${i}]`));
+    }
+    if (v.show3DPreview !== undefined) {
+        if (typeof v.show3DPreview !== 'boolean') throw new ProjectValidationError('view.show3DPreview', 'se esperaba verdadero/falso');
+        view.show3DPreview = v.show3DPreview;
+    }
+    return view;
+};
+
+/**
+ * Validates a migrated (current version) project.
+ */
+export const validateProjectFile = (value: unknown, defaults: CutterSettings): ProjectFile => {
+    const json = expectObject(value, '');
+    const dims = json.imageDims === null || json.imageDims === undefined ? null : expectObject(json.imageDims, 'imageDims');
+
+    const file: ProjectFile = {
+        version: expectString(json.version, 'version'),
+        timestamp: expectNumber(json.timestamp, 'timestamp'),
+        name: expectString(json.name, 'name'),
+        mode: expectOneOf(json.mode, PROJECT_MODES, 'mode'),
+        settings: validateSettings(json.settings, defaults),
+        design: validateDesign(json.design, 'design'),
+        imageDims: dims && { width: expectNumber(dims.width, 'imageDims.width'), height: expectNumber(dims.height, 'imageDims.height') }
+    };
+
+    if (json.referenceImage !== undefined && json.referenceImage !== null) {
+        const image = expectString(json.referenceImage, 'referenceImage');
+        if (!image.startsWith('data:image/')) throw new ProjectValidationError('referenceImage', 'se esperaba una imagen incrustada (data URL)');
+        file.referenceImage = image;
+    }
+    if (json.view !== undefined) file.view = validateView(json.view);
+
+    if (file.design.contours.length > 0 && !file.imageDims) {
+        throw new ProjectValidationError('imageDims', 'faltan las dimensiones del lienzo');
+    }
+    return file;
+};
+
+/**
+ * Parses, migrates and validates the text of a .ccg file.
+ */
+export const parseProjectFile = (text: string, defaults: CutterSettings): ProjectFile => {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new ProjectValidationError('', 'el archivo no es JSON válido');
+    }
+    return validateProjectFile(migrateProjectFile(json), defaults);
+};
+
+export const createProjectFile = (project: Omit<ProjectFile, 'version' | 'timestamp'>): ProjectFile => ({
+    version: `${PROJECT_FILE_VERSION}.0`,
+    timestamp: Date.now(),
+    ...project
+});
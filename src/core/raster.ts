@@ -0,0 +1,88 @@
+import { traceSize, type ProcessOptions, type RasterImage } from './image-processing';
+
+// V69: DOM-free Trace Preparation
+// The same steps prepareImageForTrace does with a canvas (scale down, blur),
+// on plain RGBA pixels, for decoded images outside the browser.
+
+/**
+ * Scales the image to the given size, averaging the source pixels each
+ * target pixel covers (like a smoothed canvas drawImage when shrinking).
+ */
+export const resizeRaster = (image: RasterImage, width: number, height: number): RasterImage => {
+    if (width === image.width && height === image.height) return image;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const sx = image.width / width;
+    const sy = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+        const y0 = Math.floor(y * sy);
+        const y1 = Math.max(y0 + 1, Math.min(image.height, Math.floor((y + 1) * sy)));
+        for (let x = 0; x < width; x++) {
+            const x0 = Math.floor(x * sx);
+            const x1 = Math.max(x0 + 1, Math.min(image.width, Math.floor((x + 1) * sx)));
+            const sum = [0, 0, 0, 0];
+            for (let v = y0; v < y1; v++) {
+                for (let u = x0; u < x1; u++) {
+                    const idx = (v * image.width + u) * 4;
+                    for (let c = 0; c < 4; c++) sum[c] += image.data[idx + c];
+                }
+            }
+            const count = (x1 - x0) * (y1 - y0);
+            const out = (y * width + x) * 4;
+            for (let c = 0; c < 4; c++) data[out + c] = sum[c] / count;
+        }
+    }
+    return { width, height, data };
+};
+
+// One box blur pass along the rows (horizontal) or the columns
+const boxPass = (src: Float32Array, dst: Float32Array, width: number, height: number, radius: number, horizontal: boolean) => {
+    const length = horizontal ? width : height;
+    const lines = horizontal ? height : width;
+    const size = 2 * radius + 1;
+    for (let line = 0; line < lines; line++) {
+        const at = (i: number) => {
+            const k = Math.min(length - 1, Math.max(0, i)); // Edges are extended
+            return (horizontal ? line * width + k : k * width + line) * 4;
+        };
+        for (let c = 0; c < 4; c++) {
+            let sum = 0;
+            for (let i = -radius; i <= radius; i++) sum += src[at(i) + c];
+            for (let i = 0; i < length; i++) {
+                dst[at(i) + c] = sum / size;
+                sum += src[at(i + radius + 1) + c] - src[at(i - radius) + c];
+            }
+        }
+    }
+};
+
+/**
+ * Gaussian blur approximated by three box blurs. `sigma` is in pixels, the
+ * same unit as the CSS `blur()` filter the browser path uses.
+ */
+export const blurRaster = (image: RasterImage, sigma: number): RasterImage => {
+    if (sigma <= 0) return image;
+    const { width, height } = image;
+    // Box width for three passes (W. Jarosz, "Fast Image Convolutions")
+    const radius = Math.max(1, Math.round((Math.sqrt(4 * sigma * sigma + 1) - 1) / 2));
+
+    const pixels = Float32Array.from(image.data);
+    const scratch = new Float32Array(pixels.length);
+    for (let pass = 0; pass < 3; pass++) {
+        boxPass(pixels, scratch, width, height, radius, true);
+        boxPass(scratch, pixels, width, height, radius, false);
+    }
+    return { width, height, data: Uint8ClampedArray.from(pixels) };
+};
+
+/**
+ * Counterpart of prepareImageForTrace for decoded pixels.
+ */
+export const prepareRasterForTrace = (image: RasterImage, options: ProcessOptions) => {
+    const size = traceSize(image.width, image.height, options.highRes);
+    const resized = resizeRaster(image, size.width, size.height);
+    return {
+        imageData: blurRaster(resized, options.blur),
+        meta: { originalWidth: image.width, originalHeight: image.height }
+    };
+};
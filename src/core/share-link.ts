@@ -0,0 +1,66 @@
+import type { CutterSettings } from './geometry-generator';
+import { parseProjectFile, ProjectValidationError, type ProjectFile } from './project-file';
+
+// V61: Share Links
+// The .ccg payload is deflated and stored base64url-encoded in the URL
+// fragment, which never reaches a server. The reference image is left out
+// to keep links short.
+
+const SHARE_KEY = 'share=';
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    const CHUNK = 0x8000; // Avoid argument limits of fromCharCode
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+    const stream = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Compresses the project into the value stored after `#share=`.
+ */
+export const encodeSharePayload = async (project: ProjectFile): Promise<string> => {
+    const shared = { ...project };
+    delete shared.referenceImage;
+    const json = new TextEncoder().encode(JSON.stringify(shared));
+    return toBase64Url(await pipeBytes(json, new CompressionStream('deflate-raw')));
+};
+
+export const buildShareUrl = async (project: ProjectFile, baseUrl: string): Promise<string> =>
+    `${baseUrl.split('#')[0]}#${SHARE_KEY}${await encodeSharePayload(project)}`;
+
+/**
+ * Returns the encoded payload if the fragment is a share link.
+ */
+export const readShareFragment = (hash: string): string | null => {
+    const fragment = hash.startsWith('#') ? hash.slice(1) : hash;
+    return fragment.startsWith(SHARE_KEY) ? fragment.slice(SHARE_KEY.length) : null;
+};
+
+/**
+ * Inflates the payload and runs it through the same migration and validation
+ * as a .ccg file.
+ */
+export const decodeSharePayload = async (payload: string, defaults: CutterSettings): Promise<ProjectFile> => {
+    let text: string;
+    try {
+        text = new TextDecoder().decode(await pipeBytes(fromBase64Url(payload), new DecompressionStream('deflate-raw')));
+    } catch {
+        throw new ProjectValidationError('', 'el enlace compartido está incompleto o dañado');
+    }
+    return parseProjectFile(text, defaults);
+};
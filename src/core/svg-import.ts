@@ -0,0 +1,447 @@
+import * as THREE from 'three';
+import type { DesignState } from './design-state';
+import { SubpathBuilder, subpathsToDesign, type FillRule, type Subpath } from './bezier-path';
+
+// V55: Native SVG Import
+// Vector art skips the raster tracer: every path segment becomes an editor node
+// with Bezier handles (lines get none, quadratics and arcs are converted to
+// cubics). Subpaths that the fill rule leaves empty come in as 'void'.
+
+export interface SvgImportResult extends DesignState {
+    width: number;
+    height: number;
+}
+
+// V70: The part of a parsed SVG element the importer reads. DOM elements fit
+// it, so does any XML parser that exposes tag names, attributes and children.
+export interface SvgElement {
+    tagName: string;
+    getAttribute(name: string): string | null;
+    children: ArrayLike<SvgElement>;
+}
+
+// Imported art is scaled so its larger side matches the editor's virtual canvas
+const TARGET_SIZE = 800;
+const KAPPA = 0.5522847498; // Cubic approximation of a quarter circle
+const EPSILON = 1e-6;
+
+// 2D affine matrix [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Affine = [number, number, number, number, number, number];
+const IDENTITY: Affine = [1, 0, 0, 1, 0, 0];
+
+const multiply = (m: Affine, n: Affine): Affine => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+const apply = (m: Affine, p: THREE.Vector2) => new THREE.Vector2(m[0] * p.x + m[2] * p.y + m[4], m[1] * p.x + m[3] * p.y + m[5]);
+
+const parseNumbers = (text: string): number[] =>
+    (text.match(/[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+
+/**
+ * Parses an SVG `transform` attribute (composed left to right).
+ */
+export const parseTransform = (text: string | null): Affine => {
+    if (!text) return IDENTITY;
+    let result: Affine = IDENTITY;
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = re.exec(text))) {
+        const v = parseNumbers(match[2]);
+        let m: Affine = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                if (v.length >= 6) m = [v[0], v[1], v[2], v[3], v[4], v[5]];
+                break;
+            case 'translate':
+                m = [1, 0, 0, 1, v[0] || 0, v[1] || 0];
+                break;
+            case 'scale':
+                m = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+                break;
+            case 'rotate': {
+                const a = (v[0] || 0) * Math.PI / 180;
+                const cos = Math.cos(a), sin = Math.sin(a);
+                m = [cos, sin, -sin, cos, 0, 0];
+                if (v.length >= 3) {
+                    m = multiply(multiply([1, 0, 0, 1, v[1], v[2]], m), [1, 0, 0, 1, -v[1], -v[2]]);
+                }
+                break;
+            }
+            case 'skewX':
+                m = [1, 0, Math.tan((v[0] || 0) * Math.PI / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                m = [1, Math.tan((v[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+                break;
+        }
+        result = multiply(result, m);
+    }
+    return result;
+};
+
+// SVG 1.1 F.6.5: endpoint to center parameterization, emitted as <= 90° cubic pieces
+const arcTo = (
+    builder: SubpathBuilder,
+    from: THREE.Vector2,
+    rx: number, ry: number,
+    xAxisRotation: number,
+    largeArc: boolean, sweep: boolean,
+    to: THREE.Vector2
+) => {
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx < EPSILON || ry < EPSILON || from.distanceTo(to) < EPSILON) {
+        builder.lineTo(to);
+        return;
+    }
+
+    const phi = xAxisRotation * Math.PI / 180;
+    const cos = Math.cos(phi), sin = Math.sin(phi);
+    const dx = (from.x - to.x) / 2, dy = (from.y - to.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    // Radii too small: scale them up
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+    const cx1 = coef * (rx * y1 / ry);
+    const cy1 = coef * -(ry * x1 / rx);
+    const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= Math.PI * 2;
+    if (sweep && delta < 0) delta += Math.PI * 2;
+
+    const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / segments;
+    const k = 4 / 3 * Math.tan(step / 4);
+
+    const point = (t: number) => new THREE.Vector2(
+        cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+    );
+    const derivative = (t: number) => new THREE.Vector2(
+        -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+    );
+
+    for (let i = 0; i < segments; i++) {
+        const t1 = theta1 + i * step;
+        const t2 = t1 + step;
+        const p1 = point(t1), p2 = i === segments - 1 ? to.clone() : point(t2);
+        builder.cubicTo(
+            p1.clone().add(derivative(t1).multiplyScalar(k)),
+            p2.clone().sub(derivative(t2).multiplyScalar(k)),
+            p2
+        );
+    }
+};
+
+/**
+ * Parses SVG path data into closed subpaths.
+ */
+const parsePathData = (d: string): Subpath[] => {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || [];
+    const builder = new SubpathBuilder();
+    let i = 0;
+    let command = '';
+    let current = new THREE.Vector2();
+    let start = new THREE.Vector2();
+    let lastControl: THREE.Vector2 | null = null; // For S/T reflection
+    let lastCommand = '';
+
+    const isCommand = (t: string | undefined) => t !== undefined && /^[a-zA-Z]$/.test(t);
+    const num = () => parseFloat(tokens[i++]);
+    // Arc flags may be packed ("a1 1 0 01 5 5")
+    const flag = () => {
+        const token = tokens[i];
+        if (token.length > 1 && (token[0] === '0' || token[0] === '1')) {
+            tokens[i] = token.slice(1);
+            return token[0] === '1';
+        }
+        i++;
+        return token === '1';
+    };
+
+    while (i < tokens.length) {
+        if (isCommand(tokens[i])) command = tokens[i++];
+        else if (!command) { i++; continue; }
+
+        const relative = command === command.toLowerCase();
+        const base = relative ? current.clone() : new THREE.Vector2();
+        const pt = (x: number, y: number) => new THREE.Vector2(x, y).add(base);
+        const upper = command.toUpperCase();
+
+        switch (upper) {
+            case 'M':
+                current = pt(num(), num());
+                start = current.clone();
+                builder.moveTo(current);
+                command = relative ? 'l' : 'L'; // Extra pairs are implicit lines
+                lastControl = null;
+                break;
+            case 'L':
+                current = pt(num(), num());
+                builder.lineTo(current);
+                lastControl = null;
+                break;
+            case 'H':
+                current = new THREE.Vector2(num() + (relative ? current.x : 0), current.y);
+                builder.lineTo(current);
+                lastControl = null;
+                break;
+            case 'V':
+                current = new THREE.Vector2(current.x, num() + (relative ? current.y : 0));
+                builder.lineTo(current);
+                lastControl = null;
+                break;
+            case 'C': {
+                const c1 = pt(num(), num());
+                const c2 = pt(num(), num());
+                const p = pt(num(), num());
+                builder.cubicTo(c1, c2, p);
+                lastControl = c2;
+                current = p;
+                break;
+            }
+            case 'S': {
+                const c1 = lastControl && /[CS]/i.test(lastCommand) ? current.clone().multiplyScalar(2).sub(lastControl) : current.clone();
+                const c2 = pt(num(), num());
+                const p = pt(num(), num());
+                builder.cubicTo(c1, c2, p);
+                lastControl = c2;
+                current = p;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const q: THREE.Vector2 = upper === 'Q'
+                    ? pt(num(), num())
+                    : (lastControl && /[QT]/i.test(lastCommand) ? current.clone().multiplyScalar(2).sub(lastControl) : current.clone());
+                const p = pt(num(), num());
+                builder.quadTo(q, p);
+                lastControl = q;
+                current = p;
+                break;
+            }
+            case 'A': {
+                const rx = num(), ry = num(), rotation = num();
+                const largeArc = flag(), sweep = flag();
+                const p = pt(num(), num());
+                arcTo(builder, current, rx, ry, rotation, largeArc, sweep, p);
+                lastControl = null;
+                current = p;
+                break;
+            }
+            case 'Z':
+                builder.close();
+                current = start.clone();
+                lastControl = null;
+                break;
+            default:
+                i++; // Unknown command: skip its argument
+        }
+        lastCommand = command;
+
+        // Truncated data: keep what was parsed so far
+        if (Number.isNaN(current.x + current.y)) break;
+    }
+    builder.close();
+    return builder.subpaths
+        .map(sp => sp.filter(n => Number.isFinite(n.pos.x) && Number.isFinite(n.pos.y)))
+        .filter(sp => sp.length >= 2);
+};
+
+// --- Basic shapes as subpaths ---
+
+const ellipseSubpath = (cx: number, cy: number, rx: number, ry: number): Subpath => {
+    const kx = rx * KAPPA, ky = ry * KAPPA;
+    const v = (x: number, y: number) => new THREE.Vector2(x, y);
+    return [
+        { pos: v(cx + rx, cy), handleIn: v(cx + rx, cy - ky), handleOut: v(cx + rx, cy + ky) },
+        { pos: v(cx, cy + ry), handleIn: v(cx + kx, cy + ry), handleOut: v(cx - kx, cy + ry) },
+        { pos: v(cx - rx, cy), handleIn: v(cx - rx, cy + ky), handleOut: v(cx - rx, cy - ky) },
+        { pos: v(cx, cy - ry), handleIn: v(cx - kx, cy - ry), handleOut: v(cx + kx, cy - ry) }
+    ];
+};
+
+const rectSubpath = (x: number, y: number, w: number, h: number, rx: number, ry: number): Subpath => {
+    const v = (px: number, py: number) => new THREE.Vector2(px, py);
+    if (rx <= 0 || ry <= 0) {
+        return [v(x, y), v(x + w, y), v(x + w, y + h), v(x, y + h)].map(pos => ({ pos, handleIn: null, handleOut: null }));
+    }
+    rx = Math.min(rx, w / 2);
+    ry = Math.min(ry, h / 2);
+    const kx = rx * KAPPA, ky = ry * KAPPA;
+    return [
+        { pos: v(x + rx, y), handleIn: v(x + rx - kx, y), handleOut: null },
+        { pos: v(x + w - rx, y), handleIn: null, handleOut: v(x + w - rx + kx, y) },
+        { pos: v(x + w, y + ry), handleIn: v(x + w, y + ry - ky), handleOut: null },
+        { pos: v(x + w, y + h - ry), handleIn: null, handleOut: v(x + w, y + h - ry + ky) },
+        { pos: v(x + w - rx, y + h), handleIn: v(x + w - rx + kx, y + h), handleOut: null },
+        { pos: v(x + rx, y + h), handleIn: null, handleOut: v(x + rx - kx, y + h) },
+        { pos: v(x, y + h - ry), handleIn: v(x, y + h - ry + ky), handleOut: null },
+        { pos: v(x, y + ry), handleIn: null, handleOut: v(x, y + ry - ky) }
+    ];
+};
+
+const pointsSubpath = (text: string | null): Subpath => {
+    const v = parseNumbers(text || '');
+    const nodes: Subpath = [];
+    for (let i = 0; i + 1 < v.length; i += 2) {
+        nodes.push({ pos: new THREE.Vector2(v[i], v[i + 1]), handleIn: null, handleOut: null });
+    }
+    return nodes;
+};
+
+// --- Document traversal ---
+
+const SKIPPED_ELEMENTS = new Set(['defs', 'clipPath', 'mask', 'symbol', 'marker', 'pattern', 'style', 'script', 'title', 'desc', 'metadata']);
+
+const styleValue = (el: SvgElement, name: string): string | null => {
+    const style = el.getAttribute('style');
+    if (style) {
+        const match = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`));
+        if (match) return match[1].trim();
+    }
+    return el.getAttribute(name);
+};
+
+const length = (el: SvgElement, name: string) => parseFloat(el.getAttribute(name) || '0') || 0;
+
+const elementSubpaths = (el: SvgElement): Subpath[] => {
+    switch (el.tagName.toLowerCase()) {
+        case 'path':
+            return parsePathData(el.getAttribute('d') || '');
+        case 'rect': {
+            const w = length(el, 'width'), h = length(el, 'height');
+            if (w <= 0 || h <= 0) return [];
+            const rxAttr = el.getAttribute('rx'), ryAttr = el.getAttribute('ry');
+            const rx = rxAttr !== null ? parseFloat(rxAttr) : ryAttr !== null ? parseFloat(ryAttr) : 0;
+            const ry = ryAttr !== null ? parseFloat(ryAttr) : rx;
+            return [rectSubpath(length(el, 'x'), length(el, 'y'), w, h, rx || 0, ry || 0)];
+        }
+        case 'circle': {
+            const r = length(el, 'r');
+            return r > 0 ? [ellipseSubpath(length(el, 'cx'), length(el, 'cy'), r, r)] : [];
+        }
+        case 'ellipse': {
+            const rx = length(el, 'rx'), ry = length(el, 'ry');
+            return rx > 0 && ry > 0 ? [ellipseSubpath(length(el, 'cx'), length(el, 'cy'), rx, ry)] : [];
+        }
+        case 'polygon':
+        case 'polyline': {
+            const nodes = pointsSubpath(el.getAttribute('points'));
+            return nodes.length >= 3 ? [nodes] : [];
+        }
+        default:
+            return [];
+    }
+};
+
+interface RawShape {
+    subpaths: Subpath[];
+    fillRule: FillRule;
+}
+
+const collectShapes = (el: SvgElement, matrix: Affine, inheritedFillRule: FillRule, out: RawShape[]) => {
+    if (SKIPPED_ELEMENTS.has(el.tagName)) return;
+    if (styleValue(el, 'display') === 'none') return;
+
+    const m = multiply(matrix, parseTransform(el.getAttribute('transform')));
+    const ruleValue = styleValue(el, 'fill-rule');
+    const fillRule = ruleValue === 'evenodd' ? 'evenodd' : ruleValue === 'nonzero' ? 'nonzero' : inheritedFillRule;
+
+    const subpaths = elementSubpaths(el).map(sp => sp.map(node => ({
+        pos: apply(m, node.pos),
+        handleIn: node.handleIn ? apply(m, node.handleIn) : null,
+        handleOut: node.handleOut ? apply(m, node.handleOut) : null
+    })));
+    if (subpaths.length > 0) out.push({ subpaths, fillRule });
+
+    Array.from(el.children).forEach(child => collectShapes(child, m, fillRule, out));
+};
+
+/**
+ * Converts a parsed <svg> root into editor contours (pixels, Y down) with Bezier handles.
+ * The art is fitted into an 800px canvas keeping its aspect ratio.
+ */
+export const importSvgElement = (svg: SvgElement): SvgImportResult => {
+    if (svg.tagName.toLowerCase() !== 'svg') throw new Error('El archivo no es un SVG válido.');
+
+    // viewBox origin maps to the canvas origin
+    const viewBox = parseNumbers(svg.getAttribute('viewBox') || '');
+    let rootMatrix: Affine = IDENTITY;
+    let docWidth = parseFloat(svg.getAttribute('width') || '') || 0;
+    let docHeight = parseFloat(svg.getAttribute('height') || '') || 0;
+    if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+        rootMatrix = [1, 0, 0, 1, -viewBox[0], -viewBox[1]];
+        docWidth = viewBox[2];
+        docHeight = viewBox[3];
+    }
+
+    const shapes: RawShape[] = [];
+    Array.from(svg.children).forEach(child => collectShapes(child, rootMatrix, 'nonzero', shapes));
+    if (shapes.length === 0) throw new Error('El SVG no contiene formas compatibles.');
+
+    // No usable size: frame the art itself
+    if (docWidth <= 0 || docHeight <= 0) {
+        const box = new THREE.Box2();
+        shapes.forEach(s => s.subpaths.forEach(sp => sp.forEach(n => box.expandByPoint(n.pos))));
+        const size = box.getSize(new THREE.Vector2());
+        const margin = Math.max(size.x, size.y) * 0.05;
+        const offset: Affine = [1, 0, 0, 1, margin - box.min.x, margin - box.min.y];
+        shapes.forEach(s => s.subpaths.forEach(sp => sp.forEach(n => {
+            n.pos = apply(offset, n.pos);
+            if (n.handleIn) n.handleIn = apply(offset, n.handleIn);
+            if (n.handleOut) n.handleOut = apply(offset, n.handleOut);
+        })));
+        docWidth = size.x + margin * 2;
+        docHeight = size.y + margin * 2;
+    }
+
+    const scale = TARGET_SIZE / Math.max(docWidth, docHeight);
+
+    const result: SvgImportResult = {
+        contours: [],
+        roles: [],
+        nodeTypes: [],
+        handles: [],
+        width: Math.round(docWidth * scale),
+        height: Math.round(docHeight * scale)
+    };
+
+    shapes.forEach(shape => {
+        const scaled = shape.subpaths.map(sp => sp.map(n => ({
+            pos: n.pos.clone().multiplyScalar(scale),
+            handleIn: n.handleIn ? n.handleIn.clone().multiplyScalar(scale) : null,
+            handleOut: n.handleOut ? n.handleOut.clone().multiplyScalar(scale) : null
+        })));
+
+        const design = subpathsToDesign(scaled, shape.fillRule);
+        result.contours.push(...design.contours);
+        result.roles.push(...design.roles);
+        result.nodeTypes!.push(...design.nodeTypes!);
+        result.handles!.push(...design.handles!);
+    });
+
+    if (result.contours.length === 0) throw new Error('El SVG no contiene formas compatibles.');
+    return result;
+};
@@ -0,0 +1,112 @@
+import * as THREE from 'three';
+import { parse, type Font, type PathCommand } from 'opentype.js/dist/opentype.mjs'; // V70: ESM build, also loads in Node
+import type { DesignState } from './design-state';
+import { SubpathBuilder, subpathsToDesign } from './bezier-path';
+
+// V57: Text from Font Outlines
+// Glyph outlines (TrueType quadratics / CFF cubics) go straight into editor
+// nodes, so text keeps exact curves instead of a traced staircase. Layout is
+// done here: kerning, letter spacing, line height and per-line alignment.
+
+export type { Font };
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextLayoutOptions {
+    fontSize: number; // px per em
+    letterSpacing: number; // Thousandths of an em (CSS-like tracking)
+    lineHeight: number; // Multiple of the font size
+    align: TextAlign;
+    kerning: boolean;
+    italicSkew?: number; // Synthetic oblique (tan of the slant) for fonts without an italic file
+}
+
+export const DEFAULT_TEXT_LAYOUT: TextLayoutOptions = {
+    fontSize: 150,
+    letterSpacing: 0,
+    lineHeight: 1.2,
+    align: 'center',
+    kerning: true
+};
+
+/**
+ * Parses a TTF, OTF or WOFF file (WOFF2 is not supported by the parser).
+ */
+export const loadFont = (buffer: ArrayBuffer): Font => {
+    try {
+        const font = parse(buffer);
+        if (!font.supported) throw new Error('unsupported');
+        return font;
+    } catch {
+        throw new Error('No se pudo leer la fuente. Usa un archivo TTF, OTF o WOFF.');
+    }
+};
+
+const appendCommands = (builder: SubpathBuilder, commands: PathCommand[], transform: (x: number, y: number) => THREE.Vector2) => {
+    commands.forEach(cmd => {
+        switch (cmd.type) {
+            case 'M': builder.moveTo(transform(cmd.x, cmd.y)); break;
+            case 'L': builder.lineTo(transform(cmd.x, cmd.y)); break;
+            case 'Q': builder.quadTo(transform(cmd.x1, cmd.y1), transform(cmd.x, cmd.y)); break;
+            case 'C': builder.cubicTo(transform(cmd.x1, cmd.y1), transform(cmd.x2, cmd.y2), transform(cmd.x, cmd.y)); break;
+            case 'Z': builder.close(); break;
+        }
+    });
+    builder.close();
+};
+
+/**
+ * Lays out (multi-line) text and returns its outlines as editor contours,
+ * centered on the origin (Y down). Counters ('o', 'e', ...) come in as 'void'.
+ */
+export const textToDesign = (font: Font, text: string, options: TextLayoutOptions = DEFAULT_TEXT_LAYOUT): DesignState => {
+    const { fontSize, letterSpacing, lineHeight, align, kerning, italicSkew = 0 } = options;
+    const unitScale = fontSize / font.unitsPerEm;
+    const tracking = letterSpacing / 1000 * fontSize;
+
+    const result: DesignState = { contours: [], roles: [], nodeTypes: [], handles: [] };
+
+    text.split('\n').forEach((line, lineIndex) => {
+        const baseline = lineIndex * fontSize * lineHeight;
+        const glyphs = font.stringToGlyphs(line);
+
+        // Pen positions first, to know the line width for alignment
+        const positions: number[] = [];
+        let x = 0;
+        glyphs.forEach((glyph, i) => {
+            positions.push(x);
+            x += (glyph.advanceWidth || 0) * unitScale;
+            if (i < glyphs.length - 1) {
+                x += tracking;
+                if (kerning) x += font.getKerningValue(glyph, glyphs[i + 1]) * unitScale;
+            }
+        });
+        const lineOffset = align === 'center' ? -x / 2 : align === 'right' ? -x : 0;
+
+        glyphs.forEach((glyph, i) => {
+            const path = glyph.getPath(positions[i] + lineOffset, baseline, fontSize);
+            if (path.commands.length === 0) return; // Spaces
+
+            // Oblique around the baseline (glyph paths are already Y down)
+            const transform = (px: number, py: number) => new THREE.Vector2(px + (baseline - py) * italicSkew, py);
+            const builder = new SubpathBuilder();
+            appendCommands(builder, path.commands, transform);
+
+            // Font outlines are nonzero-filled; each glyph is its own shape
+            const design = subpathsToDesign(builder.subpaths, 'nonzero');
+            result.contours.push(...design.contours);
+            result.roles.push(...design.roles);
+            result.nodeTypes!.push(...design.nodeTypes!);
+            result.handles!.push(...design.handles!);
+        });
+    });
+
+    // Center on the origin; the editor places it in the current view
+    const box = new THREE.Box2();
+    result.contours.forEach(c => c.forEach(p => box.expandByPoint(p)));
+    if (!box.isEmpty()) {
+        const center = box.getCenter(new THREE.Vector2());
+        result.contours = result.contours.map(c => c.map(p => p.clone().sub(center)));
+    }
+    return result;
+};
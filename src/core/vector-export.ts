@@ -0,0 +1,299 @@
+import * as THREE from 'three';
+import { interpolateContour } from './curve-utils';
+import { flattenContour, type ContourRole, type DesignState } from './design-state';
+import { evaluateCompounds } from './compound-shapes';
+
+// V56: 2D Vector Export (SVG / DXF)
+// Writes the edited contours at real size (millimetres, same scale as the 3D
+// generator) so the design can go to laser cutters and vinyl plotters. Each role
+// gets its own layer; contours with Bezier handles stay curves (SVG cubic
+// commands, DXF SPLINE), the rest are written as closed polylines.
+
+const ROLE_ORDER: ContourRole[] = ['cut', 'stamp', 'base', 'void', 'auto'];
+
+const LAYER_NAMES: Record<ContourRole, string> = {
+    cut: 'CORTAR',
+    stamp: 'SELLAR',
+    base: 'BASE',
+    void: 'HUECO',
+    auto: 'AUTO'
+};
+
+// Same palette as the 2D editor
+const LAYER_COLORS: Record<ContourRole, { svg: string, aci: number }> = {
+    cut: { svg: '#ef4444', aci: 1 },
+    stamp: { svg: '#3b82f6', aci: 5 },
+    base: { svg: '#10b981', aci: 3 },
+    void: { svg: '#6b7280', aci: 8 },
+    auto: { svg: '#10b981', aci: 7 }
+};
+
+interface BezierSegmentNode {
+    pos: THREE.Vector2;
+    handleIn: THREE.Vector2; // Absolute
+    handleOut: THREE.Vector2; // Absolute
+}
+
+type VectorPath =
+    | { kind: 'bezier', nodes: BezierSegmentNode[] }
+    | { kind: 'polyline', points: THREE.Vector2[] };
+
+interface VectorLayer {
+    role: ContourRole;
+    paths: VectorPath[];
+}
+
+/**
+ * Resolves each contour the same way the 3D preview does (handles first, then
+ * smooth nodes) and maps it to millimetres with Y down, origin at the canvas corner.
+ * Compounds are written as their boolean result (a polyline), like the model;
+ * hidden contours are left out.
+ */
+const buildLayers = (design: DesignState, imgWidth: number, imgHeight: number, size: number, hidden?: boolean[]): VectorLayer[] => {
+    const scale = size / Math.max(imgWidth, imgHeight);
+    const toMM = (p: THREE.Vector2) => p.clone().multiplyScalar(scale);
+
+    const flat = design.contours.map((_, i) => flattenContour(design, i));
+    const evaluated = evaluateCompounds(flat, design.roles, design.compounds);
+
+    const layers = new Map<ContourRole, VectorPath[]>();
+    evaluated.contours.forEach((ring, k) => {
+        const i = evaluated.origins[k];
+        const contour = design.contours[i];
+        if (contour.length < 2 || hidden?.[i]) return;
+        const role = evaluated.roles[k] || 'auto';
+        const types = design.nodeTypes?.[i] || [];
+        const handles = design.handles?.[i];
+
+        let path: VectorPath;
+        if (evaluated.compoundOf[k]) {
+            path = { kind: 'polyline', points: ring.map(toMM) };
+        } else if (handles && handles.some(h => h !== null)) {
+            path = {
+                kind: 'bezier',
+                nodes: contour.map((p, j) => ({
+                    pos: toMM(p),
+                    handleIn: toMM(handles[j] ? p.clone().add(handles[j]!.in) : p),
+                    handleOut: toMM(handles[j] ? p.clone().add(handles[j]!.out) : p)
+                }))
+            };
+        } else if (types.some(t => t === 'smooth')) {
+            path = { kind: 'polyline', points: interpolateContour(contour, types, true, 8).map(toMM) };
+        } else {
+            path = { kind: 'polyline', points: contour.map(toMM) };
+        }
+
+        if (!layers.has(role)) layers.set(role, []);
+        layers.get(role)!.push(path);
+    });
+
+    return ROLE_ORDER.filter(role => layers.has(role)).map(role => ({ role, paths: layers.get(role)! }));
+};
+
+const fmt = (value: number) => String(Math.round(value * 1e4) / 1e4);
+
+const svgPathData = (path: VectorPath): string => {
+    if (path.kind === 'polyline') {
+        return path.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${fmt(p.x)} ${fmt(p.y)}`).join(' ') + ' Z';
+    }
+    const { nodes } = path;
+    const parts = [`M${fmt(nodes[0].pos.x)} ${fmt(nodes[0].pos.y)}`];
+    for (let i = 0; i < nodes.length; i++) {
+        const curr = nodes[i];
+        const next = nodes[(i + 1) % nodes.length];
+        const isLine = curr.handleOut.equals(curr.pos) && next.handleIn.equals(next.pos);
+        parts.push(isLine
+            ? `L${fmt(next.pos.x)} ${fmt(next.pos.y)}`
+            : `C${fmt(curr.handleOut.x)} ${fmt(curr.handleOut.y)} ${fmt(next.handleIn.x)} ${fmt(next.handleIn.y)} ${fmt(next.pos.x)} ${fmt(next.pos.y)}`);
+    }
+    return parts.join(' ') + ' Z';
+};
+
+/**
+ * SVG in millimetres, one `<g>` (Inkscape layer) per role.
+ */
+export const exportToSVG = (design: DesignState, imgWidth: number, imgHeight: number, size: number, hidden?: boolean[]): string => {
+    const scale = size / Math.max(imgWidth, imgHeight);
+    const width = fmt(imgWidth * scale);
+    const height = fmt(imgHeight * scale);
+
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`
+    ];
+    buildLayers(design, imgWidth, imgHeight, size, hidden).forEach(layer => {
+        lines.push(`  <g id="${LAYER_NAMES[layer.role]}" inkscape:groupmode="layer" inkscape:label="${LAYER_NAMES[layer.role]}" fill="none" stroke="${LAYER_COLORS[layer.role].svg}" stroke-width="0.1">`);
+        // evenodd keeps holes open when the file is filled (vinyl, engraving)
+        layer.paths.forEach(path => lines.push(`    <path fill-rule="evenodd" d="${svgPathData(path)}"/>`));
+        lines.push('  </g>');
+    });
+    lines.push('</svg>', '');
+    return lines.join('\n');
+};
+
+// --- DXF (AutoCAD 2000, AC1015) ---
+
+class DxfWriter {
+    private lines: string[] = [];
+    private nextHandle = 0x20; // Low handles are reserved for the fixed tables below
+
+    handle() {
+        return (this.nextHandle++).toString(16).toUpperCase();
+    }
+
+    get handleSeed() {
+        return this.nextHandle.toString(16).toUpperCase();
+    }
+
+    push(code: number, value: string | number) {
+        this.lines.push(String(code), typeof value === 'number' ? fmt(value) : value);
+    }
+
+    append(other: DxfWriter) {
+        this.lines.push(...other.lines);
+    }
+
+    toString() {
+        return this.lines.join('\r\n') + '\r\n';
+    }
+}
+
+const MODEL_SPACE_RECORD = '1F';
+const PAPER_SPACE_RECORD = '1E';
+
+const writeEntities = (dxf: DxfWriter, layers: VectorLayer[], height: number) => {
+    // DXF is Y up: flip around the canvas height
+    const flip = (p: THREE.Vector2) => new THREE.Vector2(p.x, height - p.y);
+
+    layers.forEach(layer => layer.paths.forEach(path => {
+        dxf.push(0, path.kind === 'polyline' ? 'LWPOLYLINE' : 'SPLINE');
+        dxf.push(5, dxf.handle());
+        dxf.push(330, MODEL_SPACE_RECORD);
+        dxf.push(100, 'AcDbEntity');
+        dxf.push(8, LAYER_NAMES[layer.role]);
+
+        if (path.kind === 'polyline') {
+            dxf.push(100, 'AcDbPolyline');
+            dxf.push(90, path.points.length);
+            dxf.push(70, 1); // Closed
+            path.points.map(flip).forEach(p => {
+                dxf.push(10, p.x);
+                dxf.push(20, p.y);
+            });
+            return;
+        }
+
+        // Piecewise cubic Bezier as a clamped B-spline: every inner knot has
+        // multiplicity 3, so the control polygon is exactly the Bezier one
+        const { nodes } = path;
+        const segments = nodes.length;
+        const controlPoints: THREE.Vector2[] = [nodes[0].pos];
+        for (let i = 0; i < segments; i++) {
+            const next = nodes[(i + 1) % segments];
+            controlPoints.push(nodes[i].handleOut, next.handleIn, next.pos);
+        }
+        const knots = [0, 0, 0, 0];
+        for (let i = 1; i < segments; i++) knots.push(i, i, i);
+        knots.push(segments, segments, segments, segments);
+
+        dxf.push(100, 'AcDbSpline');
+        dxf.push(210, 0);
+        dxf.push(220, 0);
+        dxf.push(230, 1);
+        dxf.push(70, 8); // Planar
+        dxf.push(71, 3);
+        dxf.push(72, knots.length);
+        dxf.push(73, controlPoints.length);
+        dxf.push(74, 0);
+        knots.forEach(k => dxf.push(40, k));
+        controlPoints.map(flip).forEach(p => {
+            dxf.push(10, p.x);
+            dxf.push(20, p.y);
+            dxf.push(30, 0);
+        });
+    }));
+};
+
+/**
+ * DXF R2000 in millimetres (INSUNITS 4), one layer per role.
+ */
+export const exportToDXF = (design: DesignState, imgWidth: number, imgHeight: number, size: number, hidden?: boolean[]): string => {
+    const scale = size / Math.max(imgWidth, imgHeight);
+    const height = imgHeight * scale;
+    const layers = buildLayers(design, imgWidth, imgHeight, size, hidden);
+
+    // Entities first so the header can carry the final handle seed
+    const entities = new DxfWriter();
+    writeEntities(entities, layers, height);
+
+    const dxf = new DxfWriter();
+    const section = (name: string) => { dxf.push(0, 'SECTION'); dxf.push(2, name); };
+    const endSection = () => dxf.push(0, 'ENDSEC');
+    const table = (name: string, handle: string, count: number) => {
+        dxf.push(0, 'TABLE');
+        dxf.push(2, name);
+        dxf.push(5, handle);
+        dxf.push(330, '0');
+        dxf.push(100, 'AcDbSymbolTable');
+        dxf.push(70, count);
+    };
+
+    section('HEADER');
+    dxf.push(9, '$ACADVER'); dxf.push(1, 'AC1015');
+    dxf.push(9, '$HANDSEED'); dxf.push(5, entities.handleSeed);
+    dxf.push(9, '$INSUNITS'); dxf.push(70, 4); // Millimetres
+    dxf.push(9, '$MEASUREMENT'); dxf.push(70, 1); // Metric
+    dxf.push(9, '$EXTMIN'); dxf.push(10, 0); dxf.push(20, 0); dxf.push(30, 0);
+    dxf.push(9, '$EXTMAX'); dxf.push(10, imgWidth * scale); dxf.push(20, height); dxf.push(30, 0);
+    endSection();
+
+    section('TABLES');
+    table('LTYPE', '5', 1);
+    dxf.push(0, 'LTYPE'); dxf.push(5, '14'); dxf.push(330, '5');
+    dxf.push(100, 'AcDbSymbolTableRecord'); dxf.push(100, 'AcDbLinetypeTableRecord');
+    dxf.push(2, 'CONTINUOUS'); dxf.push(70, 0); dxf.push(3, 'Solid line'); dxf.push(72, 65); dxf.push(73, 0); dxf.push(40, 0);
+    dxf.push(0, 'ENDTAB');
+
+    table('LAYER', '2', ROLE_ORDER.length + 1);
+    const layerRecord = (name: string, handle: string, color: number) => {
+        dxf.push(0, 'LAYER'); dxf.push(5, handle); dxf.push(330, '2');
+        dxf.push(100, 'AcDbSymbolTableRecord'); dxf.push(100, 'AcDbLayerTableRecord');
+        dxf.push(2, name); dxf.push(70, 0); dxf.push(62, color); dxf.push(6, 'CONTINUOUS');
+    };
+    layerRecord('0', '10', 7);
+    ROLE_ORDER.forEach((role, i) => layerRecord(LAYER_NAMES[role], (0x15 + i).toString(16).toUpperCase(), LAYER_COLORS[role].aci));
+    dxf.push(0, 'ENDTAB');
+
+    table('BLOCK_RECORD', '1', 2);
+    [[MODEL_SPACE_RECORD, '*Model_Space'], [PAPER_SPACE_RECORD, '*Paper_Space']].forEach(([handle, name]) => {
+        dxf.push(0, 'BLOCK_RECORD'); dxf.push(5, handle); dxf.push(330, '1');
+        dxf.push(100, 'AcDbSymbolTableRecord'); dxf.push(100, 'AcDbBlockTableRecord');
+        dxf.push(2, name);
+    });
+    dxf.push(0, 'ENDTAB');
+    endSection();
+
+    section('BLOCKS');
+    [[MODEL_SPACE_RECORD, '*Model_Space', '1A', '1B'], [PAPER_SPACE_RECORD, '*Paper_Space', '1C', '1D']].forEach(([owner, name, blockHandle, endHandle]) => {
+        dxf.push(0, 'BLOCK'); dxf.push(5, blockHandle); dxf.push(330, owner);
+        dxf.push(100, 'AcDbEntity'); dxf.push(8, '0'); dxf.push(100, 'AcDbBlockBegin');
+        dxf.push(2, name); dxf.push(70, 0); dxf.push(10, 0); dxf.push(20, 0); dxf.push(30, 0); dxf.push(3, name); dxf.push(1, '');
+        dxf.push(0, 'ENDBLK'); dxf.push(5, endHandle); dxf.push(330, owner);
+        dxf.push(100, 'AcDbEntity'); dxf.push(8, '0'); dxf.push(100, 'AcDbBlockEnd');
+    });
+    endSection();
+
+    section('ENTITIES');
+    dxf.append(entities);
+    endSection();
+
+    // Root dictionary (required by R2000 readers)
+    section('OBJECTS');
+    dxf.push(0, 'DICTIONARY'); dxf.push(5, 'C'); dxf.push(330, '0'); dxf.push(100, 'AcDbDictionary');
+    dxf.push(281, 1); dxf.push(3, 'ACAD_GROUP'); dxf.push(350, 'D');
+    dxf.push(0, 'DICTIONARY'); dxf.push(5, 'D'); dxf.push(330, 'C'); dxf.push(100, 'AcDbDictionary'); dxf.push(281, 1);
+    endSection();
+
+    dxf.push(0, 'EOF');
+    return dxf.toString();
+};
@@ -0,0 +1,277 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import {
+    deserializeParts, optimizeTracedContours, tracedRoles, textToDesign, DEFAULT_TEXT_LAYOUT, withItems,
+    buildGenerationInput, frameDesign, type CutterPart, type CutterSettings, type ProcessOptions,
+    type DesignState, type NameEntry
+} from '../core';
+import {
+    analyzeImage, loadImage, prepareImageForTrace, resolveOutlineFont, parseSvg, type FontEntry
+} from '../browser';
+import TraceWorker from '../workers/trace.worker?worker';
+import GeometryWorker from '../workers/geometry.worker?worker';
+
+export type BatchStatus = 'pending' | 'tracing' | 'generating' | 'ready' | 'error';
+
+export interface BatchTextStyle {
+    font: FontEntry;
+    bold: boolean;
+    italic: boolean;
+}
+
+export type BatchSource =
+    | { kind: 'image'; file: File; preview: string }
+    | { kind: 'text'; text: string; style: BatchTextStyle };
+
+export interface BatchItem {
+    id: string;
+    name: string; // Output file name (before sanitizing)
+    source: BatchSource;
+    status: BatchStatus;
+    error?: string;
+    trace: ProcessOptions; // Images only
+    size?: number; // mm, overrides the preset size for this item
+    design?: DesignState; // Kept when only the size changes, so re-tuning doesn't retrace
+    width?: number;
+    height?: number;
+    parts?: CutterPart[];
+    revision: number; // Results of an older revision are dropped
+}
+
+export const DEFAULT_BATCH_TRACE: ProcessOptions = {
+    blur: 2,
+    threshold: 128,
+    invert: false,
+    mode: 'luminance',
+    highRes: false,
+    adaptive: false,
+    morphology: false
+};
+
+const TEXT_PADDING = 20; // px around a name, like the margin of a traced image
+
+const baseName = (file: File) => file.name.replace(/\.[^.]+$/, '');
+
+const traceImage = (image: HTMLImageElement, options: ProcessOptions) =>
+    new Promise<{ design: DesignState, width: number, height: number }>((resolve, reject) => {
+        const { imageData, meta } = prepareImageForTrace(image, options);
+        const worker = new TraceWorker();
+        worker.onmessage = (e) => {
+            const { success, result, error } = e.data;
+            worker.terminate();
+            if (!success) return reject(new Error(error));
+            if (result.contours.length === 0) return reject(new Error('No se detectaron formas. Ajusta el umbral.'));
+            const contours = optimizeTracedContours(result.contours);
+            resolve({ design: { contours, roles: tracedRoles(result) }, width: result.width, height: result.height });
+        };
+        worker.onerror = () => {
+            worker.terminate();
+            reject(new Error('Error en el proceso en segundo plano.'));
+        };
+        worker.postMessage({ imageData, options, meta });
+    });
+
+// V55: Vector files keep their curves, as in the editor
+const isSvg = (file: File) => file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+
+const importSvg = async (file: File) => {
+    const { width, height, ...design } = parseSvg(await file.text());
+    return { design, width, height };
+};
+
+const outlineText = async (text: string, style: BatchTextStyle) => {
+    const outline = await resolveOutlineFont(style.font, style.bold, style.italic);
+    if (!outline) throw new Error('La fuente no tiene contornos para esta variante.');
+    const design = textToDesign(outline.font, text, { ...DEFAULT_TEXT_LAYOUT, italicSkew: outline.skew });
+    if (design.contours.length === 0) throw new Error('El texto no tiene formas.');
+    const { width, height, ...framed } = frameDesign(design, TEXT_PADDING);
+    return { design: framed, width, height };
+};
+
+// V68: Queue for batch generation. Items are traced (or outlined) and
+// generated one at a time with dedicated workers, so the editor's own
+// preview worker is never interrupted. Changing an item's options puts it
+// back in the queue; only what changed is redone.
+export function useBatchProcessor(settings: CutterSettings) {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const itemsRef = useRef<BatchItem[]>([]);
+    const runningRef = useRef(false);
+    const geometryWorkerRef = useRef<Worker | null>(null);
+    const jobIdRef = useRef(0);
+    const [isRunning, setIsRunning] = useState(false);
+
+    const settingsRef = useRef(settings);
+    useEffect(() => {
+        settingsRef.current = settings;
+    }, [settings]);
+
+    const commit = useCallback((update: (items: BatchItem[]) => BatchItem[]) => {
+        itemsRef.current = update(itemsRef.current);
+        setItems(itemsRef.current);
+    }, []);
+
+    const patchItem = useCallback((id: string, revision: number, patch: Partial<BatchItem>) => {
+        commit(list => list.map(item => item.id === id && item.revision === revision ? { ...item, ...patch } : item));
+    }, [commit]);
+
+    const generate = useCallback((design: DesignState, width: number, height: number, settings: CutterSettings) =>
+        new Promise<CutterPart[]>((resolve, reject) => {
+            if (!geometryWorkerRef.current) geometryWorkerRef.current = new GeometryWorker();
+            const worker = geometryWorkerRef.current;
+            const jobId = ++jobIdRef.current;
+            const input = buildGenerationInput(withItems(design));
+
+            worker.onmessage = (e) => {
+                const data = e.data;
+                if (data.jobId !== jobId || data.type === 'progress') return;
+                if (data.success) resolve(deserializeParts(data.result));
+                else reject(new Error(data.error));
+            };
+            worker.onerror = () => {
+                worker.terminate();
+                geometryWorkerRef.current = null;
+                reject(new Error('Error en el generador de geometría.'));
+            };
+            worker.postMessage({
+                jobId,
+                contours: input.contours.map(c => c.map(p => ({ x: p.x, y: p.y }))),
+                roles: input.roles,
+                width,
+                height,
+                settings,
+                sources: input.sources
+            });
+        }), []);
+
+    const processItem = useCallback(async (item: BatchItem) => {
+        const { id, revision } = item;
+        try {
+            let { design, width, height } = item;
+            if (!design || !width || !height) {
+                patchItem(id, revision, { status: 'tracing', error: undefined });
+                const { source } = item;
+                const traced = source.kind === 'text'
+                    ? await outlineText(source.text, source.style)
+                    : isSvg(source.file) ? await importSvg(source.file) : await traceImage(await loadImage(source.file), item.trace);
+                ({ design, width, height } = traced);
+                patchItem(id, revision, { design, width, height });
+            }
+
+            patchItem(id, revision, { status: 'generating', error: undefined });
+            const preset = settingsRef.current;
+            const parts = await generate(design, width, height, { ...preset, size: item.size ?? preset.size });
+            patchItem(id, revision, { status: 'ready', parts });
+        } catch (err) {
+            console.error(err);
+            patchItem(id, revision, { status: 'error', error: err instanceof Error ? err.message : 'Error desconocido' });
+        }
+    }, [generate, patchItem]);
+
+    const pump = useCallback(async () => {
+        if (runningRef.current) return;
+        runningRef.current = true;
+        setIsRunning(true);
+        for (;;) {
+            const next = itemsRef.current.find(item => item.status === 'pending');
+            if (!next) break;
+            await processItem(next);
+        }
+        runningRef.current = false;
+        setIsRunning(false);
+    }, [processItem]);
+
+    const addImages = useCallback((files: File[], trace: ProcessOptions, autoTrace: boolean) => {
+        const images = files.filter(f => f.type.startsWith('image/'));
+        Promise.all(images.map(async (file): Promise<BatchItem> => {
+            const item: BatchItem = {
+                id: crypto.randomUUID(),
+                name: baseName(file),
+                source: { kind: 'image', file, preview: URL.createObjectURL(file) },
+                status: 'pending',
+                trace,
+                revision: 0
+            };
+            if (!autoTrace || isSvg(file)) return item;
+            try {
+                // Same guess as Magic Trace, per image
+                const { blur, threshold, adaptive, morphology } = analyzeImage(await loadImage(file));
+                return { ...item, trace: { ...trace, blur, threshold, adaptive, morphology } };
+            } catch (err) {
+                // Listed anyway so one unreadable file doesn't drop the rest
+                console.error(err);
+                return { ...item, status: 'error', error: 'No se pudo leer la imagen.' };
+            }
+        })).then(added => {
+            commit(list => [...list, ...added]);
+            pump();
+        });
+    }, [commit, pump]);
+
+    const addNames = useCallback((entries: NameEntry[], style: BatchTextStyle) => {
+        const added = entries.map((entry): BatchItem => ({
+            id: crypto.randomUUID(),
+            name: entry.fileName || entry.text.replace(/\s+/g, ' '),
+            source: { kind: 'text', text: entry.text, style },
+            status: 'pending',
+            trace: DEFAULT_BATCH_TRACE,
+            revision: 0
+        }));
+        commit(list => [...list, ...added]);
+        pump();
+    }, [commit, pump]);
+
+    /**
+     * Re-tunes one item. New trace options (or text) trace it again; a new
+     * size only regenerates the model.
+     */
+    const retuneItem = useCallback((id: string, patch: { trace?: ProcessOptions, size?: number, text?: string, name?: string }) => {
+        commit(list => list.map(item => {
+            if (item.id !== id) return item;
+            const retrace = !!patch.trace || (patch.text !== undefined && item.source.kind === 'text');
+            const source = patch.text !== undefined && item.source.kind === 'text' ? { ...item.source, text: patch.text } : item.source;
+            const regenerate = retrace || 'size' in patch;
+            return {
+                ...item,
+                name: patch.name ?? item.name,
+                source,
+                trace: patch.trace ?? item.trace,
+                size: 'size' in patch ? patch.size : item.size,
+                design: retrace ? undefined : item.design,
+                status: regenerate ? 'pending' : item.status,
+                parts: regenerate ? undefined : item.parts,
+                revision: regenerate ? item.revision + 1 : item.revision
+            };
+        }));
+        pump();
+    }, [commit, pump]);
+
+    /**
+     * Regenerates every item with the current preset (designs are kept).
+     */
+    const regenerateAll = useCallback(() => {
+        commit(list => list.map(item => ({ ...item, status: 'pending', parts: undefined, error: undefined, revision: item.revision + 1 })));
+        pump();
+    }, [commit, pump]);
+
+    const removeItem = useCallback((id: string) => {
+        commit(list => list.filter(item => {
+            if (item.id === id && item.source.kind === 'image') URL.revokeObjectURL(item.source.preview);
+            return item.id !== id;
+        }));
+    }, [commit]);
+
+    const clear = useCallback(() => {
+        commit(list => {
+            list.forEach(item => { if (item.source.kind === 'image') URL.revokeObjectURL(item.source.preview); });
+            return [];
+        });
+    }, [commit]);
+
+    // Cleanup on unmount
+    useEffect(() => () => {
+        geometryWorkerRef.current?.terminate();
+        geometryWorkerRef.current = null;
+        itemsRef.current.forEach(item => { if (item.source.kind === 'image') URL.revokeObjectURL(item.source.preview); });
+    }, []);
+
+    return { items, isRunning, addImages, addNames, retuneItem, regenerateAll, removeItem, clear };
+}
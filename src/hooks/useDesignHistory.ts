@@ -0,0 +1,130 @@
+import { useState, useCallback } from 'react';
+import {
+    applyPatch, describePatch, diffDesigns, patchSize, withItems, type DesignState, type DesignPatch,
+    type HistoryMeta
+} from '../core';
+
+// V62: Undo history built on design patches (replaces the snapshot-based useHistory)
+
+export const MAX_HISTORY_ENTRIES = 100;
+export const MAX_HISTORY_POINTS = 250_000; // Total points kept across all patches
+const MERGE_WINDOW_MS = 1500;
+
+export interface HistoryEntry {
+    id: number;
+    label: string;
+    time: number;
+    patch: DesignPatch;
+    size: number;
+    mergeKey?: string;
+}
+
+interface HistoryState {
+    past: HistoryEntry[];   // Oldest first
+    present: DesignState | null;
+    future: HistoryEntry[]; // Next redo first
+}
+
+let nextEntryId = 1;
+
+const undoOnce = (s: HistoryState): HistoryState => {
+    const entry = s.past[s.past.length - 1];
+    if (!entry) return s;
+    return {
+        past: s.past.slice(0, -1),
+        present: applyPatch(s.present, entry.patch, 'backward'),
+        future: [entry, ...s.future]
+    };
+};
+
+const redoOnce = (s: HistoryState): HistoryState => {
+    const entry = s.future[0];
+    if (!entry) return s;
+    return {
+        past: [...s.past, entry],
+        present: applyPatch(s.present, entry.patch, 'forward'),
+        future: s.future.slice(1)
+    };
+};
+
+// Oldest entries go first; the newest one is always kept
+const trimPast = (past: HistoryEntry[]): HistoryEntry[] => {
+    let total = past.reduce((sum, e) => sum + e.size, 0);
+    let drop = 0;
+    while (past.length - drop > 1 && (past.length - drop > MAX_HISTORY_ENTRIES || total > MAX_HISTORY_POINTS)) {
+        total -= past[drop].size;
+        drop++;
+    }
+    return drop > 0 ? past.slice(drop) : past;
+};
+
+export function useDesignHistory(initialPresent: DesignState | null = null) {
+    const [state, setState] = useState<HistoryState>({ past: [], present: initialPresent && withItems(initialPresent), future: [] });
+
+    const set = useCallback((nextState: DesignState | null, meta?: HistoryMeta) => {
+        const next = nextState && withItems(nextState); // V66: Every stored design has stable contour IDs
+        setState(current => {
+            const now = Date.now();
+            const last = current.past[current.past.length - 1];
+
+            // Continuous edits (same key, shortly after) fold into the previous entry
+            if (meta?.mergeKey && last?.mergeKey === meta.mergeKey && now - last.time < MERGE_WINDOW_MS) {
+                const base = applyPatch(current.present, last.patch, 'backward');
+                const patch = diffDesigns(base, next);
+                const past = current.past.slice(0, -1);
+                if (!patch) return { past, present: next, future: [] };
+                return {
+                    past: [...past, { ...last, patch, size: patchSize(patch), time: now }],
+                    present: next,
+                    future: []
+                };
+            }
+
+            const patch = diffDesigns(current.present, next);
+            if (!patch) return current.present === next ? current : { ...current, present: next };
+
+            const entry: HistoryEntry = {
+                id: nextEntryId++,
+                label: meta?.label || describePatch(patch),
+                time: now,
+                patch,
+                size: patchSize(patch),
+                mergeKey: meta?.mergeKey
+            };
+            return { past: trimPast([...current.past, entry]), present: next, future: [] };
+        });
+    }, []);
+
+    const undo = useCallback(() => setState(undoOnce), []);
+    const redo = useCallback(() => setState(redoOnce), []);
+
+    /**
+     * Moves to the state right after `entries[index]` (-1 = before the first entry).
+     */
+    const jumpTo = useCallback((index: number) => {
+        setState(current => {
+            let s = current;
+            while (s.past.length - 1 > index && s.past.length > 0) s = undoOnce(s);
+            while (s.past.length - 1 < index && s.future.length > 0) s = redoOnce(s);
+            return s;
+        });
+    }, []);
+
+    // Helper to reset history (e.g. when loading new image)
+    const reset = useCallback((newPresent: DesignState | null) => {
+        setState({ past: [], present: newPresent && withItems(newPresent), future: [] });
+    }, []);
+
+    return {
+        state: state.present,
+        set,
+        undo,
+        redo,
+        jumpTo,
+        reset,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+        entries: [...state.past, ...state.future],
+        position: state.past.length - 1 // Index of the entry that produced the current state
+    };
+}
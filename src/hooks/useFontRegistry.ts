@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+    BUNDLED_FONTS, deleteUploadedFont, listUploadedFonts, registerFontFaces, saveUploadedFont, type FontEntry
+} from '../browser';
+
+// V58: Shared font list for the text tools (uploaded fonts first)
+export function useFontRegistry() {
+    const [uploaded, setUploaded] = useState<FontEntry[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        listUploadedFonts()
+            .then(entries => { if (!cancelled) setUploaded(entries); })
+            .catch(err => console.warn('Fuentes subidas no disponibles:', err));
+        return () => { cancelled = true; };
+    }, []);
+
+    const fonts = useMemo(() => [...uploaded, ...BUNDLED_FONTS], [uploaded]);
+
+    // Faces load lazily, so the whole list can be registered for previews
+    useEffect(() => {
+        fonts.forEach(registerFontFaces);
+    }, [fonts]);
+
+    /**
+     * Stores the files and returns the entries that were added.
+     */
+    const addFonts = useCallback(async (files: File[]): Promise<FontEntry[]> => {
+        const added: FontEntry[] = [];
+        const failed: string[] = [];
+        for (const file of files) {
+            try {
+                added.push(await saveUploadedFont(file));
+            } catch (err) {
+                console.error(err);
+                failed.push(file.name);
+            }
+        }
+        setUploaded(prev => [...added.reverse(), ...prev]);
+        setError(failed.length > 0 ? `No se pudo importar: ${failed.join(', ')} (usa TTF, OTF o WOFF).` : null);
+        return added;
+    }, []);
+
+    const removeFont = useCallback(async (id: string) => {
+        try {
+            await deleteUploadedFont(id);
+            setUploaded(prev => prev.filter(f => f.id !== id));
+        } catch (err) {
+            console.error(err);
+            setError('No se pudo eliminar la fuente.');
+        }
+    }, []);
+
+    return { fonts, addFonts, removeFont, error, setError };
+}
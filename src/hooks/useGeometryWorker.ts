@@ -0,0 +1,105 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import * as THREE from 'three';
+import {
+    deserializeParts, type ContourSource, type CutterPart, type CutterSettings, type GenerationStage
+} from '../core';
+import GeometryWorker from '../workers/geometry.worker?worker';
+
+export interface GeometryProgress {
+    stage: GenerationStage;
+    progress: number;
+}
+
+// V49: Runs generateGeometry off the main thread.
+// Only the latest job matters: if a newer request arrives while one is running,
+// the busy worker is terminated and a fresh one takes the new job.
+export function useGeometryWorker(onResult: (parts: CutterPart[]) => void, onError?: (message: string) => void) {
+    const workerRef = useRef<Worker | null>(null);
+    const jobIdRef = useRef(0);
+    const busyRef = useRef(false);
+    const [progress, setProgress] = useState<GeometryProgress | null>(null);
+
+    // Keep the latest callbacks without re-creating `generate`
+    const onResultRef = useRef(onResult);
+    const onErrorRef = useRef(onError);
+    useEffect(() => {
+        onResultRef.current = onResult;
+        onErrorRef.current = onError;
+    });
+
+    const terminate = useCallback(() => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+        busyRef.current = false;
+    }, []);
+
+    const cancel = useCallback(() => {
+        jobIdRef.current++; // Anything still in flight is now stale
+        if (busyRef.current) terminate();
+        setProgress(null);
+    }, [terminate]);
+
+    const generate = useCallback((
+        contours: THREE.Vector2[][],
+        roles: ('cut' | 'stamp' | 'auto' | 'base' | 'void')[],
+        width: number,
+        height: number,
+        settings: CutterSettings,
+        sources?: ContourSource[] // V67: Stable IDs, passed through to the parts
+    ) => {
+        const jobId = ++jobIdRef.current;
+
+        // Stale job still running: drop it
+        if (busyRef.current) terminate();
+
+        if (!workerRef.current) {
+            const worker = new GeometryWorker();
+
+            worker.onmessage = (e) => {
+                const data = e.data;
+                if (data.jobId !== jobIdRef.current) return; // Stale result or progress
+
+                if (data.type === 'progress') {
+                    setProgress({ stage: data.stage, progress: data.progress });
+                    return;
+                }
+
+                busyRef.current = false;
+                setProgress(null);
+
+                if (!data.success) {
+                    console.error(data.error);
+                    onErrorRef.current?.(data.error);
+                    return;
+                }
+                onResultRef.current(deserializeParts(data.result));
+            };
+
+            worker.onerror = (err) => {
+                console.error(err);
+                terminate();
+                setProgress(null);
+                onErrorRef.current?.("Error en el generador de geometría.");
+            };
+
+            workerRef.current = worker;
+        }
+
+        busyRef.current = true;
+        setProgress({ stage: 'voids', progress: 0 });
+        workerRef.current.postMessage({
+            jobId,
+            contours: contours.map(c => c.map(p => ({ x: p.x, y: p.y }))),
+            roles,
+            width,
+            height,
+            settings,
+            sources
+        });
+    }, [terminate]);
+
+    // Cleanup on unmount
+    useEffect(() => terminate, [terminate]);
+
+    return { generate, cancel, progress };
+}
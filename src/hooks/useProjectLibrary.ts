@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    createProject,
+    deleteProject as deleteStoredProject,
+    getLatestVersion,
+    getProject,
+    listProjects,
+    listVersions,
+    renameProject as renameStoredProject,
+    saveVersion,
+    type ProjectData,
+    type ProjectRecord,
+    type ProjectVersion,
+    type VersionKind
+} from '../browser';
+import { deserializeDesign } from '../core';
+
+// V59: Project library state (IndexedDB-backed) for App and StartScreen
+export function useProjectLibrary() {
+    const [projects, setProjects] = useState<ProjectRecord[]>([]);
+    const [activeProject, setActiveProject] = useState<ProjectRecord | null>(null);
+    const [versions, setVersions] = useState<ProjectVersion[]>([]);
+    const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Writes are chained so a slow save never races the next one (or creates two projects)
+    const queue = useRef<Promise<unknown>>(Promise.resolve());
+    const activeRef = useRef<ProjectRecord | null>(null);
+
+    const enqueue = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+        const run = queue.current.then(task, task);
+        queue.current = run.catch(() => undefined);
+        return run;
+    }, []);
+
+    const refreshProjects = useCallback(async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (err) {
+            console.warn('Biblioteca de proyectos no disponible:', err);
+        }
+    }, []);
+
+    const refreshVersions = useCallback(async () => {
+        const project = activeRef.current;
+        setVersions(project ? await listVersions(project.id) : []);
+    }, []);
+
+    useEffect(() => {
+        let cancelled = false;
+        listProjects()
+            .then(list => { if (!cancelled) setProjects(list); })
+            .catch(err => console.warn('Biblioteca de proyectos no disponible:', err));
+        return () => { cancelled = true; };
+    }, []);
+
+    /**
+     * Stores a version of the current design, creating the project on first save.
+     */
+    const saveToLibrary = useCallback((data: ProjectData, kind: VersionKind, name: string, label?: string) => enqueue(async () => {
+        try {
+            let project = activeRef.current;
+            if (!project) {
+                project = await createProject(name, data.mode);
+                activeRef.current = project;
+                setActiveProject(project);
+            }
+            const version = await saveVersion(project.id, data, deserializeDesign(data.design), kind, label);
+            setLastSavedAt(version.createdAt);
+            setError(null);
+            await refreshVersions();
+            return version;
+        } catch (err) {
+            console.error(err);
+            setError('No se pudo guardar en la biblioteca local.');
+            return null;
+        }
+    }), [enqueue, refreshVersions]);
+
+    /**
+     * Makes the project active and returns the data of its latest version.
+     */
+    const openProject = useCallback(async (id: string): Promise<ProjectData | null> => {
+        const [project, latest] = await Promise.all([getProject(id), getLatestVersion(id)]);
+        if (!project || !latest) return null;
+        activeRef.current = project;
+        setActiveProject(project);
+        setLastSavedAt(latest.createdAt);
+        setVersions(await listVersions(id));
+        return latest.data;
+    }, []);
+
+    const closeProject = useCallback(() => {
+        activeRef.current = null;
+        setActiveProject(null);
+        setVersions([]);
+        setLastSavedAt(null);
+    }, []);
+
+    const renameProject = useCallback((name: string) => enqueue(async () => {
+        const project = activeRef.current;
+        if (!project) return;
+        await renameStoredProject(project.id, name);
+        const renamed = { ...project, name };
+        activeRef.current = renamed;
+        setActiveProject(renamed);
+    }), [enqueue]);
+
+    const deleteProject = useCallback((id: string) => enqueue(async () => {
+        await deleteStoredProject(id);
+        if (activeRef.current?.id === id) closeProject();
+        await refreshProjects();
+    }), [enqueue, closeProject, refreshProjects]);
+
+    return {
+        projects,
+        activeProject,
+        versions,
+        lastSavedAt,
+        error,
+        refreshProjects,
+        refreshVersions,
+        saveToLibrary,
+        openProject,
+        closeProject,
+        renameProject,
+        deleteProject
+    };
+}
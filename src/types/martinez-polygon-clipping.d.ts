@@ -5,8 +5,8 @@ declare module 'martinez-polygon-clipping' {
     export type MultiPolygon = Polygon[];
     export type Geometry = Polygon | MultiPolygon;
 
-    export function union(s: Geometry, c: Geometry): Geometry;
-    export function intersection(s: Geometry, c: Geometry): Geometry;
-    export function diff(s: Geometry, c: Geometry): Geometry;
-    export function xor(s: Geometry, c: Geometry): Geometry;
+    export function union(s: Geometry, c: Geometry): Geometry | null;
+    export function intersection(s: Geometry, c: Geometry): Geometry | null;
+    export function diff(s: Geometry, c: Geometry): Geometry | null;
+    export function xor(s: Geometry, c: Geometry): Geometry | null;
 }
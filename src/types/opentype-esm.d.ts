@@ -0,0 +1,28 @@
+// The package's "main" is a UMD bundle without named ESM exports, which Node
+// can't import from; the core loads the ES module build directly. Only the
+// parts the app uses are typed here: @types/opentype.js pulls in the DOM lib,
+// which the core is type-checked without.
+declare module 'opentype.js/dist/opentype.mjs' {
+    export type PathCommand =
+        | { type: 'M', x: number, y: number }
+        | { type: 'L', x: number, y: number }
+        | { type: 'C', x1: number, y1: number, x2: number, y2: number, x: number, y: number }
+        | { type: 'Q', x1: number, y1: number, x: number, y: number }
+        | { type: 'Z' };
+
+    export interface Glyph {
+        advanceWidth?: number;
+        getPath(x?: number, y?: number, fontSize?: number): { commands: PathCommand[] };
+    }
+
+    export interface Font {
+        names: { fullName?: Record<string, string> };
+        tables: { os2?: { usWeightClass?: number } };
+        supported: boolean;
+        unitsPerEm: number;
+        stringToGlyphs(s: string): Glyph[];
+        getKerningValue(leftGlyph: Glyph, rightGlyph: Glyph): number;
+    }
+
+    export function parse(buffer: ArrayBuffer): Font;
+}
@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+import { generateGeometry, serializeParts, type ContourSource, type CutterSettings } from '../core';
+
+self.onmessage = (e: MessageEvent) => {
+    const { jobId, contours, roles, width, height, settings, sources } = e.data as {
+        jobId: number;
+        contours: { x: number, y: number }[][];
+        roles: ('cut' | 'stamp' | 'auto' | 'base' | 'void')[];
+        width: number;
+        height: number;
+        settings: CutterSettings;
+        sources?: ContourSource[]; // V67
+    };
+
+    try {
+        // Structured clone drops the Vector2 prototype, re-hydrate before generating
+        const rehydrated = contours.map(c => c.map(p => new THREE.Vector2(p.x, p.y)));
+
+        const parts = generateGeometry(rehydrated, roles, width, height, settings, (stage, progress) => {
+            self.postMessage({ type: 'progress', jobId, stage, progress });
+        }, sources);
+
+        // Hand the vertex buffers over instead of copying them
+        const { parts: result, transfer } = serializeParts(parts);
+        self.postMessage({ type: 'result', jobId, success: true, result }, { transfer });
+    } catch (error) {
+        self.postMessage({ type: 'result', jobId, success: false, error: (error as Error).message });
+    }
+};
@@ -1,4 +1,4 @@
-import { processImageData, type ProcessOptions } from '../core/image-processing';
+import { processImageData, type ProcessOptions } from '../core';
 
 self.onmessage = (e: MessageEvent) => {
     const { imageData, options, meta } = e.data as {
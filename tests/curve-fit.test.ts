@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { contourArea, DEFAULT_CURVE_FIT, fitBezierNodes, fitContourCurves, flattenContour, generateCircle, type BezierNode } from '../src/core';
+import { golden, round, toGolden, traceFixture } from './helpers';
+
+// Dense polyline of the fitted path (the app samples at 5 px, too coarse to
+// measure the fit error)
+const sampleNodes = (nodes: BezierNode[], steps: number = 500) => nodes.flatMap((a, i) => {
+    const b = nodes[(i + 1) % nodes.length];
+    const curve = new THREE.CubicBezierCurve(a.pos, a.pos.clone().add(a.handleOut), b.pos.clone().add(b.handleIn), b.pos);
+    return curve.getPoints(steps);
+});
+
+const maxDeviation = (points: THREE.Vector2[], nodes: BezierNode[]) => {
+    const path = sampleNodes(nodes);
+    return Math.max(...points.map(p => Math.min(...path.map(q => q.distanceTo(p)))));
+};
+
+// Rectangle traced with a point every pixel
+const rectangle = (width: number, height: number) => {
+    const points: THREE.Vector2[] = [];
+    for (let x = 0; x < width; x++) points.push(new THREE.Vector2(x, 0));
+    for (let y = 0; y < height; y++) points.push(new THREE.Vector2(width, y));
+    for (let x = width; x > 0; x--) points.push(new THREE.Vector2(x, height));
+    for (let y = height; y > 0; y--) points.push(new THREE.Vector2(0, y));
+    return points;
+};
+
+describe('fitBezierNodes', () => {
+    it.each([0.5, 1, 2])('keeps the traced points within a tolerance of %s px', tolerance => {
+        const traced = [...traceFixture('ring.png').contours, ...traceFixture('logo.png').contours];
+        traced.forEach(contour => {
+            const nodes = fitBezierNodes(contour, { tolerance, cornerAngle: 50 });
+            expect(nodes.length).toBeLessThan(contour.length);
+            expect(maxDeviation(contour, nodes)).toBeLessThan(tolerance + 0.05);
+        });
+    });
+
+    it('fits a circle with a few smooth nodes', () => {
+        const circle = generateCircle(50);
+        const nodes = fitBezierNodes(circle);
+        expect(nodes.length).toBeLessThanOrEqual(8);
+        nodes.forEach(node => {
+            expect(node.type).toBe('smooth');
+            // Smooth nodes have opposite, collinear handles
+            expect(node.handleIn.cross(node.handleOut)).toBeCloseTo(0, 6);
+            expect(node.handleIn.dot(node.handleOut)).toBeLessThan(0);
+        });
+        expect(maxDeviation(circle, nodes)).toBeLessThan(1);
+    });
+
+    it('puts corner nodes on sharp turns and keeps straight sides straight', () => {
+        const nodes = fitBezierNodes(rectangle(40, 20));
+        expect(nodes.map(n => [n.pos.x, n.pos.y])).toEqual([[0, 0], [40, 0], [40, 20], [0, 20]]);
+        nodes.forEach(node => {
+            expect(node.type).toBe('corner');
+            expect(node.handleIn.length() + node.handleOut.length()).toBe(0);
+        });
+    });
+
+    it('finds the points of a traced star', () => {
+        const [star] = traceFixture('logo.png').contours;
+        const corners = fitBezierNodes(star).filter(n => n.type === 'corner');
+        expect(corners).toHaveLength(10);
+    });
+
+    it('uses fewer nodes as the tolerance grows', () => {
+        const [star] = traceFixture('logo.png').contours;
+        const counts = [0.5, 1, 2, 4].map(tolerance => fitBezierNodes(star, { tolerance, cornerAngle: 50 }).length);
+        counts.slice(1).forEach((count, i) => expect(count).toBeLessThanOrEqual(counts[i]));
+    });
+
+    it('keeps tiny loops as corner polygons', () => {
+        const nodes = fitBezierNodes([{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 1, y: 2 }]);
+        expect(nodes.map(n => n.type)).toEqual(['corner', 'corner', 'corner']);
+    });
+});
+
+describe('fitContourCurves', () => {
+    it('returns a design with node types and handles for the editor', async () => {
+        const traced = traceFixture('logo.png');
+        const design = fitContourCurves(traced.contours);
+
+        expect(design.contours).toHaveLength(traced.contours.length);
+        design.contours.forEach((contour, i) => {
+            expect(design.nodeTypes![i]).toHaveLength(contour.length);
+            expect(design.handles![i]).toHaveLength(contour.length);
+            // Same shape once the app samples the curves (5 px chords)
+            expect(contourArea(flattenContour(design, i)) / contourArea(traced.contours[i])).toBeCloseTo(1, 1);
+        });
+
+        const summary = design.contours.map((contour, i) => ({
+            nodes: contour.length,
+            types: design.nodeTypes![i].map(t => t[0]).join(''),
+            area: round(contourArea(flattenContour(design, i)), 1)
+        }));
+        await expect(toGolden(summary)).toMatchFileSnapshot(golden('fit-logo'));
+    });
+
+    it('leaves straight runs without handles', () => {
+        const design = fitContourCurves([rectangle(40, 20)]);
+        expect(design.handles![0]).toEqual([null, null, null, null]);
+        expect(design.roles).toEqual(['auto']);
+    });
+
+    it('keeps the roles of the traced contours', () => {
+        const traced = traceFixture('ring.png');
+        expect(fitContourCurves(traced.contours, DEFAULT_CURVE_FIT, ['auto', 'void']).roles).toEqual(['auto', 'void']);
+    });
+});
@@ -0,0 +1,60 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { matchContours, remapCompounds, syncItems, type CompoundShape } from '../src/core';
+
+const square = (x: number) => [new THREE.Vector2(x, 0), new THREE.Vector2(x + 1, 0), new THREE.Vector2(x + 1, 1)];
+
+describe('syncItems', () => {
+    const [a, b, c] = [square(0), square(2), square(4)];
+    const items = [{ id: 'a' }, { id: 'b', hidden: true }, { id: 'c', name: 'Hueco' }];
+
+    it('follows reordered contours', () => {
+        // A boolean keeps the unselected contours first and appends its results
+        expect(syncItems(items, [a, b, c], [c, a, b]).map(item => item.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('keeps the item of a contour replaced in place', () => {
+        const edited = square(2.5);
+        expect(syncItems(items, [a, b, c], [a, edited, c])).toEqual(items);
+    });
+
+    it('falls back to position only for slots whose contour is gone', () => {
+        const ring1 = square(10), ring2 = square(12);
+        const ids = syncItems(items, [a, b, c], [c, ring1, ring2]).map(item => item.id);
+        // b's slot was emptied, so ring1 is taken for an edit of b; c's slot
+        // is still taken by c, so ring2 is new
+        expect(ids.slice(0, 2)).toEqual(['c', 'b']);
+        expect(ids[2]).not.toMatch(/^[abc]$/);
+    });
+
+    it('gives a duplicated contour its own ID', () => {
+        const ids = syncItems(items, [a, b, c], [a, b, c, a]).map(item => item.id);
+        expect(ids.slice(0, 3)).toEqual(['a', 'b', 'c']);
+        expect(ids[3]).not.toBe('a');
+    });
+});
+
+describe('matchContours', () => {
+    it('matches by reference only when asked to', () => {
+        const [a, b] = [square(0), square(2)];
+        expect(matchContours([a, b], [a, square(3)])).toEqual([0, 1]);
+        expect(matchContours([a, b], [a, square(3)], false)).toEqual([0, -1]);
+    });
+});
+
+describe('remapCompounds', () => {
+    const [a, b, c] = [square(0), square(2), square(4)];
+    const compounds: CompoundShape[] = [{ id: 'plaque', operation: 'diff', operands: [1, 2] }];
+
+    it('follows reordered operands', () => {
+        expect(remapCompounds(compounds, [a, b, c], [c, a, b])![0].operands).toEqual([2, 0]);
+    });
+
+    it('keeps operands edited in place', () => {
+        expect(remapCompounds(compounds, [a, b, c], [a, square(2.5), c])).toBe(compounds);
+    });
+
+    it('dissolves compounds that lose an operand', () => {
+        expect(remapCompounds(compounds, [a, b, c], [a, c])).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import {
+    analyzeMesh, buildGenerationInput, checkManufacturability, checkMeshReport, generateGeometry, optimizeTracedContours,
+    tracedRoles, weldVertices, DEFAULT_SETTINGS, type DesignState
+} from '../src/core';
+import { generateProject, golden, loadProject, summarizePart, toGolden, traceFixture } from './helpers';
+
+const PROJECTS = ['heart-cutter', 'star-keychain', 'compound-union'];
+
+describe('generateGeometry', () => {
+    it.each(PROJECTS)('%s matches its golden parts', async name => {
+        const project = loadProject(`${name}.ccg`);
+        const parts = generateProject(project);
+        const summary = parts.map(summarizePart);
+
+        expect(parts.length).toBeGreaterThan(0);
+        summary.forEach(part => {
+            expect(part.triangles, part.id).toBeGreaterThan(0);
+            expect(part.volume, part.id).toBeGreaterThan(0);
+        });
+        await expect(toGolden(summary)).toMatchFileSnapshot(golden(`geometry-${name}`));
+    });
+
+    it('maps the larger side of the canvas to the size setting', () => {
+        const project = loadProject('heart-cutter.ccg');
+        const { settings, imageDims, design } = project;
+        const scale = settings.size / Math.max(imageDims!.width, imageDims!.height);
+        const xs = design.contours[0].map(p => p.x);
+        const heartWidth = (Math.max(...xs) - Math.min(...xs)) * scale;
+
+        const blade = summarizePart(generateProject(project).find(p => p.type === 'outer')!);
+        const bladeWidth = blade.bbox.max[0] - blade.bbox.min[0];
+        expect(bladeWidth).toBeGreaterThanOrEqual(heartWidth - 0.01);
+        expect(bladeWidth).toBeLessThanOrEqual(heartWidth + 2 * settings.cutterThickness + 0.01);
+        expect(blade.bbox.max[2] - blade.bbox.min[2]).toBeCloseTo(settings.cutterHeight, 1);
+    });
+
+    it('builds closed, manifold cutter blades', () => {
+        const parts = generateProject(loadProject('compound-union.ccg'));
+        const blades = parts.filter(p => p.type === 'outer').map(summarizePart);
+        // The union compound is cut as a single outline
+        expect(blades).toHaveLength(1);
+        expect(blades[0]).toMatchObject({ closed: true, manifold: true, boundaryEdges: 0, nonManifoldEdges: 0 });
+    });
+
+    it('reports an export mesh with open edges', () => {
+        const [blade] = generateProject(loadProject('heart-cutter.ccg')).filter(p => p.type === 'outer');
+        const closed = weldVertices(blade.geometry);
+        expect(checkMeshReport(analyzeMesh(closed))).toBeNull();
+
+        // Drop one triangle: its three edges are left with a single face
+        const open = closed.clone();
+        open.setIndex(Array.from(closed.index!.array).slice(3));
+        const issue = checkMeshReport(analyzeMesh(open), 'cuchilla.stl');
+        expect(issue).toMatchObject({ kind: 'non-manifold', severity: 'warning', contourIndex: -1 });
+        expect(issue!.message).toContain('"cuchilla.stl"');
+        expect(issue!.message).toContain('3 bordes abiertos');
+    });
+
+    it('leaves hidden layers out of the model', () => {
+        const parts = generateProject(loadProject('star-keychain.ccg'));
+        expect(parts.some(p => p.sourceIds.includes('dot'))).toBe(false);
+        expect(parts.some(p => p.sourceIds.includes('star'))).toBe(true);
+    });
+
+    it('generates a cutter from a traced image', async () => {
+        const traced = traceFixture('ring.png');
+        const contours = optimizeTracedContours(traced.contours);
+        const parts = generateGeometry(contours, tracedRoles(traced), traced.width, traced.height, DEFAULT_SETTINGS);
+        await expect(toGolden(parts.map(summarizePart))).toMatchFileSnapshot(golden('geometry-ring-trace'));
+    });
+});
+
+describe('checkManufacturability', () => {
+    const rect = (x0: number, y0: number, x1: number, y1: number) =>
+        [new THREE.Vector2(x0, y0), new THREE.Vector2(x1, y0), new THREE.Vector2(x1, y1), new THREE.Vector2(x0, y1)];
+
+    it('checks what is generated and reports design contours', () => {
+        // A hidden contour, then a marker made of two unioned operands, none
+        // of them touching the blade (no base holds them)
+        const design: DesignState = {
+            contours: [rect(10, 10, 90, 90), rect(60, 60, 70, 70), rect(20, 20, 40, 40), rect(30, 30, 50, 50)],
+            roles: ['cut', 'stamp', 'stamp', 'stamp'],
+            compounds: [{ id: 'marker', operation: 'union', operands: [2, 3] }]
+        };
+        const settings = { ...DEFAULT_SETTINGS, withBase: false };
+        const input = buildGenerationInput(design, [false, true, false, false]);
+        const parts = generateGeometry(input.contours, input.roles, 100, 100, settings, undefined, input.sources);
+
+        const issues = checkManufacturability(parts, input.contours, input.roles, 100, 100, settings, input.origins);
+        expect(issues.map(i => [i.kind, i.contourIndex])).toEqual([['floating', 2]]);
+        expect(issues[0].message).toContain('marcador 3');
+    });
+});
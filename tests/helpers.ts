@@ -0,0 +1,88 @@
+import { readFileSync } from 'node:fs';
+import type * as THREE from 'three';
+import { decodeImage } from '../src/cli/decode-image';
+import {
+    DEFAULT_SETTINGS, analyzeMesh, buildGenerationInput, contourArea, deserializeDesign, generateGeometry, parseProjectFile,
+    processImageData, prepareRasterForTrace, resolveItemFlags, weldVertices, withItems, type CutterPart,
+    type ProcessOptions, type ProjectFile, type TraceResult
+} from '../src/core';
+
+// Shared helpers for the golden-file suite: fixture loading, the same
+// generation pipeline as the app and the CLI, and compact numeric summaries
+// that stay stable across runs (rounded, no object identity).
+// Golden files live in tests/golden; after an intended change, check the diff
+// and refresh them with `npx vitest run -u`.
+
+export const fixture = (name: string): Buffer => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+export const golden = (name: string) => `./golden/${name}.json`;
+
+export const toGolden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+export const round = (value: number, digits: number = 3) => {
+    const factor = 10 ** digits;
+    const rounded = Math.round(value * factor) / factor;
+    return Object.is(rounded, -0) ? 0 : rounded;
+};
+
+export const TRACE_DEFAULTS: ProcessOptions = {
+    blur: 0,
+    threshold: 128,
+    invert: false,
+    mode: 'luminance',
+    highRes: false,
+    adaptive: false,
+    morphology: false
+};
+
+export const traceFixture = (name: string, options: Partial<ProcessOptions> = {}): TraceResult => {
+    const trace = { ...TRACE_DEFAULTS, ...options };
+    const { imageData, meta } = prepareRasterForTrace(decodeImage(fixture(name)), trace);
+    return processImageData(imageData, trace, meta);
+};
+
+export const summarizeTrace = (result: TraceResult) => ({
+    width: result.width,
+    height: result.height,
+    contours: result.contours.map((c, i) => ({ points: c.length, area: round(contourArea(c), 1), parent: result.parents[i] }))
+});
+
+export const loadProject = (name: string): ProjectFile => parseProjectFile(fixture(name).toString('utf8'), DEFAULT_SETTINGS);
+
+/**
+ * Generates the parts of a project the way the app does: hidden layers left
+ * out, compounds evaluated, provenance attached.
+ */
+export const generateProject = (project: ProjectFile): CutterPart[] => {
+    const design = withItems(deserializeDesign(project.design));
+    const { hidden } = resolveItemFlags(design.items, design.groups, design.contours.length);
+    const input = buildGenerationInput(design, hidden);
+    const { width, height } = project.imageDims!;
+    return generateGeometry(input.contours, input.roles, width, height, project.settings, undefined, input.sources);
+};
+
+const triangleCount = (geometry: THREE.BufferGeometry) =>
+    (geometry.index ? geometry.index.count : geometry.getAttribute('position').count) / 3;
+
+export const summarizePart = (part: CutterPart) => {
+    const geometry = part.geometry;
+    geometry.computeBoundingBox();
+    const box = geometry.boundingBox!;
+    const offset = part.position ?? [0, 0, 0];
+    const mesh = analyzeMesh(weldVertices(geometry));
+    return {
+        id: part.id,
+        type: part.type,
+        operations: part.provenance.map(step => step.operation),
+        triangles: triangleCount(geometry),
+        bbox: {
+            min: [box.min.x + offset[0], box.min.y + offset[1], box.min.z + offset[2]].map(v => round(v, 2)),
+            max: [box.max.x + offset[0], box.max.y + offset[1], box.max.z + offset[2]].map(v => round(v, 2))
+        },
+        volume: round(mesh.volume, 1),
+        closed: mesh.isClosed,
+        manifold: mesh.isManifold,
+        boundaryEdges: mesh.boundaryEdges,
+        nonManifoldEdges: mesh.nonManifoldEdges
+    };
+};
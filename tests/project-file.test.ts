@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DEFAULT_SETTINGS, ProjectValidationError, createProjectFile, parseProjectFile, validateProjectFile, validateSettings
+} from '../src/core';
+import { fixture, loadProject } from './helpers';
+
+describe('validateSettings', () => {
+    it('keeps the settings of the fixtures', () => {
+        const { settings } = loadProject('heart-cutter.ccg');
+        expect(validateSettings(settings, DEFAULT_SETTINGS)).toEqual(settings);
+    });
+
+    it.each([
+        ['outputType', 'banana'],
+        ['keychainShape', 'triangle'],
+        ['generationMode', 'triple'],
+        ['offsetJoin', 'bevel'],
+        ['bladeProfile', 42]
+    ])('rejects %s = %s', (key, value) => {
+        expect(() => validateSettings({ [key]: value }, DEFAULT_SETTINGS)).toThrow(ProjectValidationError);
+    });
+
+    it.each([
+        ['size', 0],
+        ['cutterThickness', -0.8],
+        ['baseThickness', 0],
+        ['keychainHoleDiameter', -1],
+        ['offsetMiterLimit', 0.5]
+    ])('rejects %s = %s', (key, value) => {
+        expect(() => validateSettings({ [key]: value }, DEFAULT_SETTINGS)).toThrow(`settings.${key}`);
+    });
+
+    it('accepts zero where it means "none"', () => {
+        const settings = validateSettings({ keychainHoleDiameter: 0, stampTolerance: 0, baseHeight: 0 }, DEFAULT_SETTINGS);
+        expect(settings.keychainHoleDiameter).toBe(0);
+    });
+});
+
+describe('project files', () => {
+    it('keeps an embedded reference image through save and open', () => {
+        const referenceImage = `data:image/png;base64,${fixture('ring.png').toString('base64')}`;
+        const saved = JSON.stringify(createProjectFile({ ...loadProject('heart-cutter.ccg'), referenceImage }), null, 2);
+        expect(parseProjectFile(saved, DEFAULT_SETTINGS).referenceImage).toBe(referenceImage);
+    });
+
+    it('rejects reference images that only live in the page', () => {
+        const project = { ...loadProject('heart-cutter.ccg'), referenceImage: 'blob:http://localhost/1234' };
+        expect(() => validateProjectFile(project, DEFAULT_SETTINGS)).toThrow('referenceImage');
+    });
+});
@@ -0,0 +1,71 @@
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { exportToSTL, geometryToSTL, getExportGeometries } from '../src/core';
+import { generateProject, golden, loadProject, toGolden } from './helpers';
+
+// Binary STL: 80-byte header, uint32 triangle count, then 50 bytes per
+// triangle (normal, three vertices as float32 LE, uint16 attribute count).
+const HEADER_SIZE = 84;
+const TRIANGLE_SIZE = 50;
+
+const stlBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const readStl = (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint32(80, true);
+    let maxNormalError = 0;
+    let nonFinite = 0;
+    let degenerate = 0; // Zero-area triangles get a zero normal
+    for (let t = 0; t < count; t++) {
+        const offset = HEADER_SIZE + t * TRIANGLE_SIZE;
+        const n = [0, 1, 2].map(i => view.getFloat32(offset + i * 4, true));
+        for (let i = 0; i < 12; i++) {
+            if (!Number.isFinite(view.getFloat32(offset + i * 4, true))) nonFinite++;
+        }
+        const length = Math.hypot(n[0], n[1], n[2]);
+        if (length === 0) degenerate++;
+        else maxNormalError = Math.max(maxNormalError, Math.abs(length - 1));
+    }
+    return { count, maxNormalError, nonFinite, degenerate };
+};
+
+describe('STL export', () => {
+    it.each(['heart-cutter', 'star-keychain', 'compound-union'])('%s writes the expected bytes', async name => {
+        const parts = generateProject(loadProject(`${name}.ccg`));
+        const bytes = await stlBytes(exportToSTL(parts));
+        const triangles = getExportGeometries(parts).reduce((sum, g) => sum + g.getAttribute('position').count / 3, 0);
+
+        const stl = readStl(bytes);
+        expect(stl.count).toBe(triangles);
+        expect(bytes.byteLength).toBe(HEADER_SIZE + TRIANGLE_SIZE * triangles);
+        expect(stl.nonFinite).toBe(0);
+        expect(stl.maxNormalError).toBeLessThan(1e-3);
+
+        const digest = { bytes: bytes.byteLength, triangles, degenerate: stl.degenerate, sha256: createHash('sha256').update(bytes).digest('hex') };
+        await expect(toGolden(digest)).toMatchFileSnapshot(golden(`stl-${name}`));
+    });
+
+    it('leaves hidden parts out', async () => {
+        const parts = generateProject(loadProject('heart-cutter.ccg'));
+        const hidden = new Set(parts.filter(p => p.type !== 'outer').map(p => p.id));
+        const blades = parts.filter(p => p.type === 'outer');
+
+        const all = readStl(await stlBytes(exportToSTL(parts)));
+        const visible = readStl(await stlBytes(exportToSTL(parts, hidden)));
+        expect(visible.count).toBe(blades.reduce((sum, p) => sum + getExportGeometries([p])[0].getAttribute('position').count / 3, 0));
+        expect(visible.count).toBeLessThan(all.count);
+    });
+
+    it('returns an empty file when nothing is visible', async () => {
+        const parts = generateProject(loadProject('heart-cutter.ccg'));
+        const bytes = await stlBytes(exportToSTL(parts, new Set(parts.map(p => p.id))));
+        expect(bytes.byteLength).toBe(0);
+    });
+
+    it('writes a single geometry', async () => {
+        const [blade] = generateProject(loadProject('compound-union.ccg')).filter(p => p.type === 'outer');
+        const [geometry] = getExportGeometries([blade]);
+        const stl = readStl(await stlBytes(geometryToSTL(geometry)));
+        expect(stl.count).toBe(geometry.getAttribute('position').count / 3);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import {
+    analyzeRaster, contourArea, optimizeTracedContours, prepareRasterForTrace, processImageData, resizeRaster,
+    tracedRoles, type RasterImage
+} from '../src/core';
+import { decodeImage } from '../src/cli/decode-image';
+import { TRACE_DEFAULTS, fixture, golden, round, summarizeTrace, toGolden, traceFixture } from './helpers';
+
+// Gray image from a luminance function of the pixel position
+const paint = (width: number, height: number, luma: (x: number, y: number) => number): RasterImage => {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            data.fill(luma(x, y), i, i + 3);
+            data[i + 3] = 255;
+        }
+    }
+    return { width, height, data };
+};
+
+const trace = (image: RasterImage) =>
+    processImageData(image, TRACE_DEFAULTS, { originalWidth: image.width, originalHeight: image.height });
+
+describe('processImageData', () => {
+    it('traces a ring as an outline and a hole of opposite winding', async () => {
+        const result = traceFixture('ring.png');
+        expect(result.contours).toHaveLength(2);
+        expect(result.parents).toEqual([-1, 0]);
+
+        // Radii 60 and 30 px
+        const [outer, hole] = result.contours;
+        expect(contourArea(outer) / (Math.PI * 60 ** 2)).toBeCloseTo(1, 2);
+        expect(-contourArea(hole) / (Math.PI * 30 ** 2)).toBeCloseTo(1, 2);
+
+        await expect(toGolden(summarizeTrace(result))).toMatchFileSnapshot(golden('trace-ring'));
+    });
+
+    it('places edges between pixels where the gray level crosses the threshold', () => {
+        // Luminance 10 * x: the threshold (128) is crossed 12.8 px from the
+        // first pixel centre, i.e. at x = 13.3
+        const result = trace(paint(30, 10, x => 10 * x));
+        expect(result.contours).toHaveLength(1);
+        const right = Math.max(...result.contours[0].map(p => p.x));
+        expect(right).toBeCloseTo(13.3, 3);
+        // The image border is the pixel edge
+        expect(Math.min(...result.contours[0].map(p => p.x))).toBe(0);
+
+        // A shape filling the whole image is only the border: nothing to trace
+        expect(trace(paint(30, 10, () => 0)).contours).toHaveLength(0);
+    });
+
+    it('keeps straight-sided shapes', () => {
+        const result = trace(paint(40, 30, (x, y) => x >= 5 && x < 25 && y >= 10 && y < 20 ? 0 : 255));
+        expect(result.contours).toHaveLength(1);
+        // Four straight sides; each corner is cut by a half-pixel chamfer
+        expect(result.contours[0]).toHaveLength(8);
+        expect(contourArea(result.contours[0])).toBeCloseTo(20 * 10 - 4 * 0.125, 0);
+    });
+
+    it('nests islands in holes', () => {
+        // Square ring with a dot in its hole
+        const result = trace(paint(60, 60, (x, y) => {
+            const d = Math.max(Math.abs(x - 30), Math.abs(y - 30));
+            return d >= 20 && d < 28 || d < 6 ? 0 : 255;
+        }));
+        expect(result.parents).toEqual([-1, 0, 1]);
+        expect(result.contours.map(c => Math.sign(contourArea(c)))).toEqual([1, -1, 1]);
+        expect(tracedRoles(result)).toEqual(['auto', 'void', 'auto']);
+    });
+
+    it('traces the opaque shapes of a transparent logo', async () => {
+        const result = traceFixture('logo.png');
+        expect(result.contours).toHaveLength(2);
+        await expect(toGolden(summarizeTrace(result))).toMatchFileSnapshot(golden('trace-logo'));
+    });
+
+    it('inverts the selection', async () => {
+        const result = traceFixture('ring.png', { invert: true });
+        // The background fills the frame: its border loop is dropped, leaving
+        // the ring's outline (wound as a hole, but not inside anything) and
+        // the disc in the middle
+        expect(result.contours).toHaveLength(2);
+        expect(result.parents).toEqual([-1, 0]);
+        expect(result.contours.map(c => Math.sign(contourArea(c)))).toEqual([-1, 1]);
+        expect(tracedRoles(result)).toEqual(['auto', 'auto']);
+        await expect(toGolden(summarizeTrace(result))).toMatchFileSnapshot(golden('trace-ring-inverted'));
+    });
+
+    it('repairs a noisy sketch with blur, adaptive threshold and closing', async () => {
+        const result = traceFixture('sketch.jpg', { blur: 1, threshold: 100, adaptive: true, morphology: true });
+        expect(result.contours.length).toBeGreaterThan(0);
+        await expect(toGolden(summarizeTrace(result))).toMatchFileSnapshot(golden('trace-sketch'));
+    });
+
+    it('traces edges', async () => {
+        const result = traceFixture('logo.png', { mode: 'edges' });
+        await expect(toGolden(summarizeTrace(result))).toMatchFileSnapshot(golden('trace-logo-edges'));
+    });
+
+    it('returns contours in original pixels when large images are traced scaled down', () => {
+        const large = resizeRaster(decodeImage(fixture('ring.png')), 2048, 2048);
+        const { imageData, meta } = prepareRasterForTrace(large, TRACE_DEFAULTS);
+        expect([imageData.width, imageData.height]).toEqual([1024, 1024]);
+
+        const result = processImageData(imageData, TRACE_DEFAULTS, meta);
+        expect([result.width, result.height]).toEqual([2048, 2048]);
+        const outer = Math.max(...result.contours.map(c => Math.abs(contourArea(c))));
+        expect(outer / (Math.PI * (60 * 12.8) ** 2)).toBeCloseTo(1, 1);
+    });
+});
+
+describe('optimizeTracedContours', () => {
+    it('smooths the traced outlines without changing their area', async () => {
+        const result = traceFixture('ring.png');
+        const optimized = optimizeTracedContours(result.contours);
+        optimized.forEach((contour, i) => {
+            expect(contourArea(contour) / contourArea(result.contours[i])).toBeCloseTo(1, 1);
+        });
+        const summary = optimized.map(c => ({ points: c.length, area: round(contourArea(c), 1) }));
+        await expect(toGolden(summary)).toMatchFileSnapshot(golden('optimize-ring'));
+    });
+});
+
+describe('analyzeRaster', () => {
+    it('classifies the fixtures', () => {
+        const sample = (name: string) => analyzeRaster(resizeRaster(decodeImage(fixture(name)), 64, 64)).type;
+        expect(sample('logo.png')).toBe('logo');
+        expect(sample('sketch.jpg')).toBe('sketch');
+    });
+});
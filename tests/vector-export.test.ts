@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { deserializeDesign, exportToDXF, exportToSVG, resolveItemFlags, withItems } from '../src/core';
+import { loadProject } from './helpers';
+
+const svgPaths = (svg: string) => svg.match(/<path /g)?.length ?? 0;
+const dxfEntities = (dxf: string) => dxf.split('\r\n').filter((line, i, lines) => lines[i - 1] === '0' && (line === 'LWPOLYLINE' || line === 'SPLINE')).length;
+
+describe('vector export', () => {
+    it('writes compounds as their boolean result', () => {
+        const project = loadProject('compound-union.ccg');
+        const design = deserializeDesign(project.design);
+        const { width, height } = project.imageDims!;
+
+        expect(svgPaths(exportToSVG(design, width, height, project.settings.size))).toBe(1);
+        expect(svgPaths(exportToSVG({ ...design, compounds: [] }, width, height, project.settings.size))).toBe(2);
+        expect(dxfEntities(exportToDXF(design, width, height, project.settings.size))).toBe(1);
+    });
+
+    it('leaves hidden layers out', () => {
+        const project = loadProject('star-keychain.ccg');
+        const design = withItems(deserializeDesign(project.design));
+        const { hidden } = resolveItemFlags(design.items, design.groups, design.contours.length);
+        const { width, height } = project.imageDims!;
+        const visible = hidden.filter(h => !h).length;
+
+        expect(visible).toBeLessThan(design.contours.length);
+        expect(svgPaths(exportToSVG(design, width, height, project.settings.size, hidden))).toBe(visible);
+        expect(dxfEntities(exportToDXF(design, width, height, project.settings.size, hidden))).toBe(visible);
+    });
+});